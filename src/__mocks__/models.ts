@@ -2,7 +2,7 @@
 
 import Chance from 'chance'
 import { ObjectId } from 'mongodb'
-import { Model, type Schema } from '../index.js'
+import { Model, type InferProps, type Schema } from '../index.js'
 
 const chance = new Chance()
 
@@ -22,6 +22,7 @@ export type FooProps = {
   aNumber: number
   aBar: ObjectId
   aFoo?: ObjectId
+  someBars?: ObjectId[]
   anObject?: FooObject
 }
 
@@ -34,6 +35,7 @@ const FooSchema: Schema<FooProps> = {
     aNumber: { type: Number, required: true },
     aBar: { type: ObjectId, ref: 'Bar', required: true },
     aFoo: { type: ObjectId, ref: 'Foo' },
+    someBars: { type: [ObjectId], ref: 'Bar' },
     anObject: {
       type: {
         foo: {
@@ -82,11 +84,19 @@ export type BarProps = {
     aString: string
     aNumber: number
     aBoolean: boolean
+    anEncryptedString?: string
   }
   aNumber: number
   aBoolean?: boolean
   aFormattedString?: string
   anEncryptedString?: string
+  aSecretString?: string
+  someSecretDates?: Date[]
+  someObjects?: {
+    _id?: ObjectId
+    aString: string
+    aNumber?: number
+  }[]
 }
 
 const BarSchema: Schema<BarProps> = {
@@ -94,6 +104,9 @@ const BarSchema: Schema<BarProps> = {
   collection: 'bars',
   cascade: ['Foo'],
   allowUpserts: true,
+  relations: {
+    foos: { model: 'Foo' },
+  },
   fields: {
     aBar: { type: ObjectId, ref: 'Bar' },
     aString: { type: String, required: true },
@@ -104,12 +117,22 @@ const BarSchema: Schema<BarProps> = {
         aString: { type: String },
         aNumber: { type: Number },
         aBoolean: { type: Boolean },
+        anEncryptedString: { type: String, hashed: true },
       },
     },
     aNumber: { type: Number, required: true },
     aBoolean: { type: Boolean },
     aFormattedString: { type: String },
-    anEncryptedString: { type: String, encrypted: true },
+    anEncryptedString: { type: String, hashed: true },
+    aSecretString: { type: String, encryption: 'aes-256-gcm' },
+    someSecretDates: { type: [Date], encryption: 'aes-256-gcm' },
+    someObjects: {
+      type: [{
+        aString: { type: String, required: true },
+        aNumber: { type: Number },
+      }],
+      autoId: true,
+    },
   },
   indexes: [{
     spec: { aString: 1 },
@@ -123,31 +146,33 @@ export class Bar extends Model(BarSchema) {
   }
 
   static defaultProps = {
-    aDate: () => new Date(),
-    aNumber: 100,
-    aBoolean: false,
+    'aDate': () => new Date(),
+    'aNumber': 100,
+    'aBoolean': false,
+    'anObject.aBoolean': false,
+    'someObjects.$[].aNumber': 0,
   }
 
   static validateProps = {
-    aString: 100,
-    aNumber: (value: number) => value >= 0 && value <= 1000,
+    'aString': 100,
+    'aNumber': (value: number) => value >= 0 && value <= 1000,
+    'anObject.aNumber': (value: number) => value >= 0,
+    'someObjects.$[].aNumber': (value: number) => value >= 0,
   }
 
   static formatProps = {
-    aFormattedString: (v: string) => v.toUpperCase(),
+    'aFormattedString': (v: string) => v.toUpperCase(),
+    'anObject.aString': (v: string) => v.trim(),
+    'someObjects.$[].aString': (v: string) => v.trim(),
   }
-}
 
-export type BazProps = {
-  aString: string
-  aNumber?: number
-  aBoolean?: boolean
-  anObject?: { a?: string; b?: string }
-  aFormattedString?: string
-  anEncryptedString?: string
+  static encryptionKeyProvider = {
+    currentKeyId: 'k1',
+    getKey: (keyId: string) => Buffer.alloc(32, keyId),
+  }
 }
 
-const BazSchema: Schema<BazProps> = {
+const BazSchema = {
   model: 'Baz',
   collection: 'bazs',
   allowUpserts: true,
@@ -162,7 +187,9 @@ const BazSchema: Schema<BazProps> = {
   indexes: [{
     spec: { aString: 1 },
   }],
-}
+} as const satisfies Schema
+
+export type BazProps = InferProps<typeof BazSchema>
 
 export class Baz extends Model(BazSchema) {
   static randomProps = {
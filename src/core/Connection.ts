@@ -1,16 +1,62 @@
 import useDebug from 'debug'
-import { MongoClient, type Collection, type Db } from 'mongodb'
+import { MongoClient, type ClientSession, type Collection, type Db, type MongoClientOptions, type TransactionOptions } from 'mongodb'
+import { ConnectionError } from '../errors/index.js'
 import { type AnyDocument } from '../types/index.js'
+import { type Schema } from './Schema.js'
 import { type modelFactory } from './modelFactory.js'
+import { getActiveSession, runWithSession } from './session.js'
 
 const debug = useDebug('mongodb-odm:connection')
 
 export type ConnectionConfiguration = {
-  host: string
-  name: string
+  /**
+   * Full MongoDB connection string, i.e. `mongodb://...` or
+   * `mongodb+srv://...`, including any hosts and query parameters (such as
+   * `authSource`, `tls`, etc.). If specified, `host` and `replicaSet` are
+   * ignored.
+   *
+   * @see {@link https://www.mongodb.com/docs/manual/reference/connection-string/}
+   */
+  uri?: string
+
+  /**
+   * Host (or comma separated list of hosts) of the database, i.e.
+   * `localhost:27017`. Used to build the connection string if `uri` is
+   * unspecified.
+   */
+  host?: string
+
+  /**
+   * Name of the database. If unspecified, the database in the path of the
+   * connection string is used.
+   */
+  name?: string
+
+  /**
+   * Name of the replica set. Only used if `uri` is unspecified.
+   */
   replicaSet?: string
+
+  /**
+   * Username for authentication. Special characters are URL-encoded
+   * automatically.
+   */
   username?: string
+
+  /**
+   * Password for authentication. Special characters are URL-encoded
+   * automatically.
+   */
   password?: string
+
+  /**
+   * Options passed to the MongoDB driver's `MongoClient`, i.e. pool size,
+   * timeouts, compressors, etc.
+   *
+   * @see {@link https://mongodb.github.io/node-mongodb-native/6.10/interfaces/MongoClientOptions.html}
+   */
+  clientOptions?: MongoClientOptions
+
   models?: Record<string, any>
 }
 
@@ -67,32 +113,57 @@ export class Connection {
     return true
   }
 
+  /**
+   * Resolves the connection string from the initialized configuration. If
+   * `uri` is specified, it is used as is, otherwise the connection string is
+   * built from `host`, `name`, `replicaSet`, `username` and `password`.
+   *
+   * @returns The connection string.
+   *
+   * @throws {ConnectionError} Neither `uri` nor `host` is specified in the
+   *                           configuration.
+   */
+  getUri(): string {
+    const { uri, host, name, replicaSet, username, password } = this.config
+
+    if (uri) return uri
+    if (!host) throw new ConnectionError('Either `uri` or `host` must be specified in the connection configuration', { operation: 'connect' })
+
+    // Resolve the authentication string, URL-encoding reserved characters such
+    // as `@` and `:`.
+    const authentication = username && password ? `${encodeURIComponent(username)}:${encodeURIComponent(password)}` : undefined
+
+    return `mongodb://${authentication ? `${authentication}@` : ''}${host}/${name ? encodeURIComponent(name) : ''}${replicaSet ? `?replicaSet=${encodeURIComponent(replicaSet)}` : ''}`
+  }
+
   /**
    * Establishes a new connection to the database based on the initialized
    * configuration. If there already exists one, this method does nothing.
    *
-   * @throws {Error} When unable to establish MongoDB connection.
+   * @throws {ConnectionError} When unable to establish MongoDB connection.
    */
   async connect(): Promise<void> {
     if (this.isConnected()) return
 
-    // Resolve the authentication string.
-    const authentication = this.config.username && this.config.password ? `${this.config.username}:${this.config.password}` : undefined
+    const url = this.getUri()
+    const options: MongoClientOptions = { ...this.config.clientOptions }
 
-    // Database client URL.
-    const url = `mongodb://${authentication ? `${authentication}@` : ''}${this.config.host}/${this.config.name}${this.config.replicaSet ? `?replicaSet=${this.config.replicaSet}` : ''}`
+    // If a full connection string is provided, credentials specified
+    // separately are passed to the driver as is so that they don't need to be
+    // URL-encoded.
+    if (this.config.uri && this.config.username && this.config.password && !options.auth) {
+      options.auth = { username: this.config.username, password: this.config.password }
+    }
 
     try {
-      this.client = await MongoClient.connect(url, {
-
-      })
+      this.client = await MongoClient.connect(url, options)
 
-      debug('Establishing MongoDB client connection...', 'OK', url)
+      debug('Establishing MongoDB client connection...', 'OK', url.replace(/\/\/[^@/]*@/, '//***@'))
     }
     catch (err) {
       debug('Establishing MongoDB client connection...', 'ERR', err)
 
-      throw err
+      throw new ConnectionError(err instanceof Error ? err.message : 'Unable to establish MongoDB connection', { operation: 'connect', cause: err })
     }
   }
 
@@ -110,10 +181,57 @@ export class Connection {
   }
 
   /**
-   * Gets the MongoDB collection associated with a model or collection name and
-   * ensures the indexes defined in its schema.
+   * Runs the provided function in a transaction. Every model operation (CRUD
+   * operations, lifecycle hooks, cascade deletions, etc.) invoked within the
+   * function automatically uses the session of the transaction. The transaction
+   * is committed once the function resolves and aborted if it rejects. The
+   * entire function is retried if the transaction fails with a transient
+   * error. If this method is invoked within an active transaction of this
+   * connection, the function simply joins the active transaction.
+   *
+   * Note that transactions require the database to be a replica set or a
+   * sharded cluster, and that only operations on models of this connection
+   * are part of the transaction. Models of other connections operate outside
+   * of it, unless the function is nested in a transaction of their connection.
+   *
+   * @param fn The function to run in the transaction.
+   * @param options Options for the transaction.
    *
-   * @param modelOrCollectionName The model or collection name.
+   * @returns The return value of the function.
+   *
+   * @see {@link https://mongodb.github.io/node-mongodb-native/6.10/classes/ClientSession.html#withTransaction}
+   */
+  async withTransaction<T>(fn: (session: ClientSession) => Promise<T>, options?: TransactionOptions): Promise<T> {
+    await this.connect()
+
+    const client = this.client
+    if (!client) throw new ConnectionError('Unable to start a transaction without a MongoDB client', { operation: 'withTransaction' })
+
+    // Only join an active transaction of the same client, since sessions
+    // cannot be used across clients.
+    const activeSession = getActiveSession(client)
+    if (activeSession?.inTransaction()) return fn(activeSession)
+
+    const session = client.startSession()
+
+    try {
+      const result = await session.withTransaction(async () => runWithSession(session, () => fn(session), client), options)
+
+      debug('Running transaction...', 'OK')
+
+      return result
+    }
+    finally {
+      await session.endSession()
+    }
+  }
+
+  /**
+   * Gets the MongoDB collection associated with a model or collection name (or
+   * the schema of a model) and ensures the indexes defined in its schema.
+   *
+   * @param modelOrCollectionName The model or collection name, or the schema of
+   *                              the model.
    *
    * @returns The MongoDB collection.
    *
@@ -124,11 +242,12 @@ export class Connection {
    * @throws {Error} Unable to find the model associated with the model or
    *                 collection name.
    */
-  async getCollection<T extends AnyDocument = AnyDocument>(modelOrCollectionName: string): Promise<Collection<T>> {
-    if (this.collections[modelOrCollectionName]) return this.collections[modelOrCollectionName]
+  async getCollection<T extends AnyDocument = AnyDocument>(modelOrCollectionName: string | Schema): Promise<Collection<T>> {
+    const key = typeof modelOrCollectionName === 'string' ? modelOrCollectionName : modelOrCollectionName.model
 
-    const ModelClass = this.getModel(modelOrCollectionName)
-    const schema = ModelClass.schema
+    if (this.collections[key]) return this.collections[key]
+
+    const schema = typeof modelOrCollectionName === 'string' ? this.getModel(modelOrCollectionName).schema : modelOrCollectionName
     const dbInstance = await this.getDbInstance()
     const collection = dbInstance.collection<T>(schema.collection)
 
@@ -152,6 +271,23 @@ export class Connection {
     return collection
   }
 
+  /**
+   * Checks if a model is registered in this connection by its name or
+   * collection name.
+   *
+   * @param modelOrCollectionName Model or collection name.
+   *
+   * @returns `true` if the model is registered, `false` otherwise.
+   */
+  hasModel(modelOrCollectionName: string): boolean {
+    const models = this.config.models
+
+    if (!models) return false
+    if ({}.hasOwnProperty.call(models, modelOrCollectionName)) return true
+
+    return Object.values(models).some(ModelClass => ModelClass.schema.collection === modelOrCollectionName)
+  }
+
   /**
    * Gets a model class by its name or collection name.
    *
@@ -1,8 +1,12 @@
 import { type AggregateOptions, type BulkWriteOptions, type Collection, type DeleteOptions, type FindOneAndDeleteOptions, type FindOneAndReplaceOptions, type FindOneAndUpdateOptions, type InsertOneOptions, type ObjectId, type ReplaceOptions, type UpdateOptions } from 'mongodb'
-import { type AnyFilter, type AnyProps, type AnyUpdate, type Document, type DocumentFragment } from '../types/index.js'
+import { type ValidationMode } from '../errors/index.js'
+import { type AnyFilter, type AnyProps, type AnyUpdate, type Document, type DocumentFragment, type OffsetPage, type Page } from '../types/index.js'
 import { type SanitizeUpdateOptions } from '../utils/index.js'
+import { type PipelineBuilder } from './PipelineBuilder.js'
+import { type Query } from './Query.js'
 import { type FieldValue, type Schema } from './Schema.js'
 import type * as Aggregation from './aggregation/index.js'
+import { type CountOptions, type DistinctValue, type DistinctValuesOptions, type ExistsOptions, type FindDocumentsOptions, type FindPageOptions, type PaginateOptions } from './crud/index.js'
 
 type LocalModel = any
 
@@ -13,14 +17,21 @@ export type ModelRandomPropertyProvider<P extends AnyProps = AnyProps> = { [K in
  */
 export type FieldRandomValueFunction<V = FieldValue> = () => V
 
-export type ModelDefaultPropertyProvider<P extends AnyProps = AnyProps> = { [K in keyof P]?: NonNullable<P[K]> | FieldDefaultValueFunction<NonNullable<P[K]>> }
+/**
+ * Key of a nested field (including subfields of embedded docs in arrays) in
+ * the property providers of a model, i.e. `anObject.foo.aString` or
+ * `lineItems.$[].qty`.
+ */
+export type NestedPropertyProviderKey = `${string}.${string}`
+
+export type ModelDefaultPropertyProvider<P extends AnyProps = AnyProps> = { [K in keyof P]?: NonNullable<P[K]> | FieldDefaultValueFunction<NonNullable<P[K]>> } & Partial<Record<NestedPropertyProviderKey, FieldValue | FieldDefaultValueFunction<any>>>
 
 /**
  * Function for generating a default value for the associated field.
  */
 export type FieldDefaultValueFunction<V = FieldValue> = () => V
 
-export type ModelPropertyFormattingProvider<P extends AnyProps = AnyProps> = { [K in keyof P]?: FieldFormatFunction<NonNullable<P[K]>> }
+export type ModelPropertyFormattingProvider<P extends AnyProps = AnyProps> = { [K in keyof P]?: FieldFormatFunction<NonNullable<P[K]>> } & Partial<Record<NestedPropertyProviderKey, FieldFormatFunction<any>>>
 
 /**
  * Function for formatting field values, in which the value to be formatted will
@@ -28,7 +39,7 @@ export type ModelPropertyFormattingProvider<P extends AnyProps = AnyProps> = { [
  */
 export type FieldFormatFunction<V = FieldValue> = (value: V) => V
 
-export type ModelPropertyValidationProvider<P extends AnyProps = AnyProps> = { [K in keyof P]?: FieldValidationStrategy<NonNullable<P[K]>> }
+export type ModelPropertyValidationProvider<P extends AnyProps = AnyProps> = { [K in keyof P]?: FieldValidationStrategy<NonNullable<P[K]>> } & Partial<Record<NestedPropertyProviderKey, FieldValidationStrategy<any>>>
 
 /**
  * The validation strategy can be one of several types. The behavior per type is
@@ -49,6 +60,25 @@ export type FieldValidationStrategy<V = FieldValue> = RegExp | number | V[] | Fi
   */
 export type FieldValidationFunction<V = FieldValue> = (value: V) => boolean
 
+/**
+ * Provides the keys for encrypting and decrypting the values of encrypted
+ * fields (see `FieldDescriptor.encryption`), i.e. backed by environment
+ * variables or a key management service.
+ */
+export type EncryptionKeyProvider = {
+  /**
+   * ID of the key used to encrypt values. Values encrypted with other keys
+   * remain decryptable as long as their keys are provided by `getKey`, see
+   * {@link Model.rotateEncryptionKeys}.
+   */
+  currentKeyId: string
+
+  /**
+   * Gets a 256-bit (32-byte) key by its ID, `undefined` if there is none.
+   */
+  getKey: (keyId: string) => Uint8Array | undefined | Promise<Uint8Array | undefined>
+}
+
 export type ModelRandomFieldsOptions = {
   /**
    * Specifies whether optional fields will be generated as well.
@@ -56,9 +86,60 @@ export type ModelRandomFieldsOptions = {
   includeOptionals?: boolean
 }
 
-export type ModelFindOneOptions = AggregateOptions
+export type ModelFindOneOptions<
+  P extends AnyProps = AnyProps,
+  S extends Aggregation.PopulateStageFactorySpecs<P> = Aggregation.PopulateStageFactorySpecs<P>,
+  F extends Aggregation.FieldSelection<P> = Aggregation.FieldSelection<P>,
+  L extends Aggregation.RelationStageFactorySpecs = Aggregation.RelationStageFactorySpecs,
+> = Omit<FindDocumentsOptions<P>, 'populate' | 'relations' | 'select'> & {
+  /**
+   * Reference fields to populate with the referenced documents, optionally
+   * populating their own reference fields in turn, i.e.
+   * `{ aBar: { populate: { aBar: true } } }`. Reference fields typed as arrays
+   * (e.g. `[ObjectId]`) are populated with arrays of documents.
+   */
+  populate?: S
+
+  /**
+   * Fields to include (i.e. `{ aString: 1 }`) or exclude (i.e.
+   * `{ aString: 0 }`) from the found documents. The type of the found
+   * documents is narrowed to the selected fields.
+   */
+  select?: F
+
+  /**
+   * Virtual inverse (has-many) relations to load, either declared in the
+   * schema (i.e. `{ foos: true }`) or inline (i.e.
+   * `{ foos: { model: Foo, sort: { aNumber: -1 }, limit: 5 } }`). Specify the
+   * related model itself to type the related documents accordingly.
+   */
+  relations?: L
+}
+
+export type ModelFindManyOptions<
+  P extends AnyProps = AnyProps,
+  S extends Aggregation.PopulateStageFactorySpecs<P> = Aggregation.PopulateStageFactorySpecs<P>,
+  F extends Aggregation.FieldSelection<P> = Aggregation.FieldSelection<P>,
+  L extends Aggregation.RelationStageFactorySpecs = Aggregation.RelationStageFactorySpecs,
+> = ModelFindOneOptions<P, S, F, L>
+
+/**
+ * Type of a document found with the populate specs `S`, the field selection
+ * `F` and the relations `L`.
+ */
+export type ModelFindResult<R extends AnyProps, S, F, L = Record<never, never>> = Aggregation.Related<Aggregation.Selected<Document<Aggregation.Populated<R, S>>, F>, L>
+
+export type ModelStreamOptions = AggregateOptions
+
+export type ModelPaginateOptions<P extends AnyProps = AnyProps> = PaginateOptions<P>
 
-export type ModelFindManyOptions = AggregateOptions
+export type ModelFindPageOptions<P extends AnyProps = AnyProps> = FindPageOptions<P>
+
+export type ModelExistsOptions = ExistsOptions
+
+export type ModelCountOptions = CountOptions
+
+export type ModelDistinctOptions = DistinctValuesOptions
 
 export type ModelInsertOneOptions = InsertOneOptions & SanitizeUpdateOptions & ModelValidateDocumentOptions
 
@@ -71,12 +152,31 @@ export type ModelUpdateOptions = {
    * update operation.
    */
   returnDocument?: 'before' | 'after'
+
+  /**
+   * Specifies whether required fields may be removed by the update, i.e. via
+   * `$unset` (including `null` or `undefined` values in `$set`), `$rename` or
+   * by emptying required arrays via `$pull`, `$pullAll`, `$pop` or `$push`
+   * with `$slice: 0`. Unless this is `true` (i.e. for migrations), removal of
+   * required fields is rejected with a `ValidationError`, and documents whose
+   * required arrays would be emptied are atomically excluded from the update.
+   */
+  allowRequiredFieldRemoval?: boolean
 }
 
 export type ModelUpdateOneOptions = (UpdateOptions | FindOneAndUpdateOptions) & SanitizeUpdateOptions & ModelValidateDocumentOptions & ModelUpdateOptions
 
 export type ModelUpdateManyOptions = (UpdateOptions | FindOneAndUpdateOptions) & SanitizeUpdateOptions & ModelValidateDocumentOptions & ModelUpdateOptions
 
+export type ModelDecryptDocumentOptions = {
+  /**
+   * Relations loaded into the document, see
+   * {@link Aggregation.RelationStageFactorySpecs}. The related documents are
+   * decrypted by their own models.
+   */
+  relations?: Aggregation.RelationStageFactorySpecs
+}
+
 export type ModelDeleteOptions = {
   /**
    * Specifies whether the deleted document(s) should be returned. If
@@ -99,6 +199,13 @@ export type ModelReplaceOneOptions = (ReplaceOptions | FindOneAndReplaceOptions)
   returnDocument?: 'before' | 'after'
 }
 
+export type ModelRotateEncryptionKeysOptions = {
+  /**
+   * Number of documents re-encrypted per batch, defaults to `100`.
+   */
+  batchSize?: number
+}
+
 export type ModelValidateDocumentOptions = {
   /**
    * Tells the validation process to account for required fields. That is, if
@@ -120,6 +227,13 @@ export type ModelValidateDocumentOptions = {
    * in an embedded doc as opposed to a top-level field.
    */
   accountForDotNotation?: boolean
+
+  /**
+   * Tells the validation process whether to stop at the first failure
+   * (`first`, the default) or to collect all failures (`all`) before throwing
+   * a {@link ValidationError}.
+   */
+  mode?: ValidationMode
 }
 
 /**
@@ -138,20 +252,30 @@ export interface Model<T extends AnyProps> {
   randomProps: ModelRandomPropertyProvider<T>
 
   /**
-   * Dictionary of default value generators for this model's props.
+   * Dictionary of default value generators for this model's props, where
+   * nested fields are keyed by their paths, see
+   * {@link NestedPropertyProviderKey}.
    */
   defaultProps: ModelDefaultPropertyProvider<T>
 
   /**
-   * Dictionary of value formatters for this model's props.
+   * Dictionary of value formatters for this model's props, where nested fields
+   * are keyed by their paths, see {@link NestedPropertyProviderKey}.
    */
   formatProps: ModelPropertyFormattingProvider<T>
 
   /**
-   * Dictionary of value validators for this model's props.
+   * Dictionary of value validators for this model's props, where nested fields
+   * are keyed by their paths, see {@link NestedPropertyProviderKey}.
    */
   validateProps: ModelPropertyValidationProvider<T>
 
+  /**
+   * Provider of the keys for encrypting and decrypting the values of encrypted
+   * fields, see {@link EncryptionKeyProvider}.
+   */
+  encryptionKeyProvider: EncryptionKeyProvider | undefined
+
   /**
    * Gets the MongoDB collection associated with this model.
    *
@@ -166,8 +290,10 @@ export interface Model<T extends AnyProps> {
   /**
    * Generates random fields for this model. By default, only fields that are
    * marked as required and has a random() function defined will have random
-   * values generated. Specify `includeOptionals` to generate unrequired fields
-   * as well.
+   * values generated. Fields of BSON types (i.e. `Decimal128`, `Binary`, `Long`
+   * and `UUID`) without a random() function fall back to values generated
+   * based on their types. Specify `includeOptionals` to generate unrequired
+   * fields as well.
    *
    * @param fixedFields A collection of fields that must be present in the
    *                    output.
@@ -188,8 +314,9 @@ export interface Model<T extends AnyProps> {
    *
    * @returns The matching `ObjectId`.
    *
-   * @throws {Error} No document is found with the given filter.
-   * @throws {Error} ID of the found document is not a valid `ObjectId`.
+   * @throws {DocumentNotFoundError} No document is found with the given
+   *                                 filter.
+   * @throws {ODMError} ID of the found document is not a valid `ObjectId`.
    */
   identifyOneStrict: (filter: AnyFilter<T>) => Promise<ObjectId>
 
@@ -217,21 +344,27 @@ export interface Model<T extends AnyProps> {
 
   /**
    * Finds one document from this collection using the aggregation framework. If
-   * no filter is specified, a random document will be fetched.
+   * no filter is specified, a random document will be fetched. Values of
+   * encrypted fields of this model are decrypted.
    *
    * @param filter Filter used for the `$match` stage of the aggregation
    *               pipeline.
-   * @param options Options passed to MongoDB driver's `Collection#aggregate`.
+   * @param options Options passed to MongoDB driver's `Collection#aggregate`,
+   *                with the additional `populate`, `select` and `relations`
+   *                options, see {@link ModelFindOneOptions}.
    *
-   * @returns The matching document as the fulfillment value.
+   * @returns The matching document as the fulfillment value, with the
+   *          specified reference fields populated.
    *
    * @see
    * {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#aggregate}
    *
-   * @throws {Error} More or less than 1 document found.
-   * @throws {Error} No document found.
+   * @throws {DocumentNotFoundError} No document found.
+   *
+   * @example
+   * const foo = await Foo.findOneStrict(id, { populate: { aBar: { populate: { aBar: true } } } })
    */
-  findOneStrict: <R extends AnyProps = T>(filter?: AnyFilter<T> | Aggregation.Pipeline, options?: ModelFindOneOptions) => Promise<Document<R>>
+  findOneStrict: <R extends AnyProps = T, const S extends Aggregation.PopulateStageFactorySpecs<T> = Record<never, never>, const F extends Aggregation.FieldSelection<T> = Record<never, never>, const L extends Aggregation.RelationStageFactorySpecs = Record<never, never>>(filter?: AnyFilter<T> | Aggregation.Pipeline, options?: ModelFindOneOptions<T, S, F, L>) => Promise<ModelFindResult<R, S, F, L>>
 
   /**
    * Same as the strict find one operation but this method drops all errors and
@@ -239,28 +372,125 @@ export interface Model<T extends AnyProps> {
    *
    * @param filter Filter used for the `$match` stage of the aggregation
    *               pipeline.
-   * @param options Options passed to MongoDB driver's `Collection#aggregate`.
+   * @param options Options passed to MongoDB driver's `Collection#aggregate`,
+   *                with the additional `populate`, `select` and `relations`
+   *                options, see {@link ModelFindOneOptions}.
    *
    * @returns The matching document as the fulfillment value.
    *
    * @see {@link Model.findOneStrict}
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#aggregate}
    */
-  findOne: <R extends AnyProps = T>(filter?: AnyFilter<T> | Aggregation.Pipeline, options?: ModelFindOneOptions) => Promise<Document<R> | undefined>
+  findOne: <R extends AnyProps = T, const S extends Aggregation.PopulateStageFactorySpecs<T> = Record<never, never>, const F extends Aggregation.FieldSelection<T> = Record<never, never>, const L extends Aggregation.RelationStageFactorySpecs = Record<never, never>>(filter?: AnyFilter<T> | Aggregation.Pipeline, options?: ModelFindOneOptions<T, S, F, L>) => Promise<ModelFindResult<R, S, F, L> | undefined>
 
   /**
    * Finds multiple documents of this collection using the aggregation
-   * framework. If no query is specified, all documents are fetched.
+   * framework. If no query is specified, all documents are fetched. Values of
+   * encrypted fields of this model are decrypted.
    *
    * @param filter Filter used for the `$match` stage of the aggregation
    *               pipeline.
-   * @param options Options passed to MongoDB driver's `Collection#aggregate`.
+   * @param options Options passed to MongoDB driver's `Collection#aggregate`,
+   *                with the additional `populate`, `select` and `relations`
+   *                options, see {@link ModelFindManyOptions}.
    *
-   * @returns The matching documents as the fulfillment value.
+   * @returns The matching documents as the fulfillment value, with the
+   *          specified reference fields populated.
    *
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#aggregate}
    */
-  findMany: <R extends AnyProps = T>(filter?: AnyFilter<T> | Aggregation.Pipeline, options?: ModelFindManyOptions) => Promise<Document<R>[]>
+  findMany: <R extends AnyProps = T, const S extends Aggregation.PopulateStageFactorySpecs<T> = Record<never, never>, const F extends Aggregation.FieldSelection<T> = Record<never, never>, const L extends Aggregation.RelationStageFactorySpecs = Record<never, never>>(filter?: AnyFilter<T> | Aggregation.Pipeline, options?: ModelFindManyOptions<T, S, F, L>) => Promise<ModelFindResult<R, S, F, L>[]>
+
+  /**
+   * Creates a chainable, immutable query of the documents of this collection,
+   * see {@link Query}.
+   *
+   * @returns The query.
+   *
+   * @example
+   * const docs = await Foo.query().where({ aNumber: 1 }).sort({ aString: 1 }).limit(10).many()
+   */
+  query: () => Query<T>
+
+  /**
+   * Creates a type-safe, immutable builder of aggregation pipelines for this
+   * collection, where each stage transforms the type of the output documents,
+   * see {@link PipelineBuilder}.
+   *
+   * @returns The pipeline builder.
+   *
+   * @example
+   * const results = await Foo.aggregate().lookup('aBar', Bar).group({ _id: '$aBar.aString', total: { $sum: '$aNumber' } }).toArray()
+   */
+  aggregate: () => PipelineBuilder<T>
+
+  /**
+   * Streams multiple documents of this collection using the aggregation
+   * framework, fetching them from the database in batches as they are
+   * iterated instead of loading all of them into memory. If no query is
+   * specified, all documents are streamed. The underlying cursor is closed
+   * once iteration completes, fails or is stopped early (i.e. via `break`).
+   * Use `Readable.from()` to consume the documents as a Node.js stream.
+   *
+   * @param filter Filter used for the `$match` stage of the aggregation
+   *               pipeline.
+   * @param options Options passed to MongoDB driver's `Collection#aggregate`,
+   *                use `batchSize` to control the number of documents fetched
+   *                per batch.
+   *
+   * @returns An async iterable of the matching documents.
+   *
+   * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#aggregate}
+   *
+   * @example
+   * for await (const doc of Foo.stream({ aString: 'foo' }, { batchSize: 100 })) {
+   *   // ...
+   * }
+   */
+  stream: <R extends AnyProps = T>(filter?: AnyFilter<T> | Aggregation.Pipeline, options?: ModelStreamOptions) => AsyncGenerator<Document<R>, void, undefined>
+
+  /**
+   * Finds a page of documents of this collection using keyset (cursor-based)
+   * pagination, which stays fast on large collections as opposed to skipping
+   * documents. Specify `first` (and optionally `after`) to paginate forward,
+   * or `last` (and optionally `before`) to paginate backward. If neither is
+   * specified, the first 20 documents are returned. Cursors are opaque strings
+   * encoding the sort values of the documents they point to.
+   *
+   * Note that `hasPreviousPage` (when paginating forward) and `hasNextPage`
+   * (when paginating backward) are only determined by whether `after` or
+   * `before` is specified, respectively.
+   *
+   * @param options See {@link ModelPaginateOptions}.
+   *
+   * @returns The page of documents along with the page info.
+   *
+   * @throws {ODMError} Both `first` and `last` are specified.
+   * @throws {ODMError} The provided cursor is invalid.
+   *
+   * @example
+   * const { edges, pageInfo } = await Foo.paginate({ sort: { aString: 1 }, first: 10 })
+   * const nextPage = await Foo.paginate({ sort: { aString: 1 }, first: 10, after: pageInfo.endCursor })
+   */
+  paginate: <R extends AnyProps = T>(options?: ModelPaginateOptions<T>) => Promise<Page<R>>
+
+  /**
+   * Finds a page of documents of this collection using offset-based
+   * pagination, along with the total number of matching documents. Both are
+   * fetched in a single aggregation query using `$facet`.
+   *
+   * @param filter Filter used for the `$match` stage of the aggregation
+   *               pipeline.
+   * @param options See {@link ModelFindPageOptions}.
+   *
+   * @returns The documents of the page, the total number of matching documents,
+   *          the page number and the total number of pages.
+   *
+   * @throws {ODMError} `page` or `pageSize` is not a positive integer.
+   *
+   * @see {@link https://www.mongodb.com/docs/manual/reference/operator/aggregation/facet/}
+   */
+  findPage: <R extends AnyProps = T>(filter?: AnyFilter<T>, options?: ModelFindPageOptions<T>) => Promise<OffsetPage<R>>
 
   /**
    * Inserts one document into this model's collection. If `doc` is not
@@ -274,8 +504,10 @@ export interface Model<T extends AnyProps> {
    *
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#insertOne}
    *
-   * @throws {Error} This method is called even though insertions are disabled
-   *                 in the schema.
+   * @throws {OperationDisallowedError} This method is called even though
+   *                                     insertions are disabled in the schema.
+   * @throws {ValidationError} The document fails validation.
+   * @throws {DuplicateKeyError} The document violates a unique index.
    * @throws {MongoError} `Collection#insertOne` failed.
    */
   insertOneStrict: (doc?: DocumentFragment<T>, options?: ModelInsertOneOptions) => Promise<Document<T>>
@@ -309,8 +541,11 @@ export interface Model<T extends AnyProps> {
    *
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#insertMany}
    *
-   * @throws {Error} This method is called even though insertions or multiple
-   *                 insertions are disabled in the schema.
+   * @throws {OperationDisallowedError} This method is called even though
+   *                                     insertions or multiple insertions are
+   *                                     disabled in the schema.
+   * @throws {ValidationError} One of the documents fails validation.
+   * @throws {DuplicateKeyError} One of the documents violates a unique index.
    */
   insertMany: (docs: DocumentFragment<T>[], options?: ModelInsertManyOptions) => Promise<Document<T>[]>
 
@@ -334,8 +569,12 @@ export interface Model<T extends AnyProps> {
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#updateOne}
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#findOneAndUpdate}
    *
-   * @throws {Error} This method is called even though upserts are disabled in
-   *                 the schema.
+   * @throws {OperationDisallowedError} This method is called even though
+   *                                     updates are disabled in the schema.
+   * @throws {UpsertDisallowedError} This method is called even though upserts
+   *                                 are disabled in the schema.
+   * @throws {ValidationError} The update fails validation.
+   * @throws {DuplicateKeyError} The update violates a unique index.
    * @throws {Error} Filter is invalid.
    * @throws {Error} A doc is updated but it cannot be found.
    */
@@ -378,8 +617,13 @@ export interface Model<T extends AnyProps> {
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#updateMany}
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#findOneAndUpdate}
    *
-   * @throws {Error} This method is called even though updates or multiple
-   *                 updates are disabled in the schema.
+   * @throws {OperationDisallowedError} This method is called even though
+   *                                     updates or multiple updates are
+   *                                     disabled in the schema.
+   * @throws {UpsertDisallowedError} This method is called even though upserts
+   *                                 are disabled in the schema.
+   * @throws {ValidationError} The update fails validation.
+   * @throws {DuplicateKeyError} The update violates a unique index.
    * @throws {Error} One of the updated docs are not returned.
    */
   updateMany: (filter: AnyFilter<T>, update: AnyUpdate<T>, options?: ModelUpdateManyOptions) => Promise<boolean | Document<T>[]>
@@ -397,8 +641,8 @@ export interface Model<T extends AnyProps> {
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#deleteOne}
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#findOneAndDelete}
    *
-   * @throws {Error} This method is called even though deletions are disabled in
-   *                 the schema.
+   * @throws {OperationDisallowedError} This method is called even though
+   *                                     deletions are disabled in the schema.
    * @throws {Error} Unable to return the deleted document when `returnDocument`
    *                 is `true`.
    * @throws {Error} Unable to delete document.
@@ -432,8 +676,9 @@ export interface Model<T extends AnyProps> {
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#deleteMany}
    * @see {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html#findOneAndDelete}
    *
-   * @throws {Error} This method is called even though deletions or multiple
-   *                 deletions are disabled in the schema.
+   * @throws {OperationDisallowedError} This method is called even though
+   *                                     deletions or multiple deletions are
+   *                                     disabled in the schema.
    */
   deleteMany: (filter: AnyFilter<T>, options?: ModelDeleteManyOptions) => Promise<boolean | Document<T>[]>
 
@@ -474,34 +719,60 @@ export interface Model<T extends AnyProps> {
   replaceOne: (filter: AnyFilter<T>, replacement?: DocumentFragment<T>, options?: ModelReplaceOneOptions) => Promise<boolean | Document<T> | undefined>
 
   /**
-   * Checks if a document exists.
+   * Checks if a document exists. Only the `_id` of at most one matching
+   * document is fetched.
    *
    * @param filter Filter for document to check.
+   * @param options See {@link ModelExistsOptions}.
    *
    * @returns `true` if document exists, `false` otherwise.
    */
-  exists: (filter: AnyFilter<T>) => Promise<boolean>
+  exists: (filter: AnyFilter<T>, options?: ModelExistsOptions) => Promise<boolean>
 
   /**
-   * Counts the documents that match the provided `filter`.
+   * Counts the documents that match the provided `filter`. With the
+   * `estimated` option, the count is estimated from the collection metadata
+   * instead, in which case no filter can be specified. Within a transaction,
+   * the documents are counted exactly instead.
    *
-   * @param filter Filter for documents to count.
+   * @param filter Filter for documents to count, counts all documents if
+   *               unspecified.
+   * @param options See {@link ModelCountOptions}.
    *
    * @returns The total number of documents found. The minimum is 0.
+   *
+   * @throws {ODMError} Both a filter and the `estimated` option are specified.
    */
-  count: (filter: AnyFilter<T>) => Promise<number>
+  count: (filter?: AnyFilter<T>, options?: ModelCountOptions) => Promise<number>
+
+  /**
+   * Finds the distinct values of a field across the documents that match the
+   * provided `filter`. Elements of array fields are treated as individual
+   * values.
+   *
+   * @param field The field to find the distinct values of.
+   * @param filter Filter for the documents to consider, considers all
+   *               documents if unspecified.
+   * @param options See {@link ModelDistinctOptions}.
+   *
+   * @returns The distinct values.
+   *
+   * @example
+   * const tags = await Foo.distinct('tags', { published: true })
+   */
+  distinct: <K extends keyof Document<T> & string>(field: K, filter?: AnyFilter<T>, options?: ModelDistinctOptions) => Promise<DistinctValue<Document<T>[K]>[]>
 
   /**
    * Returns a document whose values are formatted according to the format
-   * functions defined in the schema. If the field is marked as encrypted in the
-   * schema, this process takes care of that too.
+   * functions defined in the schema. If the field is marked as hashed in the
+   * schema, this process takes care of that too. Nested fields (including
+   * subfields of embedded docs in arrays) are formatted recursively, where
+   * keys of the document can also be in dot notation, i.e. `anObject.foo` or
+   * `lineItems.$.qty`. Fields not defined in the schema are left as is.
    *
    * @param doc Document to format.
    *
    * @returns The formatted document as the fulfillment value.
-   *
-   * @throws {Error} A field in the document to format is not defined in the
-   *                 schema.
    */
   formatDocument: (doc: DocumentFragment<T>) => Promise<DocumentFragment<T>>
 
@@ -517,19 +788,62 @@ export interface Model<T extends AnyProps> {
    * @param doc The doc to validate.
    * @param options See {@link ModelValidateDocumentOptions}.
    *
+   * Failures are reported as a {@link ValidationError}, whose entries carry
+   * the path of each invalid field. By default validation stops at the first
+   * failure, specify `mode: 'all'` to collect all failures instead.
+   *
    * @throws {Error} Document is not an object.
    * @throws {Error} Document is empty.
-   * @throws {Error} One of the fields in the document is not defined in the
-   *                 schema.
-   * @throws {Error} One of the fields in the document does not pass the
-   *                 validation test.
-   * @throws {Error} One of the fields has a duplicated value as another
-   *                 document in the collection (only if unique indexes are
-   *                 defined in the schema).
-   * @throws {Error} Some required fields in the document are missing.
+   * @throws {ValidationError} One of the fields in the document is not
+   *                           defined in the schema.
+   * @throws {ValidationError} One of the fields in the document does not pass
+   *                           the validation test.
+   * @throws {ValidationError} One of the fields has a duplicated value as
+   *                           another document in the collection (only if
+   *                           unique indexes are defined in the schema).
+   * @throws {ValidationError} Some required fields in the document are
+   *                           missing.
    */
   validateDocument: (doc: DocumentFragment<T>, options: ModelValidateDocumentOptions) => Promise<void>
 
+  /**
+   * Returns a document of this collection whose values of encrypted fields
+   * (see `FieldDescriptor.encryption`) are decrypted, including nested fields
+   * and array elements. Populated reference fields and loaded relations are
+   * decrypted by the models they belong to. Values that are not encrypted are
+   * left as is. Documents found by this model, its queries and its pipelines
+   * are decrypted automatically.
+   *
+   * @param doc The document to decrypt.
+   * @param options See {@link ModelDecryptDocumentOptions}.
+   *
+   * @returns The decrypted document as the fulfillment value.
+   *
+   * @throws {EncryptionError} The document has encrypted values but the model
+   *                           has no encryption key provider, or a value cannot
+   *                           be decrypted.
+   */
+  decryptDocument: <D>(doc: D, options?: ModelDecryptDocumentOptions) => Promise<D>
+
+  /**
+   * Re-encrypts the values of encrypted fields (see `FieldDescriptor.encryption`)
+   * in all documents of this collection that are not encrypted with the
+   * current key of the {@link encryptionKeyProvider}, i.e. after a new key is
+   * introduced. The documents are updated in batches directly in the
+   * collection, bypassing event hooks and validation. Documents whose
+   * encrypted fields are updated concurrently, after they are read and before
+   * they are re-encrypted, are left untouched. Keys of previously encrypted
+   * values must still be provided by the key provider.
+   *
+   * @param options See {@link ModelRotateEncryptionKeysOptions}.
+   *
+   * @returns The number of re-encrypted documents as the fulfillment value.
+   *
+   * @throws {EncryptionError} The model has no encryption key provider or a
+   *                           key is missing or invalid.
+   */
+  rotateEncryptionKeys: (options?: ModelRotateEncryptionKeysOptions) => Promise<number>
+
   /**
    * This is meant to be used as a static class so instantiation is strictly
    * prohibited.
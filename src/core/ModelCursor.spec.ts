@@ -0,0 +1,50 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { type AggregationCursor } from 'mongodb'
+import { ModelCursor } from './ModelCursor.js'
+
+function createCursor(docs: { aNumber: number }[]) {
+  const remaining = [...docs]
+  let closed = false
+
+  const cursor = {
+    get closed() {
+      return closed
+    },
+    hasNext: async () => remaining.length > 0,
+    next: async () => remaining.shift() ?? null,
+    close: async () => {
+      closed = true
+    },
+  } as unknown as AggregationCursor<{ aNumber: number }>
+
+  return new ModelCursor(cursor, async doc => ({ aNumber: doc.aNumber * 10 }))
+}
+
+describe('core/ModelCursor', () => {
+  it('resolves transformed documents', async () => {
+    const cursor = createCursor([{ aNumber: 1 }, { aNumber: 2 }])
+
+    assert.deepStrictEqual(await cursor.next(), { aNumber: 10 })
+    assert.deepStrictEqual(await cursor.toArray(), [{ aNumber: 20 }])
+    assert(await cursor.next() === null)
+    assert(cursor.closed)
+  })
+
+  it('can chain transforms with `map`', async () => {
+    const cursor = createCursor([{ aNumber: 1 }, { aNumber: 2 }]).map(t => t.aNumber + 1).map(async t => `${t}`)
+
+    assert(await cursor.next() === '11')
+    assert.deepStrictEqual(await cursor.toArray(), ['21'])
+  })
+
+  it('can stream transformed documents', async () => {
+    const docs = []
+
+    for await (const doc of createCursor([{ aNumber: 1 }, { aNumber: 2 }]).stream({ transform: t => t.aNumber })) {
+      docs.push(doc)
+    }
+
+    assert.deepStrictEqual(docs, [10, 20])
+  })
+})
@@ -0,0 +1,144 @@
+import { Readable } from 'stream'
+import { type AggregationCursor, type Document as DriverDocument, type ExplainVerbosityLike } from 'mongodb'
+
+/**
+ * A cursor over the documents of a collection whose documents are transformed
+ * asynchronously (i.e. decrypted by the model of the collection) before they
+ * are returned. Unlike `AggregationCursor#map`, which does not await its
+ * transforms in every path, every method of this cursor resolves to
+ * transformed documents, including those of mapped cursors and streams.
+ *
+ * @example
+ * const cursor = await Foo.query().where({ aNumber: { $gt: 10 } }).cursor()
+ *
+ * for await (const doc of cursor.map(t => t.aString)) {
+ *   console.log(doc)
+ * }
+ */
+export class ModelCursor<T> implements AsyncIterable<T> {
+  /**
+   * The underlying cursor of the MongoDB driver.
+   */
+  private readonly cursor: AggregationCursor<any>
+
+  /**
+   * The transform applied to every document of the underlying cursor.
+   */
+  private readonly transform: (doc: any) => Promise<T>
+
+  /**
+   * Creates a new {@link ModelCursor} instance.
+   *
+   * @param cursor The underlying cursor of the MongoDB driver.
+   * @param transform The transform applied to every document of the
+   *                  underlying cursor.
+   */
+  constructor(cursor: AggregationCursor<any>, transform: (doc: any) => Promise<T>) {
+    this.cursor = cursor
+    this.transform = transform
+  }
+
+  /**
+   * Indicates whether the underlying cursor is closed.
+   */
+  get closed(): boolean {
+    return this.cursor.closed
+  }
+
+  /**
+   * Checks if the cursor has another document.
+   *
+   * @returns `true` if there is another document, `false` otherwise.
+   */
+  async hasNext(): Promise<boolean> {
+    return this.cursor.hasNext()
+  }
+
+  /**
+   * Gets the next transformed document of the cursor.
+   *
+   * @returns The next document or `null` if the cursor is exhausted.
+   */
+  async next(): Promise<T | null> {
+    const doc = await this.cursor.next()
+    if (doc === null) return null
+
+    return this.transform(doc)
+  }
+
+  /**
+   * Gets all remaining transformed documents of the cursor.
+   *
+   * @returns The documents.
+   */
+  async toArray(): Promise<T[]> {
+    const docs: T[] = []
+
+    for await (const doc of this) {
+      docs.push(doc)
+    }
+
+    return docs
+  }
+
+  /**
+   * Creates a cursor over the same documents, applying the provided transform
+   * after the transform of this cursor. The transform may be asynchronous.
+   * Like `AggregationCursor#map`, the documents are consumed from the same
+   * underlying cursor, so this cursor should not be iterated anymore.
+   *
+   * @param transform The transform to apply.
+   *
+   * @returns The mapped cursor.
+   */
+  map<U>(transform: (doc: T) => U | Promise<U>): ModelCursor<U> {
+    return new ModelCursor<U>(this.cursor, async doc => transform(await this.transform(doc)))
+  }
+
+  /**
+   * Creates a readable stream of the transformed documents.
+   *
+   * @param options Options of the stream, i.e. an additional `transform`.
+   *
+   * @returns The stream.
+   */
+  stream({ transform }: { transform?: (doc: T) => unknown } = {}): Readable {
+    return Readable.from(transform ? this.map(transform) : this)
+  }
+
+  /**
+   * Explains the execution of the cursor.
+   *
+   * @param verbosity The verbosity of the explain output.
+   *
+   * @returns The explain output of the database.
+   */
+  async explain(verbosity?: ExplainVerbosityLike): Promise<DriverDocument> {
+    return this.cursor.explain(verbosity)
+  }
+
+  /**
+   * Closes the underlying cursor.
+   */
+  async close(): Promise<void> {
+    await this.cursor.close()
+  }
+
+  /**
+   * Iterates the transformed documents of the cursor, closing the underlying
+   * cursor once exhausted or when the iteration is stopped.
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    try {
+      while (true) {
+        const doc = await this.next()
+        if (doc === null) return
+
+        yield doc
+      }
+    }
+    finally {
+      await this.close()
+    }
+  }
+}
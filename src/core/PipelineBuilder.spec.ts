@@ -0,0 +1,129 @@
+import assert from 'assert'
+import Chance from 'chance'
+import { describe, it } from 'mocha'
+import { type ObjectId } from 'mongodb'
+import { Bar, Foo, type BarProps } from '../__mocks__/models.js'
+import { configureDb } from '../index.js'
+import { type Document } from '../types/index.js'
+import { PipelineBuilder } from './PipelineBuilder.js'
+import { addFieldsStageFactory, lookupStageFactory, unwindStageFactory } from './aggregation/index.js'
+
+const chance = new Chance()
+
+describe('core/PipelineBuilder', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo, Bar },
+    })
+  })
+
+  it('can build a pipeline', () => {
+    const builder = Foo.aggregate()
+      .match({ aNumber: { $gt: 10 } })
+      .lookup('aBar', Bar)
+      .group({ _id: '$aString', total: { $sum: '$aNumber' }, bars: { $push: '$aBar' } })
+      .sort({ total: -1 })
+      .limit(5)
+
+    assert.deepStrictEqual(builder.pipeline, [
+      { $match: { aNumber: { $gt: 10 } } },
+      ...lookupStageFactory(Foo.schema, { aBar: true }),
+      { $group: { _id: '$aString', total: { $sum: '$aNumber' }, bars: { $push: '$aBar' } } },
+      { $sort: { total: -1 } },
+      { $limit: 5 },
+    ])
+  })
+
+  it('builds $unwind and $addFields stages with the stage factories', () => {
+    const builder = Bar.aggregate()
+      .unwind('someObjects')
+      .addFields({ aTotal: { $add: ['$aNumber', 1] } })
+
+    assert.deepStrictEqual(builder.pipeline, [
+      ...unwindStageFactory(Bar.schema, 'someObjects'),
+      ...addFieldsStageFactory(Bar.schema, { aTotal: { $add: ['$aNumber', 1] } }),
+    ])
+
+    assert.throws(() => Bar.aggregate().addFields({ aTotal: '$notAField' }))
+  })
+
+  it('does not validate stages against the schema after the shape of the documents changes', () => {
+    const builder = Foo.aggregate()
+      .group({ _id: '$aString', total: { $sum: '$aNumber' }, numbers: { $push: '$aNumber' } })
+      .addFields({ avg: '$total' })
+      .unwind('numbers')
+      .match({ avg: { $gt: 1 }, _id: 'foo' })
+
+    assert(builder.derived)
+    assert.deepStrictEqual(builder.pipeline.slice(1), [
+      { $addFields: { avg: '$total' } },
+      { $unwind: { path: '$numbers' } },
+      { $match: { avg: { $gt: 1 }, _id: 'foo' } },
+    ])
+
+    assert(!Foo.aggregate().match({ aNumber: 1 }).unwind('someBars').derived)
+  })
+
+  it('is immutable', () => {
+    const builder = Foo.aggregate()
+
+    assert(builder instanceof PipelineBuilder)
+    assert(builder.limit(1) !== builder)
+    assert(builder.pipeline.length === 0)
+  })
+
+  it('throws when looking up a field with a model it does not reference', () => {
+    assert.throws(() => Foo.aggregate().lookup('aFoo', Bar))
+  })
+
+  it('can run a pipeline with evolving output types', async () => {
+    const s = chance.string({ length: 10 })
+    const bar = await Bar.insertOneStrict({ aString: s })
+
+    await Foo.insertMany([
+      { aString: chance.string({ length: 10 }), aNumber: 1, aBar: bar._id },
+      { aString: chance.string({ length: 10 }), aNumber: 2, aBar: bar._id },
+    ])
+
+    const results = await Foo.aggregate()
+      .match({ aBar: bar._id })
+      .lookup('aBar', Bar)
+      .group({ _id: '$aBar', total: { $sum: '$aNumber' }, strings: { $push: '$aString' } })
+      .project({ total: 1, strings: 1, first: { $arrayElemAt: ['$strings', 0] } })
+      .toArray()
+
+    const [group] = results
+    const doc: Document<BarProps> = group._id
+    const id: ObjectId = group._id._id
+    const total: number = group.total
+    const strings: string[] = group.strings
+
+    assert(doc.aString === s)
+    assert(id.equals(bar._id))
+    assert(total === 3)
+    assert(strings.length === 2)
+    assert(group.first === strings[0])
+  })
+
+  it('decrypts output documents, including looked up documents', async () => {
+    const s = chance.string({ length: 10 })
+    const bar = await Bar.insertOneStrict({ aString: s, aSecretString: 'foo' })
+    await Foo.insertOneStrict({ aString: s, aBar: bar._id })
+
+    const [doc] = await Bar.aggregate().match({ aString: s }).toArray()
+    assert(doc.aSecretString === 'foo')
+
+    const cursor = await Bar.aggregate().match({ aString: s }).cursor()
+    assert((await cursor.next())?.aSecretString === 'foo')
+    await cursor.close()
+
+    const mapped = (await Bar.aggregate().match({ aString: s }).cursor()).map(t => t.aSecretString)
+    assert(await mapped.next() === 'foo')
+    await mapped.close()
+
+    const [foo] = await Foo.aggregate().match({ aString: s }).lookup('aBar', Bar).toArray()
+    assert(foo.aBar.aSecretString === 'foo')
+  })
+})
@@ -0,0 +1,296 @@
+import { type AggregateOptions, type Filter, type SortDirection } from 'mongodb'
+import * as db from '../index.js'
+import { type AnyDocument, type AnyProps, type Document } from '../types/index.js'
+import { fieldPath, type SanitizeFilterOptions } from '../utils/index.js'
+import { ModelCursor } from './ModelCursor.js'
+import { type Schema } from './Schema.js'
+import * as Aggregation from './aggregation/index.js'
+import * as CRUD from './crud/index.js'
+
+/**
+ * Type of the value of an aggregation expression evaluated against a document
+ * of type `D`. Field paths (i.e. `"$aString"`) resolve to the type of the
+ * field, objects of expressions resolve to objects of their values and
+ * literals resolve to themselves. Expression operators resolve to `unknown`.
+ */
+export type ExpressionType<D, E> = E extends `$$${string}` ? unknown : E extends `$${infer F}` ? F extends keyof D ? D[F] : unknown : E extends string | number | boolean | null ? E : E extends readonly unknown[] ? unknown[] : E extends AnyProps ? keyof E extends `$${string}` ? unknown : { -readonly [K in keyof E]: ExpressionType<D, E[K]> } : unknown
+
+/**
+ * Type of the value of a `$group` accumulator expression evaluated against
+ * documents of type `D`.
+ */
+export type AccumulatorType<D, A> = A extends { $sum: any } | { $count: any } ? number : A extends { $avg: any } | { $stdDevPop: any } | { $stdDevSamp: any } ? number | null : A extends { $min: infer E } | { $max: infer E } | { $first: infer E } | { $last: infer E } ? ExpressionType<D, E> : A extends { $push: infer E } | { $addToSet: infer E } ? ExpressionType<D, E>[] : unknown
+
+/**
+ * Specs of a `$group` stage, consisting of the `_id` expression to group by
+ * and the accumulators.
+ */
+export type PipelineBuilderGroupSpecs = { _id: any } & AnyProps
+
+/**
+ * Specs of a `$project` stage on documents of type `D`, where each key is
+ * either included (`1` or `true`), excluded (`0` or `false`) or computed from
+ * an expression.
+ */
+export type PipelineBuilderProjectSpecs<D> = { [K in keyof D]?: 0 | 1 | boolean } & AnyProps
+
+type Flatten<T> = { [K in keyof T]: T[K] }
+
+type GroupResult<D, G> = Flatten<{ _id: ExpressionType<D, G extends { _id: infer I } ? I : never> } & { -readonly [K in Exclude<keyof G, '_id'>]: AccumulatorType<D, G[K]> }>
+
+type ExcludedKeys<S> = { [K in keyof S]-?: S[K] extends 0 | false ? K : never }[keyof S]
+
+type ProjectedKeys<S> = Exclude<keyof S, ExcludedKeys<S>>
+
+type ProjectResult<D, S> = [ProjectedKeys<S>] extends [never] ? Omit<D, ExcludedKeys<S>> : Flatten<{ -readonly [K in ProjectedKeys<S>]: S[K] extends 1 | true ? K extends keyof D ? D[K] : never : ExpressionType<D, S[K]> } & (S extends { _id: 0 | false } ? unknown : '_id' extends keyof D ? { _id: D['_id'] } : unknown)>
+
+type LookupResult<D, K, R extends AnyProps> = { [F in keyof D]: F extends K ? D[F] extends readonly unknown[] ? Document<R>[] : D[F] extends undefined | null ? D[F] : Document<R> : D[F] }
+
+type UnwindResult<D, K> = { [F in keyof D]-?: F extends K ? NonNullable<D[F]> extends readonly (infer E)[] ? E : D[F] : D[F] }
+
+type AddFieldsResult<D, S> = Flatten<Omit<D, keyof S> & { -readonly [K in keyof S]: ExpressionType<D, S[K]> }>
+
+/**
+ * A type-safe, immutable builder of aggregation pipelines for the documents of
+ * a collection, where each stage transforms the type of the output documents.
+ * For example, looking up a reference field replaces its `ObjectId` with the
+ * referenced document, and a `$group` stage yields the shape of its
+ * accumulators. Stages are generated with the stage factories in
+ * {@link Aggregation}. Once a stage changes the shape of the documents (i.e.
+ * `$lookup`, `$group`, `$project`, `$addFields` or `$count`), later stages are
+ * no longer validated against the schema. Values of encrypted fields in the
+ * output documents (including looked up documents) are decrypted by the model
+ * of the collection, see `Model.decryptDocument`.
+ *
+ * @example
+ * const results = await Foo.aggregate()
+ *   .match({ aNumber: { $gt: 10 } })
+ *   .lookup('aBar', Bar)
+ *   .group({ _id: '$aString', total: { $sum: '$aNumber' }, bars: { $push: '$aBar' } })
+ *   .sort({ total: -1 })
+ *   .toArray()
+ *
+ * // Typed as { _id: string; total: number; bars: Document<BarProps>[] }[]
+ */
+export class PipelineBuilder<P extends AnyProps = AnyProps, D extends AnyDocument = Document<P>> {
+  /**
+   * The schema of the collection to aggregate.
+   */
+  readonly schema: Schema<P>
+
+  /**
+   * The stages of the pipeline built so far.
+   */
+  readonly pipeline: Readonly<Aggregation.Pipeline>
+
+  /**
+   * Indicates whether a stage of the pipeline changes the shape of the
+   * documents of the collection, after which the documents no longer conform
+   * to the schema.
+   */
+  readonly derived: boolean
+
+  /**
+   * Creates a new {@link PipelineBuilder} instance.
+   *
+   * @param schema The schema of the collection to aggregate.
+   * @param pipeline The initial stages of the pipeline.
+   * @param derived Indicates whether the initial stages change the shape of
+   *                the documents of the collection.
+   */
+  constructor(schema: Schema<P>, pipeline: Aggregation.Pipeline = [], derived = false) {
+    this.schema = schema
+    this.pipeline = pipeline
+    this.derived = derived
+  }
+
+  /**
+   * Appends a `$match` stage. The filter is sanitized according to the schema,
+   * so matching fields added by previous stages requires `strict` to be
+   * `false`, unless a previous stage changes the shape of the documents, in
+   * which case the filter is applied as is.
+   *
+   * @param filter The filter.
+   * @param options See {@link SanitizeFilterOptions}.
+   *
+   * @returns The new builder.
+   *
+   * @throws {ValidationError} The filter has fields that are not specified in
+   *                           the schema, unless `strict` is `false`.
+   */
+  match<F extends Filter<D>>(filter: F, { strict }: SanitizeFilterOptions = {}): PipelineBuilder<P, D> {
+    if (this.derived) return this.append<D>([{ $match: filter }])
+
+    return this.append<D>(Aggregation.matchStageFactory(this.schema, filter as Filter<Document<P>>, { strict }))
+  }
+
+  /**
+   * Appends the stages to look up a reference field, replacing its `ObjectId`
+   * with the referenced document (or an array of referenced documents if the
+   * field is an array). Specify the referenced model to type the looked up
+   * documents accordingly.
+   *
+   * @param field The reference field.
+   * @param model The referenced model.
+   *
+   * @returns The new builder.
+   *
+   * @throws {Error} The field is not a reference field or the model is not the
+   *                 referenced model.
+   */
+  lookup<K extends keyof D & keyof P & string, R extends AnyProps = AnyProps>(field: K, model?: { schema: Schema<R> }): PipelineBuilder<P, LookupResult<D, K, R>> {
+    const ref = this.schema.fields[field]?.ref
+
+    if (model && model.schema.model !== ref) throw new Error(`Failed to look up the field "${field}": the field does not reference the model "${model.schema.model}"`)
+
+    return this.append<LookupResult<D, K, R>>(Aggregation.lookupStageFactory(this.schema, { [field]: true }), true) // Throws
+  }
+
+  /**
+   * Appends an `$unwind` stage, replacing the array field with each of its
+   * elements.
+   *
+   * @param field The array field.
+   *
+   * @returns The new builder.
+   *
+   * @throws {Error} The field does not exist in the schema, unless a previous
+   *                 stage changes the shape of the documents.
+   */
+  unwind<K extends keyof D & string>(field: K): PipelineBuilder<P, UnwindResult<D, K>> {
+    if (this.derived) return this.append<UnwindResult<D, K>>([{ $unwind: { path: fieldPath(field) } }])
+
+    return this.append<UnwindResult<D, K>>(Aggregation.unwindStageFactory(this.schema, field)) // Throws
+  }
+
+  /**
+   * Appends a `$group` stage, yielding documents of the shape of its `_id`
+   * and accumulators.
+   *
+   * @param specs The specs of the `$group` stage.
+   *
+   * @returns The new builder.
+   */
+  group<const G extends PipelineBuilderGroupSpecs>(specs: G): PipelineBuilder<P, GroupResult<D, G>> {
+    return this.append<GroupResult<D, G>>(Aggregation.groupStageFactory(this.schema, specs), true)
+  }
+
+  /**
+   * Appends a `$project` stage, yielding documents of the projected shape.
+   *
+   * @param specs The specs of the `$project` stage.
+   *
+   * @returns The new builder.
+   */
+  project<const S extends PipelineBuilderProjectSpecs<D>>(specs: S): PipelineBuilder<P, ProjectResult<D, S>> {
+    return this.append<ProjectResult<D, S>>(Aggregation.projectStageFactory(this.schema, specs), true)
+  }
+
+  /**
+   * Appends an `$addFields` stage, yielding documents with the added fields.
+   *
+   * @param specs The fields to add and the expressions of their values.
+   *
+   * @returns The new builder.
+   *
+   * @throws {Error} The expressions reference fields that do not exist in the
+   *                 schema, unless a previous stage changes the shape of the
+   *                 documents.
+   */
+  addFields<const S extends AnyProps>(specs: S): PipelineBuilder<P, AddFieldsResult<D, S>> {
+    if (this.derived) return this.append<AddFieldsResult<D, S>>([{ $addFields: specs }], true)
+
+    return this.append<AddFieldsResult<D, S>>(Aggregation.addFieldsStageFactory(this.schema, specs), true) // Throws
+  }
+
+  /**
+   * Appends a `$sort` stage.
+   *
+   * @param specs The sort order.
+   *
+   * @returns The new builder.
+   */
+  sort(specs: { [K in keyof D]?: SortDirection }): PipelineBuilder<P, D> {
+    return this.append<D>(Aggregation.sortStageFactory(this.schema, specs as Aggregation.SortStageFactorySpecs<P>))
+  }
+
+  /**
+   * Appends a `$skip` stage.
+   *
+   * @param count The number of documents to skip.
+   *
+   * @returns The new builder.
+   */
+  skip(count: number): PipelineBuilder<P, D> {
+    return this.append<D>(Aggregation.skipStageFactory(this.schema, count))
+  }
+
+  /**
+   * Appends a `$limit` stage.
+   *
+   * @param count The maximum number of documents.
+   *
+   * @returns The new builder.
+   */
+  limit(count: number): PipelineBuilder<P, D> {
+    return this.append<D>(Aggregation.limitStageFactory(this.schema, count))
+  }
+
+  /**
+   * Appends a `$count` stage, yielding a single document holding the number
+   * of documents in the provided field.
+   *
+   * @param field The name of the field holding the count.
+   *
+   * @returns The new builder.
+   */
+  count<const F extends string>(field: F): PipelineBuilder<P, Record<F, number>> {
+    return this.append<Record<F, number>>(Aggregation.countStageFactory(this.schema, field), true)
+  }
+
+  /**
+   * Runs the pipeline and returns all output documents.
+   *
+   * @param options Options passed to MongoDB driver's `Collection#aggregate`.
+   *
+   * @returns The output documents.
+   */
+  async toArray(options: AggregateOptions = {}): Promise<D[]> {
+    const docs = await CRUD.findMany<P, any>(this.schema, [...this.pipeline], options)
+    const ModelClass = db.getModel(this.schema.model)
+    const decryptedDocs = []
+
+    for (const doc of docs) {
+      decryptedDocs.push(await ModelClass.decryptDocument(doc))
+    }
+
+    return decryptedDocs
+  }
+
+  /**
+   * Runs the pipeline and returns a cursor over the output documents.
+   *
+   * @param options Options passed to MongoDB driver's `Collection#aggregate`.
+   *
+   * @returns The cursor.
+   */
+  async cursor(options: AggregateOptions = {}): Promise<ModelCursor<D>> {
+    const cursor = await CRUD.findManyCursor<P, any>(this.schema, [...this.pipeline], options)
+    const ModelClass = db.getModel(this.schema.model)
+
+    return new ModelCursor<D>(cursor, async doc => ModelClass.decryptDocument(doc))
+  }
+
+  /**
+   * Creates a new builder with the provided stages appended to the pipeline.
+   *
+   * @param stages The stages to append.
+   * @param derived Indicates whether the stages change the shape of the
+   *                documents.
+   *
+   * @returns The new builder.
+   */
+  private append<T extends AnyDocument>(stages: Aggregation.Pipeline, derived = false): PipelineBuilder<P, T> {
+    return new PipelineBuilder<P, T>(this.schema, [...this.pipeline, ...stages], this.derived || derived)
+  }
+}
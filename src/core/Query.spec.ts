@@ -0,0 +1,132 @@
+import assert from 'assert'
+import Chance from 'chance'
+import { describe, it } from 'mocha'
+import { ObjectId } from 'mongodb'
+import { Bar, Foo } from '../__mocks__/models.js'
+import { ValidationError } from '../errors/index.js'
+import { configureDb } from '../index.js'
+import { Query } from './Query.js'
+import { populateStageFactory, projectStageFactory } from './aggregation/index.js'
+
+const chance = new Chance()
+
+describe('core/Query', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo, Bar },
+    })
+  })
+
+  it('can compile to an aggregation pipeline', () => {
+    const id = new ObjectId()
+    const query = Foo.query().where(id).sort({ aNumber: -1 }).skip(5).limit(10).populate({ aBar: true }).select({ aBar: 1 })
+
+    assert.deepStrictEqual(query.toPipeline(), [
+      { $match: { _id: id } },
+      { $sort: { aNumber: -1 } },
+      { $skip: 5 },
+      { $limit: 10 },
+      ...populateStageFactory(Foo.schema, { aBar: true }),
+      { $project: { aBar: 1 } },
+    ])
+  })
+
+  it('projects documents according to the schema unless lean', () => {
+    assert.deepStrictEqual(Foo.query().toPipeline(), projectStageFactory(Foo.schema))
+    assert.deepStrictEqual(Foo.query().lean().toPipeline(), [])
+  })
+
+  it('combines multiple filters', () => {
+    const id = new ObjectId()
+
+    assert.deepStrictEqual(Foo.query().where(id).where({ aNumber: 1 }).lean().toPipeline(), [
+      { $match: { $and: [{ _id: id }, { aNumber: 1 }] } },
+    ])
+  })
+
+  it('rejects filters with fields that are not specified in the schema unless not strict', () => {
+    assert.throws(() => Foo.query().where({ notAField: 1 } as any), ValidationError)
+    assert.deepStrictEqual(Foo.query().where({ notAField: 1 } as any, { strict: false }).lean().toPipeline(), [
+      { $match: { notAField: 1 } },
+    ])
+  })
+
+  it('is immutable', () => {
+    const query = Foo.query().limit(1)
+
+    assert(query instanceof Query)
+    assert(query.limit(2) !== query)
+    assert(query.state.limit === 1)
+  })
+
+  it('can find documents', async () => {
+    const s = chance.string({ length: 10 })
+
+    await Bar.insertMany([{ aString: s, aNumber: 1 }, { aString: s, aNumber: 2 }, { aString: s, aNumber: 3 }])
+
+    const query = Bar.query().where({ aString: s })
+    const docs = await query.sort({ aNumber: -1 }).limit(2).select({ aNumber: 1 }).many()
+
+    assert.deepStrictEqual(docs.map(doc => doc.aNumber), [3, 2])
+    assert((await query.one())?.aString === s)
+    assert(await query.count() === 3)
+    assert(await query.exists() === true)
+    assert(await Bar.query().where({ aString: chance.string({ length: 11 }) }).exists() === false)
+  })
+
+  it('can iterate documents with a cursor', async () => {
+    const s = chance.string({ length: 10 })
+
+    await Bar.insertMany([{ aString: s }, { aString: s }])
+
+    const cursor = await Bar.query().where({ aString: s }).cursor()
+    const docs = await cursor.toArray()
+
+    assert(docs.length === 2)
+  })
+
+  it('decrypts found documents, including populated and related documents', async () => {
+    const s = chance.string({ length: 10 })
+    const bar = await Bar.insertOneStrict({ aString: s, aSecretString: 'foo' })
+    await Bar.insertOneStrict({ aString: chance.string({ length: 10 }), aBar: bar._id, aSecretString: 'bar' })
+    const foo = await Foo.insertOneStrict({ aString: chance.string({ length: 10 }), aBar: bar._id })
+
+    assert((await Bar.query().where({ aString: s }).many())[0].aSecretString === 'foo')
+    assert((await Bar.query().where({ aString: s }).lean().one())?.aSecretString === 'foo')
+
+    const cursor = await Bar.query().where({ aString: s }).cursor()
+    assert((await cursor.next())?.aSecretString === 'foo')
+    await cursor.close()
+
+    const mapped = (await Bar.query().where({ aString: s }).cursor()).map(t => t.aSecretString)
+    assert.deepStrictEqual(await mapped.toArray(), ['foo'])
+
+    const populated = await Foo.query().where(foo._id).populate({ aBar: true }).one()
+    assert(populated?.aBar.aSecretString === 'foo')
+
+    const related = await Bar.query().where(bar._id).relations({ bars: { model: Bar, field: 'aBar' } }).one()
+    assert(related?.bars[0].aSecretString === 'bar')
+  })
+
+  it('can explain a query', async () => {
+    const explanation = await Bar.query().where({ aString: chance.string({ length: 10 }) }).explain()
+
+    assert(explanation)
+  })
+
+  it('closes the cursor after explaining a query', async () => {
+    let closed = 0
+    const cursor = {
+      explain: async () => Promise.reject(new Error()),
+      close: async () => {
+        closed++
+      },
+    }
+    const query = Object.assign(Bar.query(), { cursor: async () => cursor })
+
+    await assert.rejects(query.explain())
+    assert(closed === 1)
+  })
+})
@@ -0,0 +1,284 @@
+import { type Document as DriverDocument, type Filter } from 'mongodb'
+import * as db from '../index.js'
+import { type AnyFilter, type AnyProps, type Document } from '../types/index.js'
+import { mapDriverError, sanitizeFilter, type SanitizeFilterOptions } from '../utils/index.js'
+import { type ModelFindResult } from './Model.js'
+import { ModelCursor } from './ModelCursor.js'
+import { type Schema } from './Schema.js'
+import * as Aggregation from './aggregation/index.js'
+import * as CRUD from './crud/index.js'
+
+/**
+ * State of a {@link Query}, accumulated by its chainable methods.
+ */
+export type QueryState<P extends AnyProps = AnyProps> = {
+  filter?: Filter<Document<P>>
+  sort?: Aggregation.SortStageFactorySpecs<P>
+  skip?: number
+  limit?: number
+  select?: Aggregation.FieldSelection<P>
+  populate?: Aggregation.PopulateStageFactorySpecs<P>
+  relations?: Aggregation.RelationStageFactorySpecs
+  lean?: boolean
+}
+
+/**
+ * A chainable, immutable query of the documents of a collection. Every
+ * chainable method returns a new query, leaving the original query untouched,
+ * so that queries can be safely reused and extended. The query compiles to an
+ * aggregation pipeline built from the stage factories in {@link Aggregation},
+ * in the order of `$match`, `$sort`, `$skip`, `$limit`, population stages,
+ * `$project` and relation stages, which is run by one of the terminal methods.
+ *
+ * Unless the query is lean, the found documents are projected according to
+ * the schema, dropping fields not defined in the schema. Values of encrypted
+ * fields are decrypted by the model of the collection, see
+ * `Model.decryptDocument`.
+ *
+ * @example
+ * const docs = await Foo.query()
+ *   .where({ aNumber: { $gt: 10 } })
+ *   .sort({ aNumber: -1 })
+ *   .limit(10)
+ *   .select({ aString: 1, aBar: 1 })
+ *   .populate({ aBar: true })
+ *   .many()
+ */
+export class Query<P extends AnyProps = AnyProps, R extends AnyProps = P, S = Record<never, never>, F = Record<never, never>, L = Record<never, never>> {
+  /**
+   * The schema of the collection to query.
+   */
+  readonly schema: Schema<P>
+
+  /**
+   * The accumulated state of the query.
+   */
+  readonly state: Readonly<QueryState<P>>
+
+  /**
+   * Creates a new {@link Query} instance.
+   *
+   * @param schema The schema of the collection to query.
+   * @param state The initial state of the query.
+   */
+  constructor(schema: Schema<P>, state: QueryState<P> = {}) {
+    this.schema = schema
+    this.state = state
+  }
+
+  /**
+   * Narrows the query to documents matching the provided filter. The filter is
+   * sanitized according to the schema and combined with filters of previous
+   * invocations using `$and`.
+   *
+   * @param filter The filter.
+   * @param options See {@link SanitizeFilterOptions}.
+   *
+   * @returns The new query.
+   *
+   * @throws {ValidationError} The filter has fields that are not specified in
+   *                           the schema, unless `strict` is `false`.
+   */
+  where(filter: AnyFilter<P>, options: SanitizeFilterOptions = {}): Query<P, R, S, F, L> {
+    const sanitized = sanitizeFilter(this.schema, filter, options)
+
+    return this.extend({ filter: this.state.filter === undefined ? sanitized : { $and: [this.state.filter, sanitized] } as Filter<Document<P>> })
+  }
+
+  /**
+   * Sorts the found documents, replacing the sort order of previous
+   * invocations.
+   *
+   * @param specs The sort order.
+   *
+   * @returns The new query.
+   */
+  sort(specs: Aggregation.SortStageFactorySpecs<P>): Query<P, R, S, F, L> {
+    return this.extend({ sort: specs })
+  }
+
+  /**
+   * Skips the provided number of documents.
+   *
+   * @param count The number of documents to skip.
+   *
+   * @returns The new query.
+   */
+  skip(count: number): Query<P, R, S, F, L> {
+    return this.extend({ skip: count })
+  }
+
+  /**
+   * Limits the number of found documents.
+   *
+   * @param count The maximum number of documents.
+   *
+   * @returns The new query.
+   */
+  limit(count: number): Query<P, R, S, F, L> {
+    return this.extend({ limit: count })
+  }
+
+  /**
+   * Includes or excludes fields of the found documents, see
+   * {@link Aggregation.FieldSelection}. The type of the found documents is
+   * narrowed to the selected fields.
+   *
+   * @param fields The field selection.
+   *
+   * @returns The new query.
+   */
+  select<const G extends Aggregation.FieldSelection<P>>(fields: G): Query<P, R, S, G, L> {
+    return new Query<P, R, S, G, L>(this.schema, { ...this.state, select: fields })
+  }
+
+  /**
+   * Populates reference fields of the found documents, see
+   * {@link Aggregation.PopulateStageFactorySpecs}.
+   *
+   * @param specs The fields to populate.
+   *
+   * @returns The new query.
+   */
+  populate<const G extends Aggregation.PopulateStageFactorySpecs<P>>(specs: G): Query<P, R, G, F, L> {
+    return new Query<P, R, G, F, L>(this.schema, { ...this.state, populate: specs })
+  }
+
+  /**
+   * Loads virtual inverse (has-many) relations into the found documents, see
+   * {@link Aggregation.RelationStageFactorySpecs}.
+   *
+   * @param specs The relations to load.
+   *
+   * @returns The new query.
+   */
+  relations<const G extends Aggregation.RelationStageFactorySpecs>(specs: G): Query<P, R, S, F, G> {
+    return new Query<P, R, S, F, G>(this.schema, { ...this.state, relations: specs })
+  }
+
+  /**
+   * Specifies if the query is lean, in which case the found documents are
+   * returned as stored in the database instead of being projected according
+   * to the schema.
+   *
+   * @param lean Whether the query is lean.
+   *
+   * @returns The new query.
+   */
+  lean(lean = true): Query<P, R, S, F, L> {
+    return this.extend({ lean })
+  }
+
+  /**
+   * Compiles the query to an aggregation pipeline.
+   *
+   * @returns The aggregation pipeline.
+   */
+  toPipeline(): Aggregation.Pipeline {
+    const { filter, sort, skip, limit, select, populate, relations, lean } = this.state
+
+    // The filter is already sanitized by `where`, which may have kept unknown
+    // fields in non-strict mode.
+    return [
+      ...filter === undefined ? [] : Aggregation.matchStageFactory(this.schema, filter, { strict: false }),
+      ...sort ? Aggregation.sortStageFactory(this.schema, sort) : [],
+      ...skip !== undefined ? Aggregation.skipStageFactory(this.schema, skip) : [],
+      ...limit !== undefined ? Aggregation.limitStageFactory(this.schema, limit) : [],
+      ...populate ? Aggregation.populateStageFactory(this.schema, populate) : [],
+      ...select ? Aggregation.projectStageFactory(this.schema, select) : lean === true ? [] : Aggregation.projectStageFactory(this.schema),
+      ...relations ? Aggregation.relationStageFactory(this.schema, relations) : [],
+    ]
+  }
+
+  /**
+   * Finds all documents matching the query.
+   *
+   * @returns The found documents.
+   */
+  async many(): Promise<ModelFindResult<R, S, F, L>[]> {
+    const docs = await CRUD.findMany<P, any>(this.schema, this.toPipeline())
+    const ModelClass = db.getModel(this.schema.model)
+    const decryptedDocs = []
+
+    for (const doc of docs) {
+      decryptedDocs.push(await ModelClass.decryptDocument(doc, { relations: this.state.relations }))
+    }
+
+    return decryptedDocs
+  }
+
+  /**
+   * Finds the first document matching the query.
+   *
+   * @returns The found document, `undefined` if there is none.
+   */
+  async one(): Promise<ModelFindResult<R, S, F, L> | undefined> {
+    const [doc] = await this.limit(1).many()
+
+    return doc
+  }
+
+  /**
+   * Counts the documents matching the query, taking `skip` and `limit` into
+   * account.
+   *
+   * @returns The number of documents.
+   */
+  async count(): Promise<number> {
+    const { filter, skip, limit } = this.state
+
+    return CRUD.count(this.schema, filter ?? {}, { skip, limit, strict: false })
+  }
+
+  /**
+   * Checks if any document matches the query.
+   *
+   * @returns `true` if a document exists, `false` otherwise.
+   */
+  async exists(): Promise<boolean> {
+    return CRUD.exists(this.schema, this.state.filter ?? {}, { strict: false })
+  }
+
+  /**
+   * Opens a cursor over the documents matching the query, i.e. to iterate
+   * large results in batches.
+   *
+   * @returns The cursor.
+   */
+  async cursor(): Promise<ModelCursor<ModelFindResult<R, S, F, L>>> {
+    const cursor = await CRUD.findManyCursor<P, any>(this.schema, this.toPipeline())
+    const ModelClass = db.getModel(this.schema.model)
+
+    return new ModelCursor<ModelFindResult<R, S, F, L>>(cursor, async doc => ModelClass.decryptDocument(doc, { relations: this.state.relations }))
+  }
+
+  /**
+   * Explains the execution of the query.
+   *
+   * @returns The explain output of the database.
+   */
+  async explain(): Promise<DriverDocument> {
+    const cursor = await this.cursor()
+
+    try {
+      return await cursor.explain().catch(err => {
+        throw mapDriverError(err, { model: this.schema.model, operation: 'explain' })
+      })
+    }
+    finally {
+      await cursor.close()
+    }
+  }
+
+  /**
+   * Creates a new query with the provided changes applied to the state of
+   * this query.
+   *
+   * @param changes The changes to the state.
+   *
+   * @returns The new query.
+   */
+  private extend(changes: QueryState<P>): Query<P, R, S, F, L> {
+    return new Query<P, R, S, F, L>(this.schema, { ...this.state, ...changes })
+  }
+}
@@ -0,0 +1,98 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { ObjectId } from 'mongodb'
+import { Mixed, type InferProps, type Schema, type SchemaProps } from './Schema.js'
+
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false
+
+function expectType<T extends true>(): T | undefined {
+  return undefined
+}
+
+describe('core/Schema', () => {
+  const BarSchema = {
+    model: 'Bar',
+    collection: 'bars',
+    fields: {
+      aString: { type: String, required: true },
+      aNumber: { type: Number },
+      someStrings: { type: [String], required: true },
+      someFoos: { type: [ObjectId], ref: 'Foo' },
+      anObject: {
+        type: {
+          aBoolean: { type: Boolean, required: true },
+          aDate: { type: Date },
+        },
+      },
+      someItems: {
+        type: [{ aString: { type: String, required: true } }],
+        autoId: true,
+      },
+      someTags: {
+        type: [{ aString: { type: String, required: true } }],
+      },
+      metadata: { type: Mixed },
+    },
+  } as const satisfies Schema
+
+  type BarProps = InferProps<typeof BarSchema>
+
+  it('infers required and optional keys', () => {
+    assert(BarSchema.fields.aString.required)
+    expectType<Equals<BarProps['aString'], string>>()
+    expectType<Equals<BarProps['aNumber'], number | undefined>>()
+    expectType<Equals<BarProps['anObject'], { aBoolean: boolean; aDate?: Date } | undefined>>()
+
+    // @ts-expect-error `aString` is required.
+    const props: BarProps = { someStrings: [] }
+
+    assert(props)
+  })
+
+  it('infers typed arrays', () => {
+    expectType<Equals<BarProps['someStrings'], string[]>>()
+    expectType<Equals<BarProps['someFoos'], ObjectId[] | undefined>>()
+
+    // @ts-expect-error `someStrings` only accepts strings.
+    const props: BarProps = { aString: 'foo', someStrings: [1] }
+
+    assert(props)
+  })
+
+  it('infers an optional `_id` for arrays of embedded docs with `autoId`', () => {
+    expectType<Equals<BarProps['someItems'], { aString: string; _id?: ObjectId }[] | undefined>>()
+    expectType<Equals<BarProps['someTags'], { aString: string }[] | undefined>>()
+
+    const props: BarProps = { aString: 'foo', someStrings: [], someItems: [{ aString: 'bar' }, { _id: new ObjectId(), aString: 'baz' }] }
+
+    assert(props)
+  })
+
+  it('infers `Mixed` fields as any value', () => {
+    expectType<Equals<BarProps['metadata'], any>>()
+
+    const props: BarProps = { aString: 'foo', someStrings: [], metadata: { foo: [1, 'bar'] } }
+
+    assert(props)
+  })
+
+  it('resolves the props of explicitly typed schemas as is', () => {
+    type FooProps = {
+      aString: string
+      aNumber?: number
+    }
+
+    const FooSchema: Schema<FooProps> = {
+      model: 'Foo',
+      collection: 'foos',
+      fields: {
+        aString: { type: String },
+        aNumber: { type: Number },
+      },
+    }
+
+    assert(FooSchema.model === 'Foo')
+    expectType<Equals<SchemaProps<typeof FooSchema>, FooProps>>()
+    expectType<Equals<SchemaProps<typeof BarSchema>, BarProps>>()
+  })
+})
@@ -1,6 +1,21 @@
-import { type CreateIndexesOptions, type IndexSpecification, type ObjectId } from 'mongodb'
+import { type Binary, type CreateIndexesOptions, type Decimal128, type IndexSpecification, type Long, type ObjectId, type SortDirection, type UUID } from 'mongodb'
 import { isPlainObject } from '../helpers/index.js'
-import { type AnyProps } from '../types/index.js'
+import { type AnyFilter, type AnyProps } from '../types/index.js'
+
+/**
+ * Field type for schemaless fields, which accept any value and whose subfields
+ * are not described in the {@link Schema}.
+ *
+ * @example
+ * const FooSchema = {
+ *   model: 'Foo',
+ *   collection: 'foos',
+ *   fields: {
+ *     metadata: { type: Mixed },
+ *   },
+ * }
+ */
+export const Mixed: unique symbol = Symbol('Mixed')
 
 /**
  * Data type for describing multiple (can be nested) fields in the
@@ -10,14 +25,18 @@ export type MultiFieldDescriptor<P extends AnyProps = AnyProps> = { [K in keyof
 
 /**
  * Data type for describing a single (can be nested) field in the
- * {@link Schema}.
+ * {@link Schema}. Validation constraints of typed array fields apply to each
+ * element in the array, except for `minItems`, `maxItems` and `uniqueItems`
+ * which apply to the array itself.
  */
 export type FieldDescriptor = {
 
   /**
-   * @see FieldType
+   * Either a {@link FieldType}, a {@link MultiFieldDescriptor} for embedded
+   * documents or a one-element array of a {@link MultiFieldDescriptor} for
+   * arrays of embedded documents, i.e. `[{ sku: { type: String } }]`.
    */
-  type: FieldType | MultiFieldDescriptor
+  type: FieldType | MultiFieldDescriptor | readonly [MultiFieldDescriptor]
 
   /**
    * When the `type` is an `ObjectId`, that means this field is a foreign key to
@@ -33,31 +52,121 @@ export type FieldDescriptor = {
   required?: boolean
 
   /**
-   * Specifies if this field should be encrypted.
+   * Specifies if each element of this array of embedded documents is assigned
+   * a generated `ObjectId` as its `_id` (unless it already has one) when it is
+   * inserted, pushed or set.
+   */
+  autoId?: boolean
+
+  /**
+   * Specifies if values of this field are hashed with bcrypt when they are
+   * formatted. Hashing is irreversible, so hashed values can only be compared
+   * (i.e. passwords), see `encryption` for values that must be read back.
+   */
+  hashed?: boolean
+
+  /**
+   * Alias of `hashed`.
+   *
+   * @deprecated Use `hashed` instead, values are hashed rather than encrypted.
    */
   encrypted?: boolean
+
+  /**
+   * Specifies the algorithm values of this field are encrypted with when they
+   * are inserted or updated, using the keys of the encryption key provider of
+   * the model. Encrypted values are stored as `Binary` values along with the ID
+   * of their key and are decrypted when documents are found. Since encryption
+   * is randomized, documents cannot be filtered or sorted by encrypted fields.
+   * A field cannot be both hashed and encrypted.
+   */
+  encryption?: FieldEncryptionAlgorithm
+
+  /**
+   * Inclusive minimum of number values (including `Long` and `Decimal128`).
+   */
+  min?: number
+
+  /**
+   * Inclusive maximum of number values (including `Long` and `Decimal128`).
+   */
+  max?: number
+
+  /**
+   * Inclusive minimum length of string values.
+   */
+  minLength?: number
+
+  /**
+   * Inclusive maximum length of string values.
+   */
+  maxLength?: number
+
+  /**
+   * Regular expression that string values must match.
+   */
+  pattern?: RegExp
+
+  /**
+   * Set of allowed values for string, number or boolean values.
+   */
+  enum?: readonly (string | number | boolean)[]
+
+  /**
+   * Inclusive minimum number of items of array values.
+   */
+  minItems?: number
+
+  /**
+   * Inclusive maximum number of items of array values.
+   */
+  maxItems?: number
+
+  /**
+   * Specifies if items of array values must be unique.
+   */
+  uniqueItems?: boolean
+
+  /**
+   * Date values must be strictly before this date.
+   */
+  before?: Date
+
+  /**
+   * Date values must be strictly after this date.
+   */
+  after?: Date
 }
 
 /**
  * Data type representing primitive field types only, that are acceptable values
- * of {@link FieldDescriptor.type}.
+ * of {@link FieldDescriptor.type}. Note that:
+ *   1. `Binary` fields also accept `Buffer` and `Uint8Array` values.
+ *   2. `Long` fields also accept `bigint` values and integer numbers.
+ *   3. `UUID` fields also accept `Binary` values of the UUID subtype.
+ *   4. `Mixed` fields accept any value, see {@link Mixed}.
  */
-export type FieldPrimitiveType = typeof String | typeof Number | typeof Boolean | typeof Date | typeof ObjectId | typeof Array
+export type FieldPrimitiveType = typeof String | typeof Number | typeof Boolean | typeof Date | typeof ObjectId | typeof Array | typeof Decimal128 | typeof Binary | typeof Long | typeof UUID | typeof Mixed
 
 /**
  * Data type for all acceptable values of {@link FieldDescriptor.type}.
  */
-export type FieldType = FieldPrimitiveType | FieldPrimitiveType[]
+export type FieldType = FieldPrimitiveType | readonly FieldPrimitiveType[]
+
+/**
+ * Data type for all acceptable values of {@link FieldDescriptor.encryption}.
+ */
+export type FieldEncryptionAlgorithm = 'aes-256-gcm'
 
 /**
  * Data type for primitive field values only.
  */
-export type FieldPrimitiveValue = ObjectId | string | number | boolean | Date
+export type FieldPrimitiveValue = ObjectId | string | number | boolean | Date | Decimal128 | Binary | Long | bigint | Uint8Array
 
 /**
  * Data type for all acceptable field values.
  */
-export type FieldValue = undefined | FieldPrimitiveValue | FieldPrimitiveValue[] | { [subfield: string]: FieldValue }
+export type FieldValue = undefined | FieldPrimitiveValue | FieldPrimitiveValue[] | { [subfield: string]: FieldValue } | { [subfield: string]: FieldValue }[]
 
 /**
  * Describes the indexes to be created in the collection.
@@ -79,6 +188,46 @@ export type SchemaIndex = {
   options?: CreateIndexesOptions
 }
 
+/**
+ * Describes a virtual inverse (has-many) relation, i.e. the documents of
+ * another model that reference a document of this collection.
+ */
+export type SchemaRelation = {
+
+  /**
+   * Name of the model whose documents reference this collection.
+   */
+  model: string
+
+  /**
+   * Reference field of the related model pointing to this collection. If
+   * unspecified, all fields of the related model with a `ref` to this model
+   * are considered.
+   */
+  field?: string
+
+  /**
+   * Filter of the related documents.
+   */
+  match?: AnyFilter
+
+  /**
+   * Sort order of the related documents.
+   */
+  sort?: Record<string, SortDirection>
+
+  /**
+   * Maximum number of related documents.
+   */
+  limit?: number
+
+  /**
+   * Specifies if only the number of related documents is loaded instead of
+   * the documents themselves.
+   */
+  count?: boolean
+}
+
 export interface Schema<P extends AnyProps = AnyProps> {
 
   /**
@@ -92,6 +241,13 @@ export interface Schema<P extends AnyProps = AnyProps> {
    */
   collection: string
 
+  /**
+   * Name of the connection (as configured via `configureDb`) this model is
+   * bound to. If unspecified, the model uses the connection it is registered
+   * in.
+   */
+  connection?: string
+
   /**
    * Specifies whether timestamp fields will be automatically generated and
    * tracked per CRUD operation. The genrated fields are `updatedAt` and
@@ -142,7 +298,15 @@ export interface Schema<P extends AnyProps = AnyProps> {
    * have a foreign key to the deleted document. Cascade deletion occurs
    * **after** all event hooks.
    */
-  cascade?: string[]
+  cascade?: readonly string[]
+
+  /**
+   * Defines virtual inverse (has-many) relations of this collection, where
+   * each key is the name of the relation and the value describes the related
+   * documents, see {@link SchemaRelation}. Relations are not stored in the
+   * database and are only loaded when requested.
+   */
+  relations?: Readonly<Record<string, SchemaRelation>>
 
   /**
    * Defines document fields.
@@ -156,9 +320,81 @@ export interface Schema<P extends AnyProps = AnyProps> {
    *
    * @see SchemaIndex
    */
-  indexes?: SchemaIndex[]
+  indexes?: readonly SchemaIndex[]
 }
 
+/**
+ * Infers the type of a field value from the {@link FieldDescriptor.type} of
+ * the field.
+ */
+export type InferFieldType<T> = T extends readonly [infer E] ? InferFieldType<E>[] : T extends MultiFieldDescriptor ? InferFields<T> : InferPrimitiveFieldType<T>
+
+/**
+ * Infers the type of a field value from its {@link FieldDescriptor}, where the
+ * elements of `autoId` arrays of embedded documents have an optional `_id`.
+ */
+export type InferFieldDescriptorType<D> = D extends { type: readonly [infer E extends MultiFieldDescriptor]; autoId: true } ? Flatten<InferFields<E> & { _id?: ObjectId }>[] : D extends { type: infer T } ? InferFieldType<T> : never
+
+/**
+ * Infers the props of a {@link MultiFieldDescriptor}, where fields marked as
+ * `required: true` are required and the rest are optional.
+ */
+export type InferFields<F> = Flatten<{
+  -readonly [K in RequiredFieldKeys<F>]: InferFieldDescriptorType<F[K]>
+} & {
+  -readonly [K in Exclude<keyof F, RequiredFieldKeys<F>>]?: InferFieldDescriptorType<F[K]>
+}>
+
+/**
+ * Infers the props of a model from its {@link Schema}. The schema must be
+ * declared `as const` so that field types and `required` flags are preserved.
+ *
+ * @example
+ * const FooSchema = {
+ *   model: 'Foo',
+ *   collection: 'foos',
+ *   fields: {
+ *     aString: { type: String, required: true },
+ *     aBar: { type: ObjectId, ref: 'Bar' },
+ *   },
+ * } as const
+ *
+ * // { aString: string; aBar?: ObjectId }
+ * type FooProps = InferProps<typeof FooSchema>
+ */
+export type InferProps<S> = S extends { fields: infer F } ? InferFields<F> : never
+
+/**
+ * Resolves the props of a model from its {@link Schema}: if the schema is
+ * explicitly typed as `Schema<P>`, the props are `P`, otherwise they are
+ * inferred from the field descriptors via {@link InferProps}.
+ */
+export type SchemaProps<S> = S extends Schema<infer P> ? FieldDescriptor extends S['fields'][keyof S['fields']] ? P : InferProps<S> : never
+
+/**
+ * Pairs of {@link FieldPrimitiveType} and the type of their values, used to
+ * infer field value types.
+ */
+type FieldPrimitiveTypeMap = [
+  [StringConstructor, string],
+  [NumberConstructor, number],
+  [BooleanConstructor, boolean],
+  [DateConstructor, Date],
+  [typeof ObjectId, ObjectId],
+  [ArrayConstructor, any[]],
+  [typeof Decimal128, Decimal128],
+  [typeof UUID, UUID],
+  [typeof Binary, Binary],
+  [typeof Long, Long],
+  [typeof Mixed, any],
+]
+
+type InferPrimitiveFieldType<T, M = FieldPrimitiveTypeMap> = M extends [[infer C, infer V], ...infer R] ? T extends C ? V : InferPrimitiveFieldType<T, R> : never
+
+type RequiredFieldKeys<F> = { [K in keyof F]: F[K] extends { required: true } ? K : never }[keyof F]
+
+type Flatten<T> = { [K in keyof T]: T[K] } & {}
+
 /**
  * Checks if a value is a {@link MultiFieldDescriptor} object.
  *
@@ -0,0 +1,31 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { addFieldsStageFactory } from './addFields.js'
+
+describe('core/aggregation/addFields', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $addFields stage', () => {
+    assert.deepStrictEqual(addFieldsStageFactory(Foo.schema, { total: { $add: ['$aNumber', '$anObject.foo.aNumber', 1] }, root: '$$ROOT' }), [{
+      $addFields: { total: { $add: ['$aNumber', '$anObject.foo.aNumber', 1] }, root: '$$ROOT' },
+    }])
+  })
+
+  it('can generate $addFields stage with prefixes', () => {
+    assert.deepStrictEqual(addFieldsStageFactory(Foo.schema, { total: { $add: ['$aNumber', 1] }, price: { $literal: '$1' } }, { fromPrefix: 'foo', toPrefix: 'bar' }), [{
+      $addFields: { 'bar.total': { $add: ['$foo.aNumber', 1] }, 'bar.price': { $literal: '$1' } },
+    }])
+  })
+
+  it('throws if a referenced field does not exist in the schema', () => {
+    assert.throws(() => addFieldsStageFactory(Foo.schema, { total: { $add: ['$garbage', 1] } }))
+  })
+})
@@ -0,0 +1,62 @@
+import { type AnyProps } from '../../types/index.js'
+import { prefixed, resolveFieldReferences } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+
+export type AddFieldsStage = {
+  $addFields: Record<string, any>
+}
+
+/**
+ * Specs that define the `$addFields` stage, where each key is a field to add
+ * (or replace) and each value is the expression of its value.
+ */
+export type AddFieldsStageFactorySpecs = Record<string, any>
+
+export type AddFieldsStageFactoryOptions = {
+  /**
+   * Prefix of the fields referenced in the expressions.
+   */
+  fromPrefix?: string
+
+  /**
+   * Prefix of the added fields.
+   */
+  toPrefix?: string
+}
+
+/**
+ * Generates an `$addFields` stage for a collection to be used in an
+ * aggregation pipeline. Field path references in the expressions are
+ * verified against the schema.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs that define the `$addFields` stage.
+ * @param options Additional options, see {@link AddFieldsStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated
+ *          `$addFields` stage.
+ *
+ * @example
+ * // Returns [{ "$addFields": { "bar.total": { "$add": ["$foo.aNumber", 1] } } }]
+ * addFieldsStageFactory(schema, { total: { $add: ['$aNumber', 1] } }, { fromPrefix: 'foo', toPrefix: 'bar' })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/addFields/}
+ *
+ * @throws {Error} A referenced field does not exist in the schema.
+ */
+export function addFieldsStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  specs: AddFieldsStageFactorySpecs, {
+    fromPrefix = '',
+    toPrefix = '',
+  }: AddFieldsStageFactoryOptions = {},
+): [AddFieldsStage] {
+  const out: Record<string, any> = {}
+
+  for (const key in specs) {
+    if (!{}.hasOwnProperty.call(specs, key)) continue
+    out[prefixed(key, toPrefix)] = resolveFieldReferences(schema, specs[key], fromPrefix) // Throws
+  }
+
+  return [{ $addFields: out }]
+}
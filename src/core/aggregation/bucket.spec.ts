@@ -0,0 +1,39 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { bucketStageFactory } from './bucket.js'
+
+describe('core/aggregation/bucket', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $bucket stage', () => {
+    assert.deepStrictEqual(bucketStageFactory(Foo.schema, {
+      groupBy: '$aNumber',
+      boundaries: [0, 10, 100],
+      default: 'other',
+      output: { count: { $sum: 1 }, strings: { $push: '$aString' } },
+    }, { fromPrefix: 'foo' }), [{
+      $bucket: {
+        groupBy: '$foo.aNumber',
+        boundaries: [0, 10, 100],
+        default: 'other',
+        output: { count: { $sum: 1 }, strings: { $push: '$foo.aString' } },
+      },
+    }])
+  })
+
+  it('throws if the boundaries are not in ascending order', () => {
+    assert.throws(() => bucketStageFactory(Foo.schema, { groupBy: '$aNumber', boundaries: [10, 0] }))
+  })
+
+  it('throws if a referenced field does not exist in the schema', () => {
+    assert.throws(() => bucketStageFactory(Foo.schema, { groupBy: '$garbage', boundaries: [0, 10] }))
+  })
+})
@@ -0,0 +1,89 @@
+import { type AnyProps } from '../../types/index.js'
+import { resolveFieldReferences } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+
+export type BucketStage = {
+  $bucket: {
+    groupBy: any
+    boundaries: any[]
+    default?: any
+    output?: Record<string, any>
+  }
+}
+
+/**
+ * Specs that define the `$bucket` stage.
+ */
+export type BucketStageFactorySpecs = {
+  /**
+   * Expression to group documents by, i.e. a field path such as `"$aNumber"`.
+   */
+  groupBy: any
+
+  /**
+   * Ascending boundaries of the buckets.
+   */
+  boundaries: any[]
+
+  /**
+   * Identifier of the bucket of documents outside of the boundaries.
+   */
+  default?: any
+
+  /**
+   * Output fields of each bucket, as accumulator expressions.
+   */
+  output?: Record<string, any>
+}
+
+export type BucketStageFactoryOptions = {
+  /**
+   * Prefix of the fields referenced in the expressions.
+   */
+  fromPrefix?: string
+}
+
+/**
+ * Generates a `$bucket` stage for a collection to be used in an aggregation
+ * pipeline. Field path references in the expressions are verified against the
+ * schema.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs that define the `$bucket` stage.
+ * @param options Additional options, see {@link BucketStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated `$bucket`
+ *          stage.
+ *
+ * @example
+ * // Returns [{ "$bucket": { "groupBy": "$aNumber", "boundaries": [0, 10, 100], "default": "other", "output": { "count": { "$sum": 1 } } } }]
+ * bucketStageFactory(schema, { groupBy: '$aNumber', boundaries: [0, 10, 100], default: 'other', output: { count: { $sum: 1 } } })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/bucket/}
+ *
+ * @throws {Error} The boundaries are not in ascending order or a referenced
+ *                 field does not exist in the schema.
+ */
+export function bucketStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  {
+    groupBy,
+    boundaries,
+    default: defaultBucket,
+    output,
+  }: BucketStageFactorySpecs, {
+    fromPrefix = '',
+  }: BucketStageFactoryOptions = {},
+): [BucketStage] {
+  if (boundaries.length < 2) throw new Error('Failed to generate $bucket stage: at least two boundaries must be specified')
+  if (boundaries.some((boundary, i) => i > 0 && !(boundaries[i - 1] < boundary))) throw new Error('Failed to generate $bucket stage: the boundaries must be in ascending order')
+
+  return [{
+    $bucket: {
+      groupBy: resolveFieldReferences(schema, groupBy, fromPrefix), // Throws
+      boundaries,
+      ...defaultBucket === undefined ? {} : { default: defaultBucket },
+      ...output === undefined ? {} : { output: resolveFieldReferences(schema, output, fromPrefix) }, // Throws
+    },
+  }]
+}
@@ -0,0 +1,29 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { bucketAutoStageFactory } from './bucketAuto.js'
+
+describe('core/aggregation/bucketAuto', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $bucketAuto stage', () => {
+    assert.deepStrictEqual(bucketAutoStageFactory(Foo.schema, { groupBy: '$aNumber', buckets: 4, granularity: 'R5' }), [{
+      $bucketAuto: { groupBy: '$aNumber', buckets: 4, granularity: 'R5' },
+    }])
+  })
+
+  it('throws if the number of buckets is not a positive integer', () => {
+    assert.throws(() => bucketAutoStageFactory(Foo.schema, { groupBy: '$aNumber', buckets: 0 }))
+  })
+
+  it('throws if a referenced field does not exist in the schema', () => {
+    assert.throws(() => bucketAutoStageFactory(Foo.schema, { groupBy: '$garbage', buckets: 4 }))
+  })
+})
@@ -0,0 +1,88 @@
+import { type AnyProps } from '../../types/index.js'
+import { resolveFieldReferences } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+
+export type BucketAutoStage = {
+  $bucketAuto: {
+    groupBy: any
+    buckets: number
+    output?: Record<string, any>
+    granularity?: string
+  }
+}
+
+/**
+ * Specs that define the `$bucketAuto` stage.
+ */
+export type BucketAutoStageFactorySpecs = {
+  /**
+   * Expression to group documents by, i.e. a field path such as `"$aNumber"`.
+   */
+  groupBy: any
+
+  /**
+   * Number of buckets to group documents into.
+   */
+  buckets: number
+
+  /**
+   * Output fields of each bucket, as accumulator expressions.
+   */
+  output?: Record<string, any>
+
+  /**
+   * Preferred number series of the bucket boundaries, i.e. `R5` or `POWERSOF2`.
+   */
+  granularity?: string
+}
+
+export type BucketAutoStageFactoryOptions = {
+  /**
+   * Prefix of the fields referenced in the expressions.
+   */
+  fromPrefix?: string
+}
+
+/**
+ * Generates a `$bucketAuto` stage for a collection to be used in an
+ * aggregation pipeline. Field path references in the expressions are
+ * verified against the schema.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs that define the `$bucketAuto` stage.
+ * @param options Additional options, see {@link BucketAutoStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated
+ *          `$bucketAuto` stage.
+ *
+ * @example
+ * // Returns [{ "$bucketAuto": { "groupBy": "$aNumber", "buckets": 4 } }]
+ * bucketAutoStageFactory(schema, { groupBy: '$aNumber', buckets: 4 })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/bucketAuto/}
+ *
+ * @throws {Error} The number of buckets is not a positive integer or a
+ *                 referenced field does not exist in the schema.
+ */
+export function bucketAutoStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  {
+    groupBy,
+    buckets,
+    output,
+    granularity,
+  }: BucketAutoStageFactorySpecs, {
+    fromPrefix = '',
+  }: BucketAutoStageFactoryOptions = {},
+): [BucketAutoStage] {
+  if (!Number.isInteger(buckets) || buckets < 1) throw new Error(`Failed to generate $bucketAuto stage: the number of buckets must be a positive integer, got ${buckets}`)
+
+  return [{
+    $bucketAuto: {
+      groupBy: resolveFieldReferences(schema, groupBy, fromPrefix), // Throws
+      buckets,
+      ...output === undefined ? {} : { output: resolveFieldReferences(schema, output, fromPrefix) }, // Throws
+      ...granularity === undefined ? {} : { granularity },
+    },
+  }]
+}
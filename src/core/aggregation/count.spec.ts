@@ -0,0 +1,25 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { countStageFactory } from './count.js'
+
+describe('core/aggregation/count', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $count stage', () => {
+    assert.deepStrictEqual(countStageFactory(Foo.schema, 'total'), [{ $count: 'total' }])
+  })
+
+  it('throws if the name of the output field is invalid', () => {
+    assert.throws(() => countStageFactory(Foo.schema, ''))
+    assert.throws(() => countStageFactory(Foo.schema, '$total'))
+    assert.throws(() => countStageFactory(Foo.schema, 'foo.total'))
+  })
+})
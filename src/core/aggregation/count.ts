@@ -0,0 +1,34 @@
+import { type AnyProps } from '../../types/index.js'
+import { type Schema } from '../Schema.js'
+
+export type CountStage = {
+  $count: string
+}
+
+/**
+ * Generates a `$count` stage for a collection to be used in an aggregation
+ * pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param field Name of the output field holding the count. It must not be
+ *              empty, start with `$` or contain `.`.
+ *
+ * @returns An abstract aggregation pipeline containing the generated `$count`
+ *          stage.
+ *
+ * @example
+ * // Returns [{ "$count": "total" }]
+ * countStageFactory(schema, 'total')
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/count/}
+ *
+ * @throws {Error} The name of the output field is invalid.
+ */
+export function countStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  field: string,
+): [CountStage] {
+  if (field === '' || field.startsWith('$') || field.includes('.')) throw new Error(`Failed to generate $count stage: the field "${field}" is not a valid output field name`)
+
+  return [{ $count: field }]
+}
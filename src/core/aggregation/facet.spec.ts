@@ -0,0 +1,31 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { facetStageFactory } from './facet.js'
+
+describe('core/aggregation/facet', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $facet stage', () => {
+    assert.deepStrictEqual(facetStageFactory(Foo.schema, {
+      items: [{ $limit: 10 }],
+      total: [{ $count: 'count' }],
+    }), [{
+      $facet: {
+        items: [{ $limit: 10 }],
+        total: [{ $count: 'count' }],
+      },
+    }])
+  })
+
+  it('throws if the name of an output field is invalid', () => {
+    assert.throws(() => facetStageFactory(Foo.schema, { 'foo.items': [] }))
+  })
+})
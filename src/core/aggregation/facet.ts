@@ -0,0 +1,44 @@
+import { type AnyProps } from '../../types/index.js'
+import { type Schema } from '../Schema.js'
+import { type Pipeline } from './index.js'
+
+export type FacetStage = {
+  $facet: Record<string, Pipeline>
+}
+
+/**
+ * Specs that define the `$facet` stage, where each key is the output field of
+ * a facet and each value is the pipeline of the facet, typically composed of
+ * other stage factories.
+ */
+export type FacetStageFactorySpecs = Record<string, Pipeline>
+
+/**
+ * Generates a `$facet` stage for a collection to be used in an aggregation
+ * pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs that define the `$facet` stage.
+ *
+ * @returns An abstract aggregation pipeline containing the generated `$facet`
+ *          stage.
+ *
+ * @example
+ * // Returns [{ "$facet": { "items": [{ "$limit": 10 }], "total": [{ "$count": "count" }] } }]
+ * facetStageFactory(schema, { items: limitStageFactory(schema, 10), total: countStageFactory(schema, 'count') })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/facet/}
+ *
+ * @throws {Error} The name of an output field is invalid.
+ */
+export function facetStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  specs: FacetStageFactorySpecs,
+): [FacetStage] {
+  for (const field in specs) {
+    if (!{}.hasOwnProperty.call(specs, field)) continue
+    if (field.startsWith('$') || field.includes('.')) throw new Error(`Failed to generate $facet stage: the field "${field}" is not a valid output field name`)
+  }
+
+  return [{ $facet: specs }]
+}
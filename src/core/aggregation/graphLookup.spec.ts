@@ -0,0 +1,35 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Bar, Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { graphLookupStageFactory } from './graphLookup.js'
+
+describe('core/aggregation/graphLookup', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Bar, Foo },
+    })
+  })
+
+  it('can generate $graphLookup stage', () => {
+    assert.deepStrictEqual(graphLookupStageFactory(Bar.schema, 'aBar', { as: 'ancestors', maxDepth: 5, depthField: 'depth' }), [{
+      $graphLookup: { from: 'bars', startWith: '$aBar', connectFromField: 'aBar', connectToField: '_id', as: 'ancestors', maxDepth: 5, depthField: 'depth' },
+    }])
+  })
+
+  it('can generate $graphLookup stage with prefixes', () => {
+    assert.deepStrictEqual(graphLookupStageFactory(Foo.schema, 'aBar', { connectFromField: 'aBar', as: 'ancestors' }, { fromPrefix: 'foo', toPrefix: 'bar' }), [{
+      $graphLookup: { from: 'bars', startWith: '$foo.aBar', connectFromField: 'aBar', connectToField: '_id', as: 'bar.ancestors' },
+    }])
+  })
+
+  it('throws if the field is not a reference field', () => {
+    assert.throws(() => graphLookupStageFactory(Foo.schema, 'aString'))
+  })
+
+  it('throws if a connecting field does not exist in the schema of the referenced model', () => {
+    assert.throws(() => graphLookupStageFactory(Foo.schema, 'aBar', { connectFromField: 'garbage' }))
+  })
+})
@@ -0,0 +1,139 @@
+import * as db from '../../index.js'
+import { type AnyProps } from '../../types/index.js'
+import { fieldPath, prefixed, schemaHasFieldPath } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+
+export type GraphLookupStage = {
+  $graphLookup: {
+    from: string
+    startWith: any
+    connectFromField: string
+    connectToField: string
+    as: string
+    maxDepth?: number
+    depthField?: string
+    restrictSearchWithMatch?: Record<string, any>
+  }
+}
+
+/**
+ * Specifies parameters that define how the `$graphLookup` stage is generated
+ * for a reference field.
+ */
+export type GraphLookupStageFactorySpecs = {
+  /**
+   * Field of the target collection whose value is used to recursively look up
+   * further documents. If unspecified, this defaults to the reference field
+   * itself, which is the case for self-referencing models.
+   */
+  connectFromField?: string
+
+  /**
+   * Field of the target collection to match the values of `connectFromField`
+   * against. If unspecified, this defaults to `_id`.
+   */
+  connectToField?: string
+
+  /**
+   * Specifies the `as` parameter of the `$graphLookup` stage. If unspecified,
+   * this defaults to the reference field.
+   */
+  as?: string
+
+  /**
+   * Maximum recursion depth.
+   */
+  maxDepth?: number
+
+  /**
+   * Name of the field to add to each looked up document holding its recursion
+   * depth.
+   */
+  depthField?: string
+
+  /**
+   * Filter the looked up documents must match.
+   */
+  restrictSearchWithMatch?: Record<string, any>
+}
+
+export type GraphLookupStageFactoryOptions = {
+  /**
+   * Prefix of the reference field.
+   */
+  fromPrefix?: string
+
+  /**
+   * Prefix of the field holding the looked up documents.
+   */
+  toPrefix?: string
+}
+
+/**
+ * Generates a `$graphLookup` stage for a reference field of a collection to be
+ * used in an aggregation pipeline, recursively looking up the documents of the
+ * referenced collection starting from the value of the reference field.
+ *
+ * @param schema The schema of the database collection.
+ * @param field The reference field to start the lookup from.
+ * @param specs Specs that define the `$graphLookup` stage, see
+ *              {@link GraphLookupStageFactorySpecs}.
+ * @param options Additional options, see
+ *                {@link GraphLookupStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated
+ *          `$graphLookup` stage.
+ *
+ * @example
+ * // Returns [{ "$graphLookup": { "from": "bars", "startWith": "$aBar", "connectFromField": "aBar", "connectToField": "_id", "as": "ancestors", "maxDepth": 5 } }]
+ * graphLookupStageFactory(schema, 'aBar', { as: 'ancestors', maxDepth: 5 })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/graphLookup/}
+ *
+ * @throws {Error} The field is not a reference field, or a connecting field
+ *                 does not exist in the schema of the referenced model.
+ * @throws {ConnectionError} The referenced model is bound to a different
+ *                           connection.
+ */
+export function graphLookupStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  field: string,
+  {
+    connectFromField,
+    connectToField = '_id',
+    as,
+    maxDepth,
+    depthField,
+    restrictSearchWithMatch,
+  }: GraphLookupStageFactorySpecs = {}, {
+    fromPrefix = '',
+    toPrefix = '',
+  }: GraphLookupStageFactoryOptions = {},
+): [GraphLookupStage] {
+  const fieldDescriptor = schema.fields[field]
+  if (!fieldDescriptor) throw new Error(`Failed to generate $graphLookup stage: the field "${field}" does not exist in the schema for collection "${schema.collection}"`)
+
+  const targetModel = fieldDescriptor.ref
+  if (!targetModel) throw new Error(`Failed to generate $graphLookup stage: the field "${field}" does not have a reference model specified in the schema for collection "${schema.collection}"`)
+
+  const targetSchema = db.getModel(targetModel).schema
+  db.assertJoinableModels(schema, targetSchema) // Throws
+
+  const connectFrom = connectFromField ?? field
+
+  if (!schemaHasFieldPath(targetSchema, connectFrom)) throw new Error(`Failed to generate $graphLookup stage: the field "${connectFrom}" does not exist in the schema for collection "${targetSchema.collection}"`)
+  if (!schemaHasFieldPath(targetSchema, connectToField)) throw new Error(`Failed to generate $graphLookup stage: the field "${connectToField}" does not exist in the schema for collection "${targetSchema.collection}"`)
+
+  return [{
+    $graphLookup: {
+      from: targetSchema.collection,
+      startWith: fieldPath(field, fromPrefix),
+      connectFromField: connectFrom,
+      connectToField,
+      as: prefixed(as ?? field, toPrefix),
+      ...maxDepth === undefined ? {} : { maxDepth },
+      ...depthField === undefined ? {} : { depthField },
+      ...restrictSearchWithMatch === undefined ? {} : { restrictSearchWithMatch },
+    },
+  }]
+}
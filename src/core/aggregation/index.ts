@@ -1,9 +1,67 @@
+import { type AddFieldsStage } from './addFields.js'
+import { type BucketStage } from './bucket.js'
+import { type BucketAutoStage } from './bucketAuto.js'
+import { type CountStage } from './count.js'
+import { type FacetStage } from './facet.js'
+import { type GraphLookupStage } from './graphLookup.js'
+import { type GroupStage } from './group.js'
+import { type LimitStage } from './limit.js'
+import { type LookupStage } from './lookup.js'
+import { type MatchStage } from './match.js'
+import { type ProjectStage } from './project.js'
+import { type ReplaceRootStage } from './replaceRoot.js'
+import { type SampleStage } from './sample.js'
+import { type SetStage } from './set.js'
+import { type SetWindowFieldsStage } from './setWindowFields.js'
+import { type SkipStage } from './skip.js'
+import { type SortStage } from './sort.js'
+import { type UnionWithStage } from './unionWith.js'
+import { type UnsetStage } from './unset.js'
+import { type UnwindStage } from './unwind.js'
+
+export * from './addFields.js'
+export * from './bucket.js'
+export * from './bucketAuto.js'
+export * from './count.js'
+export * from './facet.js'
+export * from './graphLookup.js'
 export * from './group.js'
+export * from './limit.js'
 export * from './lookup.js'
 export * from './match.js'
+export * from './populate.js'
 export * from './project.js'
+export * from './relation.js'
+export * from './replaceRoot.js'
+export * from './sample.js'
+export * from './set.js'
+export * from './setWindowFields.js'
+export * from './skip.js'
 export * from './sort.js'
+export * from './unionWith.js'
+export * from './unset.js'
+export * from './unwind.js'
 
-export type PipelineStage = Record<string, Record<string, any>>
+export type PipelineStage =
+  | AddFieldsStage
+  | BucketAutoStage
+  | BucketStage
+  | CountStage
+  | FacetStage
+  | GraphLookupStage
+  | GroupStage
+  | LimitStage
+  | LookupStage
+  | MatchStage
+  | ProjectStage
+  | ReplaceRootStage
+  | SampleStage
+  | SetStage
+  | SetWindowFieldsStage
+  | SkipStage
+  | SortStage
+  | UnionWithStage
+  | UnsetStage
+  | UnwindStage
 
 export type Pipeline = PipelineStage[]
@@ -0,0 +1,24 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { limitStageFactory } from './limit.js'
+
+describe('core/aggregation/limit', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $limit stage', () => {
+    assert.deepStrictEqual(limitStageFactory(Foo.schema, 10), [{ $limit: 10 }])
+  })
+
+  it('throws if the limit is not a positive integer', () => {
+    assert.throws(() => limitStageFactory(Foo.schema, 0))
+    assert.throws(() => limitStageFactory(Foo.schema, 1.5))
+  })
+})
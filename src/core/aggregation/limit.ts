@@ -0,0 +1,33 @@
+import { type AnyProps } from '../../types/index.js'
+import { type Schema } from '../Schema.js'
+
+export type LimitStage = {
+  $limit: number
+}
+
+/**
+ * Generates a `$limit` stage for a collection to be used in an aggregation
+ * pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param limit The maximum number of documents, must be a positive integer.
+ *
+ * @returns An abstract aggregation pipeline containing the generated `$limit`
+ *          stage.
+ *
+ * @example
+ * // Returns [{ "$limit": 10 }]
+ * limitStageFactory(schema, 10)
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/limit/}
+ *
+ * @throws {Error} The limit is not a positive integer.
+ */
+export function limitStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  limit: number,
+): [LimitStage] {
+  if (!Number.isInteger(limit) || limit < 1) throw new Error(`Failed to generate $limit stage: the limit must be a positive integer, got ${limit}`)
+
+  return [{ $limit: limit }]
+}
@@ -1,7 +1,9 @@
 import assert from 'assert'
 import { describe } from 'mocha'
+import { ObjectId } from 'mongodb'
 import { Bar, Foo } from '../../__mocks__/models.js'
-import { configureDb } from '../../index.js'
+import { ConnectionError } from '../../errors/index.js'
+import { Model, assertJoinableModels, configureDb } from '../../index.js'
 import { lookupStageFactory } from './lookup.js'
 
 describe('core/aggregation/lookup', () => {
@@ -58,4 +60,106 @@ describe('core/aggregation/lookup', () => {
       $unwind: { path: '$bar.aFoo', preserveNullAndEmptyArrays: true },
     }])
   })
+
+  it('does not unwind the results of a $lookup stage for array reference fields', () => {
+    assert.deepStrictEqual(lookupStageFactory(Foo.schema, { someBars: true }), [{
+      $lookup: { from: 'bars', localField: 'someBars', foreignField: '_id', as: 'someBars' },
+    }])
+  })
+
+  it('can generate $lookup stage with a pipeline', () => {
+    assert.deepStrictEqual(lookupStageFactory(Foo.schema, { aBar: { pipeline: [{ $project: { aString: 1 } }] } }), [{
+      $lookup: { from: 'bars', localField: 'aBar', foreignField: '_id', as: 'aBar', pipeline: [{ $project: { aString: 1 } }] },
+    }, {
+      $unwind: { path: '$aBar', preserveNullAndEmptyArrays: true },
+    }])
+  })
+
+  it('can generate $lookup stage with a filtered, sorted and limited sub-pipeline', () => {
+    assert.deepStrictEqual(lookupStageFactory(Foo.schema, { someBars: { match: { aBoolean: true }, sort: { aNumber: -1 }, limit: 5, project: { aString: 1 } } }), [{
+      $lookup: {
+        from: 'bars',
+        let: { local: '$someBars' },
+        as: 'someBars',
+        pipeline: [
+          { $match: { $expr: { $in: ['$_id', { $ifNull: ['$$local', []] }] } } },
+          { $match: { aBoolean: true } },
+          { $sort: { aNumber: -1 } },
+          { $limit: 5 },
+          { $project: { aString: 1 } },
+        ],
+      },
+    }])
+
+    assert.deepStrictEqual(lookupStageFactory(Foo.schema, { aBar: { match: { aBoolean: true } } }, { fromPrefix: 'foo', toPrefix: 'bar' }), [{
+      $lookup: {
+        from: 'bars',
+        let: { local: '$foo.aBar' },
+        as: 'bar.aBar',
+        pipeline: [
+          { $match: { $expr: { $eq: ['$_id', '$$local'] } } },
+          { $match: { aBoolean: true } },
+        ],
+      },
+    }, {
+      $unwind: { path: '$bar.aBar', preserveNullAndEmptyArrays: true },
+    }])
+  })
+
+  it('can generate nested $lookup stages in the sub-pipeline', () => {
+    assert.deepStrictEqual(lookupStageFactory(Foo.schema, { someBars: { limit: 1, lookup: { aBar: true } } }), [{
+      $lookup: {
+        from: 'bars',
+        let: { local: '$someBars' },
+        as: 'someBars',
+        pipeline: [
+          { $match: { $expr: { $in: ['$_id', { $ifNull: ['$$local', []] }] } } },
+          { $limit: 1 },
+          { $lookup: { from: 'bars', localField: 'aBar', foreignField: '_id', as: 'aBar' } },
+          { $unwind: { path: '$aBar', preserveNullAndEmptyArrays: true } },
+        ],
+      },
+    }])
+  })
+
+  it('can generate count-only $lookup stage', () => {
+    assert.deepStrictEqual(lookupStageFactory(Foo.schema, { someBars: { count: true, match: { aBoolean: true } } }), [{
+      $lookup: {
+        from: 'bars',
+        let: { local: '$someBars' },
+        as: 'someBars',
+        pipeline: [
+          { $match: { $expr: { $in: ['$_id', { $ifNull: ['$$local', []] }] } } },
+          { $match: { aBoolean: true } },
+          { $count: 'count' },
+        ],
+      },
+    }, {
+      $addFields: { someBars: { $ifNull: [{ $arrayElemAt: ['$someBars.count', 0] }, 0] } },
+    }])
+  })
+
+  it('throws when generating $lookup stage with a sub-pipeline for an unknown field', () => {
+    assert.throws(() => lookupStageFactory(Foo.schema, { aString: { limit: 1 } }))
+  })
+
+  it('throws when looking up a model bound to a different connection', () => {
+    const Baz = Model({ model: 'Baz', collection: 'bazs', fields: { aBar: { type: ObjectId, ref: 'Bar' } } })
+
+    configureDb('baz', {
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test_baz',
+      models: { Baz },
+    })
+
+    assert.throws(() => lookupStageFactory(Baz.schema, { aBar: true }), ConnectionError)
+  })
+
+  it('throws when looking up a model that is not bound to a configured connection', () => {
+    const Qux = Model({ model: 'Qux', collection: 'quxs', connection: 'notAConnection', fields: { aFoo: { type: ObjectId, ref: 'Unknown' } } })
+    const Unknown = Model({ model: 'Unknown', collection: 'unknowns', fields: {} })
+
+    assert.throws(() => assertJoinableModels(Qux.schema, Unknown.schema), ConnectionError)
+    assert.throws(() => assertJoinableModels(Foo.schema, Unknown.schema), ConnectionError)
+  })
 })
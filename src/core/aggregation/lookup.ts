@@ -1,11 +1,15 @@
 import * as db from '../../index.js'
-import { type AnyProps } from '../../types/index.js'
+import { type AnyFilter, type AnyProps } from '../../types/index.js'
 import { fieldPath, prefixed } from '../../utils/index.js'
 import { type Schema } from '../Schema.js'
-
-export type UnwindStage = {
-  $unwind: Record<string, any>
-}
+import { type AddFieldsStage } from './addFields.js'
+import { countStageFactory } from './count.js'
+import { type Pipeline } from './index.js'
+import { limitStageFactory } from './limit.js'
+import { matchStageFactory } from './match.js'
+import { projectStageFactory, type ProjectStageFactorySpecs } from './project.js'
+import { sortStageFactory, type SortStageFactorySpecs } from './sort.js'
+import { type UnwindStage } from './unwind.js'
 
 export type LookupStage = {
   $lookup: Record<string, any>
@@ -36,13 +40,51 @@ export type LookupStageSingleFieldFactorySpecs = {
   /**
    * Specifies if the looked up field should be an array. Set this to `false` to
    * generate an `$unwind` stage following the `$lookup` stage in order to
-   * convert the results array to a single result.
+   * convert the results array to a single result. If unspecified, this
+   * defaults to `true` for fields typed as arrays (e.g. `[ObjectId]`) and
+   * `false` otherwise.
    */
   isArray?: boolean
 
+  /**
+   * Specifies the `pipeline` parameter of the `$lookup` stage, which is run on
+   * the looked up documents of the target collection.
+   */
+  pipeline?: Pipeline
+
+  /**
+   * Filter of the looked up documents, sanitized according to the schema of
+   * the target collection.
+   */
+  match?: AnyFilter
+
+  /**
+   * Sort order of the looked up documents.
+   */
+  sort?: SortStageFactorySpecs
+
+  /**
+   * Maximum number of looked up documents.
+   */
+  limit?: number
+
+  /**
+   * Specs of the `$project` stage applied to the looked up documents.
+   */
+  project?: ProjectStageFactorySpecs
+
+  /**
+   * Specifies if the looked up field should be the number of looked up
+   * documents instead of the documents themselves.
+   */
+  count?: boolean
+
   /**
    * Specifies the {@link LookupStageFactorySpecs} to apply to this field after
-   * the immediate is complete, to further look up nested reference fields.
+   * the immediate is complete, to further look up nested reference fields. If
+   * any of `match`, `sort`, `limit`, `project` or `count` is specified, the
+   * nested lookups are performed in the sub-pipeline of the `$lookup` stage
+   * instead.
    */
   lookup?: LookupStageFactorySpecs
 
@@ -70,6 +112,12 @@ export type LookupStageFactoryOptions = {
  * fields to look up. Each field will be unwinded accordingly so the result of
  * the new field is the looked up document(s) itself.
  *
+ * Specifying any of `match`, `sort`, `limit`, `project` or `count` for a field
+ * generates the `let`/`pipeline` form of the `$lookup` stage, where the looked
+ * up documents are joined in a sub-pipeline that further filters, sorts,
+ * limits, looks up and projects them. Count-only lookups replace the field
+ * with the number of looked up documents.
+ *
  * @param schema The schema of the database collection.
  * @param specs Look up specs for each field to look up, see
  *              {@link LookupStageFactorySpecs}.
@@ -97,6 +145,21 @@ export type LookupStageFactoryOptions = {
  *             { "$unwind": { "path": "$bar.subModel.subSubModel", "preserveNullAndEmptyArrays": true } }]
  * lookupStageFactory(schema, { subModel: { subSubModel: true } }, { fromPrefix: 'foo.', toPrefix: 'bar.' })
  *
+ * @example
+ * // Returns [{ "$lookup": { "from": "comments", "let": { "local": "$comments" }, "as": "comments", "pipeline": [
+ *                { "$match": { "$expr": { "$in": ["$_id", { "$ifNull": ["$$local", []] }] } } },
+ *                { "$match": { "active": true } },
+ *                { "$sort": { "createdAt": -1 } },
+ *                { "$limit": 5 }] } }]
+ * lookupStageFactory(schema, { comments: { match: { active: true }, sort: { createdAt: -1 }, limit: 5 } })
+ *
+ * @example
+ * // Returns [{ "$lookup": { "from": "comments", "let": { "local": "$comments" }, "as": "comments", "pipeline": [
+ *                { "$match": { "$expr": { "$in": ["$_id", { "$ifNull": ["$$local", []] }] } } },
+ *                { "$count": "count" }] } },
+ *             { "$addFields": { "comments": { "$ifNull": [{ "$arrayElemAt": ["$comments.count", 0] }, 0] } } }]
+ * lookupStageFactory(schema, { comments: { count: true } })
+ *
  * @see
  * {@link https://docs.mongodb.com/manual/reference/operator/aggregation/lookup/}
  * @see
@@ -104,13 +167,15 @@ export type LookupStageFactoryOptions = {
  *
  * @throws {Error} When there is an error generating the `$lookup` stage for a
  *                 field.
+ * @throws {ConnectionError} A referenced model is bound to a different
+ *                           connection.
  */
 export function lookupStageFactory<P extends AnyProps = AnyProps>(
   schema: Schema<P>,
   specs: LookupStageFactorySpecs,
   options: LookupStageFactoryOptions = {},
-): (LookupStage | UnwindStage)[] {
-  let out: (LookupStage | UnwindStage)[] = []
+): (LookupStage | UnwindStage | AddFieldsStage)[] {
+  let out: (LookupStage | UnwindStage | AddFieldsStage)[] = []
 
   for (const field in specs) {
     if (!{}.hasOwnProperty.call(specs, field)) continue
@@ -135,7 +200,7 @@ export function lookupStageFactory<P extends AnyProps = AnyProps>(
  * @param options Additional options, see {@link LookupStageFactoryOptions}.
  *
  * @returns An arbitrary pipeline containing the generated `$lookup` stage and
- *          `$unwind` stage (if applicable).
+ *          `$unwind` or `$addFields` stage (if applicable).
  *
  * @throws {Error} - When there is an error generating the `$lookup` stage.
  */
@@ -144,16 +209,22 @@ function lookupStageSingleFieldFactory<P extends AnyProps = AnyProps>(
   field: string,
   {
     as,
+    count,
     foreign,
     isArray,
+    limit,
     lookup,
+    match,
+    pipeline,
+    project,
+    sort,
   }: LookupStageSingleFieldFactorySpecs = {},
   {
     fromPrefix = '',
     toPrefix = '',
   }: LookupStageFactoryOptions = {},
-): (LookupStage | UnwindStage)[] {
-  let out: (LookupStage | UnwindStage)[] = []
+): (LookupStage | UnwindStage | AddFieldsStage)[] {
+  let out: (LookupStage | UnwindStage | AddFieldsStage)[] = []
 
   const fieldDescriptor = schema.fields[field]
   if (!fieldDescriptor) throw new Error(`Failed to generate $lookup stage: the field "${field}" does not exist in the schema for collection "${schema.collection}"`)
@@ -164,6 +235,50 @@ function lookupStageSingleFieldFactory<P extends AnyProps = AnyProps>(
   const targetSchema = db.getModel(targetModel).schema
   if (!targetSchema) throw new Error(`Failed to generate $lookup stage: unable to find the schema for to the reference model ${targetModel}.`)
 
+  db.assertJoinableModels(schema, targetSchema) // Throws
+
+  // Look up the reference field in a sub-pipeline if the looked up documents
+  // are further processed.
+  if (match !== undefined || sort !== undefined || limit !== undefined || project !== undefined || count === true) {
+    const join = fieldDescriptor.type instanceof Array ? { $in: [fieldPath(foreign ?? '_id'), { $ifNull: ['$$local', []] }] } : { $eq: [fieldPath(foreign ?? '_id'), '$$local'] }
+
+    out.push({
+      $lookup: {
+        as: prefixed(as ?? field, toPrefix),
+        from: `${targetSchema.collection}`,
+        let: { local: fieldPath(field, fromPrefix) },
+        pipeline: [
+          { $match: { $expr: join } },
+          ...match !== undefined ? matchStageFactory(targetSchema, match) : [],
+          ...sort !== undefined ? sortStageFactory(targetSchema, sort) : [],
+          ...limit !== undefined ? limitStageFactory(targetSchema, limit) : [],
+          ...lookup && count !== true ? lookupStageFactory(targetSchema, lookup) : [],
+          ...project !== undefined && count !== true ? projectStageFactory(targetSchema, project) : [],
+          ...pipeline ?? [],
+          ...count === true ? countStageFactory(targetSchema, 'count') : [],
+        ],
+      },
+    })
+
+    if (count === true) {
+      out.push({
+        $addFields: {
+          [prefixed(as ?? field, toPrefix)]: { $ifNull: [{ $arrayElemAt: [fieldPath('count', prefixed(as ?? field, toPrefix)), 0] }, 0] },
+        },
+      })
+    }
+    else if ((isArray ?? fieldDescriptor.type instanceof Array) !== true) {
+      out.push({
+        $unwind: {
+          path: fieldPath(as ?? field, toPrefix),
+          preserveNullAndEmptyArrays: true,
+        },
+      })
+    }
+
+    return out
+  }
+
   // Look up the reference field.
   out.push({
     $lookup: {
@@ -171,11 +286,12 @@ function lookupStageSingleFieldFactory<P extends AnyProps = AnyProps>(
       foreignField: foreign ?? '_id',
       from: `${targetSchema.collection}`,
       localField: prefixed(field, fromPrefix),
+      ...pipeline ? { pipeline } : {},
     },
   })
 
   // Unwind the results of the lookup if applicable.
-  if (isArray !== true) {
+  if ((isArray ?? fieldDescriptor.type instanceof Array) !== true) {
     out.push({
       $unwind: {
         path: fieldPath(as ?? field, toPrefix),
@@ -2,6 +2,7 @@ import assert from 'assert'
 import { describe } from 'mocha'
 import { ObjectId } from 'mongodb'
 import { Bar } from '../../__mocks__/models.js'
+import { ValidationError } from '../../errors/index.js'
 import { configureDb } from '../../index.js'
 import { typeIsValidObjectId } from '../../utils/index.js'
 import { matchStageFactory } from './match.js'
@@ -26,4 +27,9 @@ describe('core/aggregation/match', () => {
     assert(typeIsValidObjectId(actual[0].$match._id))
     assert(expected[0].$match._id.equals(actual[0].$match._id))
   })
+
+  it('rejects fields that are not specified in the schema unless not strict', () => {
+    assert.throws(() => matchStageFactory(Bar.schema, { notAField: 1 } as any), ValidationError)
+    assert.deepStrictEqual(matchStageFactory(Bar.schema, { notAField: 1 } as any, { strict: false }), [{ $match: { notAField: 1 } }])
+  })
 })
@@ -13,6 +13,12 @@ export type MatchStageFactoryOptions = {
    * Prefix to prepend to fields in the `$match` stage specifications.
    */
   toPrefix?: string
+
+  /**
+   * If set to `false`, fields that are not specified in the schema are kept as
+   * is instead of raising a `ValidationError`. Defaults to `true`.
+   */
+  strict?: boolean
 }
 
 /**
@@ -46,9 +52,10 @@ export function matchStageFactory<P extends AnyProps = AnyProps>(
   schema: Schema<P>,
   specs: MatchStageFactorySpecs<P>, {
     toPrefix = '',
+    strict = true,
   }: MatchStageFactoryOptions = {},
 ): [MatchStage] {
-  const sanitized = sanitizeFilter(schema, specs, { strict: false })
+  const sanitized = sanitizeFilter(schema, specs, { strict })
   const filter: Record<string, any> = {}
 
   for (const key in sanitized) {
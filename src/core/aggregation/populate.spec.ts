@@ -0,0 +1,48 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Bar, Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { populateStageFactory } from './populate.js'
+import { projectStageFactory } from './project.js'
+
+describe('core/aggregation/populate', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo, Bar },
+    })
+  })
+
+  it('can generate stages to populate reference fields', () => {
+    assert.deepStrictEqual(populateStageFactory(Foo.schema, { aBar: true, someBars: true }), [{
+      $lookup: { from: 'bars', localField: 'aBar', foreignField: '_id', as: 'aBar', pipeline: projectStageFactory(Bar.schema) },
+    }, {
+      $unwind: { path: '$aBar', preserveNullAndEmptyArrays: true },
+    }, {
+      $lookup: { from: 'bars', localField: 'someBars', foreignField: '_id', as: 'someBars', pipeline: projectStageFactory(Bar.schema) },
+    }])
+  })
+
+  it('can generate stages to populate nested reference fields', () => {
+    assert.deepStrictEqual(populateStageFactory(Foo.schema, { aBar: { populate: { aBar: true } }, aFoo: false }), [{
+      $lookup: {
+        from: 'bars',
+        localField: 'aBar',
+        foreignField: '_id',
+        as: 'aBar',
+        pipeline: [
+          ...projectStageFactory(Bar.schema),
+          { $lookup: { from: 'bars', localField: 'aBar', foreignField: '_id', as: 'aBar', pipeline: projectStageFactory(Bar.schema) } },
+          { $unwind: { path: '$aBar', preserveNullAndEmptyArrays: true } },
+        ],
+      },
+    }, {
+      $unwind: { path: '$aBar', preserveNullAndEmptyArrays: true },
+    }])
+  })
+
+  it('throws if a field to populate is not a reference field', () => {
+    assert.throws(() => populateStageFactory(Foo.schema, { aString: true }))
+  })
+})
@@ -0,0 +1,99 @@
+import * as db from '../../index.js'
+import { type AnyProps, type Document } from '../../types/index.js'
+import { type Schema } from '../Schema.js'
+import { type AddFieldsStage } from './addFields.js'
+import { lookupStageFactory, type LookupStage } from './lookup.js'
+import { projectStageFactory } from './project.js'
+import { type UnwindStage } from './unwind.js'
+
+/**
+ * Defines reference fields to populate in the {@link populateStageFactory}
+ * method. The keys must be reference fields (i.e. fields with a `ref`) of the
+ * schema. The accepted values of the keys are `true` or a
+ * {@link PopulateStageSingleFieldFactorySpecs} object that specifies how the
+ * populated documents are further populated. If the value is `false`, the
+ * field is not populated.
+ */
+export type PopulateStageFactorySpecs<P extends AnyProps = AnyProps> = { [K in keyof P]?: boolean | PopulateStageSingleFieldFactorySpecs }
+
+/**
+ * Specifies how a single populated reference field is further populated.
+ */
+export type PopulateStageSingleFieldFactorySpecs = {
+  /**
+   * Specifies the {@link PopulateStageFactorySpecs} to apply to the populated
+   * documents, to further populate their own reference fields.
+   */
+  populate?: PopulateStageFactorySpecs
+}
+
+/**
+ * Props of a document whose reference fields specified in `S` are populated,
+ * i.e. the `ObjectId`s are replaced by the referenced documents.
+ */
+export type Populated<P extends AnyProps, S> = { [K in keyof P]: K extends PopulatedKeys<S> ? PopulatedValue<P[K]> : P[K] }
+
+type PopulatedKeys<S> = { [K in keyof S]-?: S[K] extends false | undefined ? never : K }[keyof S]
+
+type PopulatedValue<V> = V extends readonly unknown[] ? Document[] : V extends undefined | null ? V : Document
+
+/**
+ * Generates a series of `$lookup`, `$project` and (if needed) `$unwind` stages
+ * for a collection to be used in an aggregation pipeline, replacing each
+ * specified reference field with the referenced document(s). Reference fields
+ * typed as arrays (e.g. `[ObjectId]`) are populated with an array of
+ * documents. The populated documents are projected according to their own
+ * schema.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Populate specs for each field to populate, see
+ *              {@link PopulateStageFactorySpecs}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated stages.
+ *
+ * @example
+ * // Returns [{ "$lookup": { "from": "bars", "localField": "aBar", "foreignField": "_id", "as": "aBar", "pipeline": [{ "$project": { ... } }] } },
+ *             { "$unwind": { "path": "$aBar", "preserveNullAndEmptyArrays": true } }]
+ * populateStageFactory(schema, { aBar: true })
+ *
+ * @example
+ * // Returns [{ "$lookup": { "from": "bars", "localField": "aBar", "foreignField": "_id", "as": "aBar", "pipeline": [{ "$project": { ... } },
+ *                                                                                                                       { "$lookup": { "from": "bars", "localField": "aBar", ... } },
+ *                                                                                                                       { "$unwind": { "path": "$aBar", ... } }] } },
+ *             { "$unwind": { "path": "$aBar", "preserveNullAndEmptyArrays": true } }]
+ * populateStageFactory(schema, { aBar: { populate: { aBar: true } } })
+ *
+ * @throws {Error} When there is an error generating the stages for a field.
+ * @throws {ConnectionError} A referenced model is bound to a different
+ *                           connection.
+ */
+export function populateStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  specs: PopulateStageFactorySpecs<P>,
+): (LookupStage | UnwindStage | AddFieldsStage)[] {
+  let out: (LookupStage | UnwindStage | AddFieldsStage)[] = []
+
+  for (const field in specs) {
+    if (!{}.hasOwnProperty.call(specs, field)) continue
+
+    const spec = specs[field]
+    if (spec === undefined || spec === false) continue
+
+    const targetModel = schema.fields[field]?.ref
+    if (!targetModel) throw new Error(`Failed to populate: the field "${field}" does not have a reference model specified in the schema for collection "${schema.collection}"`)
+
+    const targetSchema = db.getModel(targetModel).schema
+    const populate = spec === true ? undefined : spec.populate
+
+    out = out.concat(lookupStageFactory(schema, {
+      [field]: {
+        pipeline: [
+          ...projectStageFactory(targetSchema),
+          ...populate ? populateStageFactory(targetSchema, populate) : [],
+        ],
+      },
+    })) // Throws
+  }
+
+  return out
+}
@@ -1,5 +1,5 @@
 import * as db from '../../index.js'
-import { type AnyProps } from '../../types/index.js'
+import { type AnyProps, type Document } from '../../types/index.js'
 import { fieldPath, prefixed } from '../../utils/index.js'
 import { type Schema } from '../Schema.js'
 
@@ -43,6 +43,24 @@ export type ProjectStageFactoryOptions = {
   exclude?: string[]
 }
 
+/**
+ * Selection of fields of a document, where each key is a field and the value
+ * specifies whether the field is included (`1` or `true`) or excluded (`0` or
+ * `false`). Inclusions and exclusions cannot be mixed, except for excluding
+ * `_id`.
+ */
+export type FieldSelection<P extends AnyProps = AnyProps> = { [K in keyof Document<P>]?: 0 | 1 | boolean }
+
+/**
+ * Narrows the type of a document `D` to the fields selected by `F`, see
+ * {@link FieldSelection}.
+ */
+export type Selected<D extends AnyProps, F> = [SelectionKeys<F, 1 | true>] extends [never] ?
+  [SelectionKeys<F, 0 | false>] extends [never] ? D : Omit<D, SelectionKeys<F, 0 | false>> :
+  Pick<D, Extract<SelectionKeys<F, 1 | true> | (F extends { _id: 0 | false } ? never : '_id'), keyof D>>
+
+type SelectionKeys<F, V> = { [K in keyof F]-?: F[K] extends V ? K : never }[keyof F]
+
 type ProjectStageFactoryPopulateOptions = {
   [modelName: string]: boolean | ProjectStageFactoryPopulateOptions
 }
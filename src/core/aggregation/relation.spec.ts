@@ -0,0 +1,69 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Bar, Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { projectStageFactory } from './project.js'
+import { relationStageFactory } from './relation.js'
+
+describe('core/aggregation/relation', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo, Bar },
+    })
+  })
+
+  it('can generate stages to load relations defined in the schema', () => {
+    assert.deepStrictEqual(relationStageFactory(Bar.schema, { foos: true }), [{
+      $lookup: {
+        from: 'foos',
+        let: { local: '$_id' },
+        as: 'foos',
+        pipeline: [
+          { $match: { $expr: { $or: [{ $eq: ['$aBar', '$$local'] }, { $in: ['$$local', { $ifNull: ['$someBars', []] }] }] } } },
+          ...projectStageFactory(Foo.schema),
+        ],
+      },
+    }])
+  })
+
+  it('can generate stages to load inline relations', () => {
+    assert.deepStrictEqual(relationStageFactory(Bar.schema, { foos: { model: Foo, field: 'aBar', match: { aNumber: 1 }, sort: { aNumber: -1 }, limit: 5, project: { aString: 1 } } }, { toPrefix: 'bar' }), [{
+      $lookup: {
+        from: 'foos',
+        let: { local: '$bar._id' },
+        as: 'bar.foos',
+        pipeline: [
+          { $match: { $expr: { $eq: ['$aBar', '$$local'] } } },
+          { $match: { aNumber: 1 } },
+          { $sort: { aNumber: -1 } },
+          { $limit: 5 },
+          { $project: { aString: 1 } },
+        ],
+      },
+    }])
+  })
+
+  it('can generate stages to count related documents', () => {
+    assert.deepStrictEqual(relationStageFactory(Bar.schema, { numberOfFoos: { model: 'Foo', field: 'someBars', count: true }, foos: false }), [{
+      $lookup: {
+        from: 'foos',
+        let: { local: '$_id' },
+        as: 'numberOfFoos',
+        pipeline: [
+          { $match: { $expr: { $in: ['$$local', { $ifNull: ['$someBars', []] }] } } },
+          { $count: 'count' },
+        ],
+      },
+    }, {
+      $addFields: { numberOfFoos: { $ifNull: [{ $arrayElemAt: ['$numberOfFoos.count', 0] }, 0] } },
+    }])
+  })
+
+  it('throws when the relation is not defined or invalid', () => {
+    assert.throws(() => relationStageFactory(Bar.schema, { bars: true }))
+    assert.throws(() => relationStageFactory(Bar.schema, { foos: { field: 'aString' } }))
+    assert.throws(() => relationStageFactory(Foo.schema, { bars: { model: 'Bar' } }))
+  })
+})
@@ -0,0 +1,175 @@
+import * as db from '../../index.js'
+import { type AnyFilter, type AnyProps, type Document } from '../../types/index.js'
+import { fieldPath, prefixed } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+import { type AddFieldsStage } from './addFields.js'
+import { countStageFactory } from './count.js'
+import { limitStageFactory } from './limit.js'
+import { type LookupStage } from './lookup.js'
+import { matchStageFactory } from './match.js'
+import { projectStageFactory, type ProjectStageFactorySpecs } from './project.js'
+import { sortStageFactory, type SortStageFactorySpecs } from './sort.js'
+
+/**
+ * Defines virtual inverse (has-many) relations to load in the
+ * {@link relationStageFactory} method, where each key is the name of the
+ * relation. The accepted values of the keys are `true` to load a relation
+ * defined in the `relations` of the schema, or a
+ * {@link RelationStageSingleFieldFactorySpecs} object that overrides (or, if
+ * the relation is not defined in the schema, declares) the relation. If the
+ * value is `false`, the relation is not loaded.
+ */
+export type RelationStageFactorySpecs = Record<string, boolean | RelationStageSingleFieldFactorySpecs>
+
+/**
+ * Specifies how a single relation is loaded.
+ */
+export type RelationStageSingleFieldFactorySpecs<R extends AnyProps = AnyProps> = {
+  /**
+   * The related model, either its name or the model itself. Specify the model
+   * itself to type the related documents accordingly.
+   */
+  model?: string | { schema: Schema<R> }
+
+  /**
+   * Reference field of the related model pointing to this collection. If
+   * unspecified, all fields of the related model with a `ref` to this model
+   * are considered.
+   */
+  field?: string
+
+  /**
+   * Filter of the related documents.
+   */
+  match?: AnyFilter
+
+  /**
+   * Sort order of the related documents.
+   */
+  sort?: SortStageFactorySpecs
+
+  /**
+   * Maximum number of related documents.
+   */
+  limit?: number
+
+  /**
+   * Specs of the `$project` stage applied to the related documents. If
+   * unspecified, the related documents are projected according to their own
+   * schema.
+   */
+  project?: ProjectStageFactorySpecs
+
+  /**
+   * Specifies if only the number of related documents is loaded instead of
+   * the documents themselves.
+   */
+  count?: boolean
+}
+
+export type RelationStageFactoryOptions = {
+  /**
+   * Prefix of the documents holding the relations.
+   */
+  toPrefix?: string
+}
+
+/**
+ * Type of a document `D` with the relations specified in `L` loaded, see
+ * {@link RelationStageFactorySpecs}.
+ */
+export type Related<D, L> = [RelatedKeys<L>] extends [never] ? D : Flatten<D & { -readonly [K in RelatedKeys<L>]: RelatedValue<L[K]> }>
+
+type RelatedKeys<L> = { [K in keyof L]-?: L[K] extends false | undefined ? never : K }[keyof L]
+
+type RelatedValue<S> = S extends { count: true } ? number : S extends { model: { schema: Schema<infer R> } } ? Document<R>[] : Document[]
+
+type Flatten<T> = { [K in keyof T]: T[K] }
+
+/**
+ * Generates a `$lookup` stage (followed by an `$addFields` stage for
+ * count-only relations) for each virtual inverse relation to load, where the
+ * documents of the related model referencing the document via any of their
+ * reference fields are joined into a field named after the relation. The
+ * reference fields are discovered by scanning the fields of the related model
+ * for a `ref` to this model, unless a field is specified.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs for each relation to load, see
+ *              {@link RelationStageFactorySpecs}.
+ * @param options Additional options, see {@link RelationStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated stages.
+ *
+ * @example
+ * // Returns [{ "$lookup": { "from": "foos", "let": { "local": "$_id" }, "as": "foos", "pipeline": [
+ *                { "$match": { "$expr": { "$or": [{ "$eq": ["$aBar", "$$local"] }, { "$in": ["$$local", { "$ifNull": ["$someBars", []] }] }] } } },
+ *                { "$sort": { "aNumber": -1 } },
+ *                { "$limit": 5 },
+ *                { "$project": { ... } }] } }]
+ * relationStageFactory(schema, { foos: { model: 'Foo', sort: { aNumber: -1 }, limit: 5 } })
+ *
+ * @throws {Error} The relation is not defined or the related model has no
+ *                 reference field pointing to this model.
+ * @throws {ConnectionError} The related model is bound to a different
+ *                           connection.
+ */
+export function relationStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  specs: RelationStageFactorySpecs,
+  {
+    toPrefix = '',
+  }: RelationStageFactoryOptions = {},
+): (LookupStage | AddFieldsStage)[] {
+  const out: (LookupStage | AddFieldsStage)[] = []
+
+  for (const name in specs) {
+    if (!{}.hasOwnProperty.call(specs, name)) continue
+
+    const spec = specs[name]
+    if (spec === false) continue
+
+    const { model, field, match, sort, limit, project, count } = { ...schema.relations?.[name], ...spec === true ? {} : spec }
+    if (model === undefined) throw new Error(`Failed to generate relation stages: the relation "${name}" is not defined in the schema for collection "${schema.collection}"`)
+
+    const targetSchema = typeof model === 'string' ? db.getModel(model).schema : model.schema
+    db.assertJoinableModels(schema, targetSchema) // Throws
+
+    const keys = field !== undefined ? [field] : Object.keys(targetSchema.fields).filter(key => targetSchema.fields[key].ref === schema.model)
+    if (keys.length === 0) throw new Error(`Failed to generate relation stages: the model "${targetSchema.model}" has no reference field pointing to the model "${schema.model}"`)
+
+    const joins = keys.map(key => {
+      const fieldDescriptor = targetSchema.fields[key]
+      if (fieldDescriptor?.ref !== schema.model) throw new Error(`Failed to generate relation stages: the field "${key}" of the model "${targetSchema.model}" does not reference the model "${schema.model}"`)
+
+      return fieldDescriptor.type instanceof Array ? { $in: ['$$local', { $ifNull: [fieldPath(key), []] }] } : { $eq: [fieldPath(key), '$$local'] }
+    })
+
+    const as = prefixed(name, toPrefix)
+
+    out.push({
+      $lookup: {
+        as,
+        from: `${targetSchema.collection}`,
+        let: { local: fieldPath('_id', toPrefix) },
+        pipeline: [
+          { $match: { $expr: joins.length === 1 ? joins[0] : { $or: joins } } },
+          ...match !== undefined ? matchStageFactory(targetSchema, match) : [],
+          ...sort !== undefined ? sortStageFactory(targetSchema, sort) : [],
+          ...limit !== undefined ? limitStageFactory(targetSchema, limit) : [],
+          ...count === true ? countStageFactory(targetSchema, 'count') : projectStageFactory(targetSchema, project),
+        ],
+      },
+    })
+
+    if (count === true) {
+      out.push({
+        $addFields: {
+          [as]: { $ifNull: [{ $arrayElemAt: [fieldPath('count', as), 0] }, 0] },
+        },
+      })
+    }
+  }
+
+  return out
+}
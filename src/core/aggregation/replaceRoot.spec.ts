@@ -0,0 +1,27 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { replaceRootStageFactory } from './replaceRoot.js'
+
+describe('core/aggregation/replaceRoot', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $replaceRoot stage', () => {
+    assert.deepStrictEqual(replaceRootStageFactory(Foo.schema, 'anObject', { fromPrefix: 'foo' }), [{ $replaceRoot: { newRoot: '$foo.anObject' } }])
+    assert.deepStrictEqual(replaceRootStageFactory(Foo.schema, { $mergeObjects: [{ aString: '' }, '$anObject.foo'] }), [{
+      $replaceRoot: { newRoot: { $mergeObjects: [{ aString: '' }, '$anObject.foo'] } },
+    }])
+  })
+
+  it('throws if a referenced field does not exist in the schema', () => {
+    assert.throws(() => replaceRootStageFactory(Foo.schema, 'garbage'))
+    assert.throws(() => replaceRootStageFactory(Foo.schema, { $mergeObjects: ['$garbage'] }))
+  })
+})
@@ -0,0 +1,61 @@
+import { type AnyProps } from '../../types/index.js'
+import { fieldPath, resolveFieldReferences, schemaHasFieldPath } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+
+export type ReplaceRootStage = {
+  $replaceRoot: { newRoot: any }
+}
+
+/**
+ * Specs that define the `$replaceRoot` stage. If this is a string, it is the
+ * embedded document field to promote to the root, otherwise it is the
+ * expression of the new root document.
+ */
+export type ReplaceRootStageFactorySpecs = string | Record<string, any>
+
+export type ReplaceRootStageFactoryOptions = {
+  /**
+   * Prefix of the referenced fields.
+   */
+  fromPrefix?: string
+}
+
+/**
+ * Generates a `$replaceRoot` stage for a collection to be used in an
+ * aggregation pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs that define the `$replaceRoot` stage.
+ * @param options Additional options, see
+ *                {@link ReplaceRootStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated
+ *          `$replaceRoot` stage.
+ *
+ * @example
+ * // Returns [{ "$replaceRoot": { "newRoot": "$anObject" } }]
+ * replaceRootStageFactory(schema, 'anObject')
+ *
+ * @example
+ * // Returns [{ "$replaceRoot": { "newRoot": { "$mergeObjects": [{ "aString": "" }, "$anObject"] } } }]
+ * replaceRootStageFactory(schema, { $mergeObjects: [{ aString: '' }, '$anObject'] })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/replaceRoot/}
+ *
+ * @throws {Error} A referenced field does not exist in the schema.
+ */
+export function replaceRootStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  specs: ReplaceRootStageFactorySpecs, {
+    fromPrefix = '',
+  }: ReplaceRootStageFactoryOptions = {},
+): [ReplaceRootStage] {
+  if (typeof specs === 'string') {
+    if (!schemaHasFieldPath(schema, specs)) throw new Error(`Failed to generate $replaceRoot stage: the field "${specs}" does not exist in the schema for collection "${schema.collection}"`)
+
+    return [{ $replaceRoot: { newRoot: fieldPath(specs, fromPrefix) } }]
+  }
+  else {
+    return [{ $replaceRoot: { newRoot: resolveFieldReferences(schema, specs, fromPrefix) } }] // Throws
+  }
+}
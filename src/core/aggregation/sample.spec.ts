@@ -0,0 +1,23 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { sampleStageFactory } from './sample.js'
+
+describe('core/aggregation/sample', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $sample stage', () => {
+    assert.deepStrictEqual(sampleStageFactory(Foo.schema, 5), [{ $sample: { size: 5 } }])
+  })
+
+  it('throws if the size is not a positive integer', () => {
+    assert.throws(() => sampleStageFactory(Foo.schema, 0))
+  })
+})
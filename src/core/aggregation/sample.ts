@@ -0,0 +1,34 @@
+import { type AnyProps } from '../../types/index.js'
+import { type Schema } from '../Schema.js'
+
+export type SampleStage = {
+  $sample: { size: number }
+}
+
+/**
+ * Generates a `$sample` stage for a collection to be used in an aggregation
+ * pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param size The number of documents to randomly select, must be a positive
+ *             integer.
+ *
+ * @returns An abstract aggregation pipeline containing the generated `$sample`
+ *          stage.
+ *
+ * @example
+ * // Returns [{ "$sample": { "size": 1 } }]
+ * sampleStageFactory(schema, 1)
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/sample/}
+ *
+ * @throws {Error} The size is not a positive integer.
+ */
+export function sampleStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  size: number,
+): [SampleStage] {
+  if (!Number.isInteger(size) || size < 1) throw new Error(`Failed to generate $sample stage: the size must be a positive integer, got ${size}`)
+
+  return [{ $sample: { size } }]
+}
@@ -0,0 +1,25 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { setStageFactory } from './set.js'
+
+describe('core/aggregation/set', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $set stage', () => {
+    assert.deepStrictEqual(setStageFactory(Foo.schema, { total: { $add: ['$aNumber', 1] } }, { toPrefix: 'bar' }), [{
+      $set: { 'bar.total': { $add: ['$aNumber', 1] } },
+    }])
+  })
+
+  it('throws if a referenced field does not exist in the schema', () => {
+    assert.throws(() => setStageFactory(Foo.schema, { total: '$garbage' }))
+  })
+})
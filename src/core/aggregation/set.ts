@@ -0,0 +1,41 @@
+import { type AnyProps } from '../../types/index.js'
+import { type Schema } from '../Schema.js'
+import { addFieldsStageFactory, type AddFieldsStageFactoryOptions, type AddFieldsStageFactorySpecs } from './addFields.js'
+
+export type SetStage = {
+  $set: Record<string, any>
+}
+
+export type SetStageFactorySpecs = AddFieldsStageFactorySpecs
+
+export type SetStageFactoryOptions = AddFieldsStageFactoryOptions
+
+/**
+ * Generates a `$set` stage (an alias of `$addFields`) for a collection to be
+ * used in an aggregation pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs that define the `$set` stage.
+ * @param options Additional options, see {@link SetStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated `$set`
+ *          stage.
+ *
+ * @example
+ * // Returns [{ "$set": { "total": { "$add": ["$aNumber", 1] } } }]
+ * setStageFactory(schema, { total: { $add: ['$aNumber', 1] } })
+ *
+ * @see {@link addFieldsStageFactory}
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/set/}
+ *
+ * @throws {Error} A referenced field does not exist in the schema.
+ */
+export function setStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  specs: SetStageFactorySpecs,
+  options: SetStageFactoryOptions = {},
+): [SetStage] {
+  const [{ $addFields }] = addFieldsStageFactory(schema, specs, options) // Throws
+
+  return [{ $set: $addFields }]
+}
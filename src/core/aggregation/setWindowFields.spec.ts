@@ -0,0 +1,34 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { setWindowFieldsStageFactory } from './setWindowFields.js'
+
+describe('core/aggregation/setWindowFields', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $setWindowFields stage', () => {
+    assert.deepStrictEqual(setWindowFieldsStageFactory(Foo.schema, {
+      partitionBy: '$aString',
+      sortBy: { aNumber: 1 },
+      output: { total: { $sum: '$aNumber', window: { documents: ['unbounded', 'current'] } } },
+    }, { fromPrefix: 'foo', toPrefix: 'bar' }), [{
+      $setWindowFields: {
+        partitionBy: '$foo.aString',
+        sortBy: { 'foo.aNumber': 1 },
+        output: { 'bar.total': { $sum: '$foo.aNumber', window: { documents: ['unbounded', 'current'] } } },
+      },
+    }])
+  })
+
+  it('throws if a referenced field does not exist in the schema', () => {
+    assert.throws(() => setWindowFieldsStageFactory(Foo.schema, { sortBy: { garbage: 1 }, output: {} }))
+    assert.throws(() => setWindowFieldsStageFactory(Foo.schema, { output: { total: { $sum: '$garbage' } } }))
+  })
+})
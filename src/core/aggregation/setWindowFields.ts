@@ -0,0 +1,105 @@
+import { type SortDirection } from 'mongodb'
+import { type AnyProps } from '../../types/index.js'
+import { prefixed, resolveFieldReferences, schemaHasFieldPath } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+
+export type SetWindowFieldsStage = {
+  $setWindowFields: {
+    partitionBy?: any
+    sortBy?: Record<string, SortDirection>
+    output: Record<string, any>
+  }
+}
+
+/**
+ * Specs that define the `$setWindowFields` stage.
+ */
+export type SetWindowFieldsStageFactorySpecs = {
+  /**
+   * Expression to partition documents by, i.e. a field path such as
+   * `"$aString"`.
+   */
+  partitionBy?: any
+
+  /**
+   * Fields to sort documents by within each partition.
+   */
+  sortBy?: Record<string, SortDirection>
+
+  /**
+   * Fields to add, as window operator expressions.
+   */
+  output: Record<string, any>
+}
+
+export type SetWindowFieldsStageFactoryOptions = {
+  /**
+   * Prefix of the referenced fields.
+   */
+  fromPrefix?: string
+
+  /**
+   * Prefix of the output fields.
+   */
+  toPrefix?: string
+}
+
+/**
+ * Generates a `$setWindowFields` stage for a collection to be used in an
+ * aggregation pipeline. Field path references in the expressions and the sort
+ * fields are verified against the schema.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs that define the `$setWindowFields` stage.
+ * @param options Additional options, see
+ *                {@link SetWindowFieldsStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated
+ *          `$setWindowFields` stage.
+ *
+ * @example
+ * // Returns [{ "$setWindowFields": { "partitionBy": "$aString", "sortBy": { "aNumber": 1 }, "output": { "total": { "$sum": "$aNumber", "window": { "documents": ["unbounded", "current"] } } } } }]
+ * setWindowFieldsStageFactory(schema, {
+ *   partitionBy: '$aString',
+ *   sortBy: { aNumber: 1 },
+ *   output: { total: { $sum: '$aNumber', window: { documents: ['unbounded', 'current'] } } },
+ * })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/setWindowFields/}
+ *
+ * @throws {Error} A referenced field does not exist in the schema.
+ */
+export function setWindowFieldsStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  {
+    partitionBy,
+    sortBy,
+    output,
+  }: SetWindowFieldsStageFactorySpecs, {
+    fromPrefix = '',
+    toPrefix = '',
+  }: SetWindowFieldsStageFactoryOptions = {},
+): [SetWindowFieldsStage] {
+  const sort: Record<string, SortDirection> = {}
+  const out: Record<string, any> = {}
+
+  for (const key in sortBy) {
+    if (!{}.hasOwnProperty.call(sortBy, key)) continue
+    if (!schemaHasFieldPath(schema, key)) throw new Error(`Failed to generate $setWindowFields stage: the field "${key}" does not exist in the schema for collection "${schema.collection}"`)
+
+    sort[prefixed(key, fromPrefix)] = sortBy[key]
+  }
+
+  for (const key in output) {
+    if (!{}.hasOwnProperty.call(output, key)) continue
+    out[prefixed(key, toPrefix)] = resolveFieldReferences(schema, output[key], fromPrefix) // Throws
+  }
+
+  return [{
+    $setWindowFields: {
+      ...partitionBy === undefined ? {} : { partitionBy: resolveFieldReferences(schema, partitionBy, fromPrefix) }, // Throws
+      ...sortBy === undefined ? {} : { sortBy: sort },
+      output: out,
+    },
+  }]
+}
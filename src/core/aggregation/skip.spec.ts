@@ -0,0 +1,24 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { skipStageFactory } from './skip.js'
+
+describe('core/aggregation/skip', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $skip stage', () => {
+    assert.deepStrictEqual(skipStageFactory(Foo.schema, 0), [{ $skip: 0 }])
+    assert.deepStrictEqual(skipStageFactory(Foo.schema, 10), [{ $skip: 10 }])
+  })
+
+  it('throws if the number of documents to skip is not a non-negative integer', () => {
+    assert.throws(() => skipStageFactory(Foo.schema, -1))
+  })
+})
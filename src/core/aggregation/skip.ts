@@ -0,0 +1,34 @@
+import { type AnyProps } from '../../types/index.js'
+import { type Schema } from '../Schema.js'
+
+export type SkipStage = {
+  $skip: number
+}
+
+/**
+ * Generates a `$skip` stage for a collection to be used in an aggregation
+ * pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param skip The number of documents to skip, must be a non-negative integer.
+ *
+ * @returns An abstract aggregation pipeline containing the generated `$skip`
+ *          stage.
+ *
+ * @example
+ * // Returns [{ "$skip": 10 }]
+ * skipStageFactory(schema, 10)
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/skip/}
+ *
+ * @throws {Error} The number of documents to skip is not a non-negative
+ *                 integer.
+ */
+export function skipStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  skip: number,
+): [SkipStage] {
+  if (!Number.isInteger(skip) || skip < 0) throw new Error(`Failed to generate $skip stage: the number of documents to skip must be a non-negative integer, got ${skip}`)
+
+  return [{ $skip: skip }]
+}
@@ -0,0 +1,26 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Bar, Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { unionWithStageFactory } from './unionWith.js'
+
+describe('core/aggregation/unionWith', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Bar, Foo },
+    })
+  })
+
+  it('can generate $unionWith stage', () => {
+    assert.deepStrictEqual(unionWithStageFactory(Foo.schema, 'Bar'), [{ $unionWith: { coll: 'bars' } }])
+    assert.deepStrictEqual(unionWithStageFactory(Foo.schema, { model: 'Bar', pipeline: [{ $limit: 10 }] }), [{
+      $unionWith: { coll: 'bars', pipeline: [{ $limit: 10 }] },
+    }])
+  })
+
+  it('throws if the model is not registered', () => {
+    assert.throws(() => unionWithStageFactory(Foo.schema, 'Garbage'))
+  })
+})
@@ -0,0 +1,63 @@
+import * as db from '../../index.js'
+import { type AnyProps } from '../../types/index.js'
+import { type Schema } from '../Schema.js'
+import { type Pipeline } from './index.js'
+
+export type UnionWithStage = {
+  $unionWith: {
+    coll: string
+    pipeline?: Pipeline
+  }
+}
+
+/**
+ * Specs that define the `$unionWith` stage. If this is a string, it is the
+ * name of the model whose collection to combine the results with.
+ */
+export type UnionWithStageFactorySpecs = string | {
+  /**
+   * Name of the model whose collection to combine the results with.
+   */
+  model: string
+
+  /**
+   * Pipeline to run on the documents of the collection of the model before
+   * combining them with the results.
+   */
+  pipeline?: Pipeline
+}
+
+/**
+ * Generates a `$unionWith` stage for a collection to be used in an
+ * aggregation pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs that define the `$unionWith` stage.
+ *
+ * @returns An abstract aggregation pipeline containing the generated
+ *          `$unionWith` stage.
+ *
+ * @example
+ * // Returns [{ "$unionWith": { "coll": "bars", "pipeline": [{ "$limit": 10 }] } }]
+ * unionWithStageFactory(schema, { model: 'Bar', pipeline: limitStageFactory(Bar.schema, 10) })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/unionWith/}
+ *
+ * @throws {Error} The model is not registered.
+ * @throws {ConnectionError} The model is bound to a different connection.
+ */
+export function unionWithStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  specs: UnionWithStageFactorySpecs,
+): [UnionWithStage] {
+  const { model, pipeline } = typeof specs === 'string' ? { model: specs, pipeline: undefined } : specs
+  const targetSchema = db.getModel(model).schema // Throws
+  db.assertJoinableModels(schema, targetSchema) // Throws
+
+  return [{
+    $unionWith: {
+      coll: targetSchema.collection,
+      ...pipeline === undefined ? {} : { pipeline },
+    },
+  }]
+}
@@ -0,0 +1,26 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { unsetStageFactory } from './unset.js'
+
+describe('core/aggregation/unset', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $unset stage', () => {
+    assert.deepStrictEqual(unsetStageFactory(Foo.schema, 'aString'), [{ $unset: ['aString'] }])
+    assert.deepStrictEqual(unsetStageFactory(Foo.schema, ['aString', 'anObject.foo', 'createdAt'], { fromPrefix: 'foo' }), [{
+      $unset: ['foo.aString', 'foo.anObject.foo', 'foo.createdAt'],
+    }])
+  })
+
+  it('throws if a field to remove does not exist in the schema', () => {
+    assert.throws(() => unsetStageFactory(Foo.schema, ['aString', 'garbage']))
+  })
+})
@@ -0,0 +1,55 @@
+import { type AnyProps } from '../../types/index.js'
+import { prefixed, schemaHasFieldPath } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+
+export type UnsetStage = {
+  $unset: string | string[]
+}
+
+/**
+ * Specs that define the `$unset` stage, which are the field(s) to remove.
+ */
+export type UnsetStageFactorySpecs = string | string[]
+
+export type UnsetStageFactoryOptions = {
+  /**
+   * Prefix of the fields to remove.
+   */
+  fromPrefix?: string
+}
+
+/**
+ * Generates an `$unset` stage for a collection to be used in an aggregation
+ * pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs The field(s) to remove.
+ * @param options Additional options, see {@link UnsetStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated `$unset`
+ *          stage.
+ *
+ * @example
+ * // Returns [{ "$unset": ["foo.aString", "foo.aNumber"] }]
+ * unsetStageFactory(schema, ['aString', 'aNumber'], { fromPrefix: 'foo' })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/unset/}
+ *
+ * @throws {Error} A field to remove does not exist in the schema.
+ */
+export function unsetStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  specs: UnsetStageFactorySpecs, {
+    fromPrefix = '',
+  }: UnsetStageFactoryOptions = {},
+): [UnsetStage] {
+  const fields = typeof specs === 'string' ? [specs] : specs
+
+  return [{
+    $unset: fields.map(field => {
+      if (!schemaHasFieldPath(schema, field)) throw new Error(`Failed to generate $unset stage: the field "${field}" does not exist in the schema for collection "${schema.collection}"`)
+
+      return prefixed(field, fromPrefix)
+    }),
+  }]
+}
@@ -0,0 +1,26 @@
+import assert from 'assert'
+import { describe } from 'mocha'
+import { Foo } from '../../__mocks__/models.js'
+import { configureDb } from '../../index.js'
+import { unwindStageFactory } from './unwind.js'
+
+describe('core/aggregation/unwind', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Foo },
+    })
+  })
+
+  it('can generate $unwind stage', () => {
+    assert.deepStrictEqual(unwindStageFactory(Foo.schema, 'someBars'), [{ $unwind: { path: '$someBars' } }])
+    assert.deepStrictEqual(unwindStageFactory(Foo.schema, { path: 'someBars', includeArrayIndex: 'index', preserveNullAndEmptyArrays: true }, { fromPrefix: 'foo', toPrefix: 'bar' }), [{
+      $unwind: { path: '$foo.someBars', includeArrayIndex: 'bar.index', preserveNullAndEmptyArrays: true },
+    }])
+  })
+
+  it('throws if the field to unwind does not exist in the schema', () => {
+    assert.throws(() => unwindStageFactory(Foo.schema, 'garbage'))
+  })
+})
@@ -0,0 +1,88 @@
+import { type AnyProps } from '../../types/index.js'
+import { fieldPath, prefixed, schemaHasFieldPath } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+
+export type UnwindStage = {
+  $unwind: string | {
+    path: string
+    includeArrayIndex?: string
+    preserveNullAndEmptyArrays?: boolean
+  }
+}
+
+/**
+ * Specs that define the `$unwind` stage. If this is a string, it is the field
+ * to unwind.
+ */
+export type UnwindStageFactorySpecs = string | {
+  /**
+   * The array field to unwind.
+   */
+  path: string
+
+  /**
+   * Name of a new field to hold the array index of the unwound element.
+   */
+  includeArrayIndex?: string
+
+  /**
+   * Specifies if documents whose field is `null`, missing or an empty array
+   * are kept.
+   */
+  preserveNullAndEmptyArrays?: boolean
+}
+
+export type UnwindStageFactoryOptions = {
+  /**
+   * Prefix of the field to unwind.
+   */
+  fromPrefix?: string
+
+  /**
+   * Prefix of the new array index field.
+   */
+  toPrefix?: string
+}
+
+/**
+ * Generates an `$unwind` stage for a collection to be used in an aggregation
+ * pipeline.
+ *
+ * @param schema The schema of the database collection.
+ * @param specs Specs that define the `$unwind` stage.
+ * @param options Additional options, see {@link UnwindStageFactoryOptions}.
+ *
+ * @returns An abstract aggregation pipeline containing the generated `$unwind`
+ *          stage.
+ *
+ * @example
+ * // Returns [{ "$unwind": { "path": "$foo.tags" } }]
+ * unwindStageFactory(schema, 'tags', { fromPrefix: 'foo' })
+ *
+ * @example
+ * // Returns [{ "$unwind": { "path": "$tags", "includeArrayIndex": "index", "preserveNullAndEmptyArrays": true } }]
+ * unwindStageFactory(schema, { path: 'tags', includeArrayIndex: 'index', preserveNullAndEmptyArrays: true })
+ *
+ * @see {@link https://docs.mongodb.com/manual/reference/operator/aggregation/unwind/}
+ *
+ * @throws {Error} The field to unwind does not exist in the schema.
+ */
+export function unwindStageFactory<P extends AnyProps = AnyProps>(
+  schema: Schema<P>,
+  specs: UnwindStageFactorySpecs, {
+    fromPrefix = '',
+    toPrefix = '',
+  }: UnwindStageFactoryOptions = {},
+): [UnwindStage] {
+  const { path, includeArrayIndex, preserveNullAndEmptyArrays } = typeof specs === 'string' ? { path: specs } : specs
+
+  if (!schemaHasFieldPath(schema, path)) throw new Error(`Failed to generate $unwind stage: the field "${path}" does not exist in the schema for collection "${schema.collection}"`)
+
+  return [{
+    $unwind: {
+      path: fieldPath(path, fromPrefix),
+      ...includeArrayIndex === undefined ? {} : { includeArrayIndex: prefixed(includeArrayIndex, toPrefix) },
+      ...preserveNullAndEmptyArrays === undefined ? {} : { preserveNullAndEmptyArrays },
+    },
+  }]
+}
@@ -0,0 +1,70 @@
+import assert from 'assert'
+import Chance from 'chance'
+import { describe, it } from 'mocha'
+import { type Db } from 'mongodb'
+import { Bar } from '../../__mocks__/models.js'
+import { ValidationError } from '../../errors/index.js'
+import { configureDb, getDbConnection } from '../../index.js'
+import { count, distinct, exists } from './count.js'
+
+const chance = new Chance()
+
+describe('core/crud/count', () => {
+  let db: Db | undefined
+
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Bar },
+    })
+
+    db = await getDbConnection()?.getDbInstance()
+    await db?.dropDatabase()
+  })
+
+  it('can count documents', async () => {
+    const s = chance.string({ length: 10 })
+    const collection = db?.collection('bars')
+
+    await collection?.insertMany([{ aString: s }, { aString: s }, { aString: s }])
+
+    assert(await count(Bar.schema, { aString: s }) === 3)
+    assert(await count(Bar.schema, { aString: chance.string({ length: 11 }) }) === 0)
+    assert(await count(Bar.schema) >= 3)
+  })
+
+  it('can estimate the number of documents', async () => {
+    assert(await count(Bar.schema, undefined, { estimated: true }) >= 3)
+    await assert.rejects(count(Bar.schema, { aString: 'foo' }, { estimated: true }))
+  })
+
+  it('can check if a document exists', async () => {
+    const s = chance.string({ length: 10 })
+    const collection = db?.collection('bars')
+
+    await collection?.insertOne({ aString: s })
+
+    assert(await exists(Bar.schema, { aString: s }) === true)
+    assert(await exists(Bar.schema, { aString: chance.string({ length: 11 }) }) === false)
+  })
+
+  it('can find the distinct values of a field', async () => {
+    const s = chance.string({ length: 10 })
+    const collection = db?.collection('bars')
+
+    await collection?.insertMany([{ aString: s, aNumber: 1 }, { aString: s, aNumber: 2 }, { aString: s, aNumber: 1 }])
+
+    const values = await distinct(Bar.schema, 'aNumber', { aString: s })
+
+    assert.deepStrictEqual(values.sort(), [1, 2])
+  })
+
+  it('rejects filters with fields that are not specified in the schema unless not strict', async () => {
+    await assert.rejects(count(Bar.schema, { notAField: 1 } as any), ValidationError)
+    await assert.rejects(exists(Bar.schema, { notAField: 1 } as any), ValidationError)
+    await assert.rejects(distinct(Bar.schema, 'aNumber', { notAField: 1 } as any), ValidationError)
+
+    assert(await count(Bar.schema, { notAField: 1 } as any, { strict: false }) === 0)
+  })
+})
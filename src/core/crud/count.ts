@@ -0,0 +1,69 @@
+import { type CountDocumentsOptions, type DistinctOptions, type EstimatedDocumentCountOptions, type FindOptions } from 'mongodb'
+import { ODMError } from '../../errors/index.js'
+import * as db from '../../index.js'
+import { type AnyFilter, type AnyProps, type Document } from '../../types/index.js'
+import { mapDriverError, sanitizeFilter, type SanitizeFilterOptions } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+import { withActiveSession } from '../session.js'
+
+export type CountOptions = CountDocumentsOptions & EstimatedDocumentCountOptions & SanitizeFilterOptions & {
+  /**
+   * Specifies if the count should be estimated from the collection metadata
+   * instead of counting the matching documents. Estimated counts are fast but
+   * cannot be combined with a filter. Within a transaction, the documents are
+   * counted instead, since estimated counts are not supported in transactions.
+   */
+  estimated?: boolean
+}
+
+export type ExistsOptions = Omit<FindOptions, 'limit' | 'projection'> & SanitizeFilterOptions
+
+export type DistinctValuesOptions = DistinctOptions & SanitizeFilterOptions
+
+/**
+ * Type of the distinct values of a field, where array fields contribute their
+ * individual elements.
+ */
+export type DistinctValue<V> = NonNullable<V> extends readonly (infer E)[] ? E : NonNullable<V>
+
+export async function count<P extends AnyProps = AnyProps>(schema: Schema<P>, filter?: AnyFilter<P>, { estimated = false, strict, ...options }: CountOptions = {}): Promise<number> {
+  if (estimated && filter !== undefined) throw new ODMError('Estimated counts do not support a filter', { model: schema.model, operation: 'count' })
+
+  const collection = await db.getCollection<Document<P>>(schema.collection)
+  const opts = withActiveSession(options, db.getDbClient(schema.collection))
+
+  // The `count` command behind estimated counts is not supported in
+  // transactions, so the documents are counted instead.
+  if (estimated && opts.session?.inTransaction() !== true) {
+    return collection.estimatedDocumentCount(opts).catch(err => {
+      throw mapDriverError(err, { model: schema.model, operation: 'count' })
+    })
+  }
+
+  const query = filter === undefined ? {} : sanitizeFilter(schema, filter, { strict })
+
+  return collection.countDocuments(query, opts).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'count' })
+  })
+}
+
+export async function exists<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: AnyFilter<P>, { strict, ...options }: ExistsOptions = {}): Promise<boolean> {
+  const collection = await db.getCollection<Document<P>>(schema.collection)
+  const query = sanitizeFilter(schema, filter, { strict })
+  const doc = await collection.findOne(query, withActiveSession({ ...options, projection: { _id: 1 } }, db.getDbClient(schema.collection))).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'exists' })
+  })
+
+  return doc !== null
+}
+
+export async function distinct<P extends AnyProps = AnyProps, K extends keyof Document<P> & string = keyof Document<P> & string>(schema: Schema<P>, field: K, filter?: AnyFilter<P>, { strict, ...options }: DistinctValuesOptions = {}): Promise<DistinctValue<Document<P>[K]>[]> {
+  const collection = await db.getCollection<Document<P>>(schema.collection)
+  const query = filter === undefined ? {} : sanitizeFilter(schema, filter, { strict })
+
+  const values = await collection.distinct(field, query, withActiveSession(options, db.getDbClient(schema.collection))).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'distinct' })
+  })
+
+  return values as DistinctValue<Document<P>[K]>[]
+}
@@ -1,58 +1,70 @@
 import { type DeleteOptions, type Filter, type FindOneAndDeleteOptions } from 'mongodb'
+import { ODMError, OperationDisallowedError } from '../../errors/index.js'
 import * as db from '../../index.js'
 import { type AnyProps, type Document } from '../../types/index.js'
+import { mapDriverError } from '../../utils/index.js'
 import { type Schema } from '../Schema.js'
+import { withActiveSession } from '../session.js'
 import { findMany } from './find.js'
 
 export async function deleteOne<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, options: DeleteOptions = {}): Promise<boolean> {
-  if (schema.noDeletes === true) throw new Error(`[${schema.model}] Deletions are disallowed for this model`)
+  if (schema.noDeletes === true) throw new OperationDisallowedError('Deletions are disallowed for this model', { model: schema.model, operation: 'deleteOne' })
 
   const collection = await db.getCollection<Document<P>>(schema.collection)
-  const result = await collection.deleteOne(filter, options)
+  const result = await collection.deleteOne(filter, withActiveSession(options, db.getDbClient(schema.collection))).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'deleteOne' })
+  })
 
-  if (!result.acknowledged) throw new Error(`[${schema.model}] Unable to delete document`)
+  if (!result.acknowledged) throw new ODMError('Unable to delete document', { model: schema.model, operation: 'deleteOne' })
   if (result.deletedCount > 0) return true
 
   return false
 }
 
 export async function findAndDeleteOne<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, options: FindOneAndDeleteOptions = {}): Promise<Document<P>> {
-  if (schema.noDeletes === true) throw new Error(`[${schema.model}] Deletions are disallowed for this model`)
+  if (schema.noDeletes === true) throw new OperationDisallowedError('Deletions are disallowed for this model', { model: schema.model, operation: 'findAndDeleteOne' })
 
   const collection = await db.getCollection<Document<P>>(schema.collection)
-  const result = await collection.findOneAndDelete(filter, { includeResultMetadata: true })
+  const result = await collection.findOneAndDelete(filter, { ...withActiveSession(options, db.getDbClient(schema.collection)), includeResultMetadata: true }).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'findAndDeleteOne' })
+  })
 
-  if (result.ok !== 1) throw new Error(`[${schema.model}] Unable to delete document`)
-  if (!result.value) throw new Error(`[${schema.model}] Unable to return deleted document`)
+  if (result.ok !== 1) throw new ODMError('Unable to delete document', { model: schema.model, operation: 'findAndDeleteOne' })
+  if (!result.value) throw new ODMError('Unable to return deleted document', { model: schema.model, operation: 'findAndDeleteOne' })
 
   return result.value as Document<P>
 }
 
 export async function deleteMany<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, options: DeleteOptions = {}): Promise<boolean> {
-  if (schema.noDeletes === true || schema.noDeleteMany === true) throw new Error(`[${schema.model}] Multiple deletions are disallowed for this model`)
+  if (schema.noDeletes === true || schema.noDeleteMany === true) throw new OperationDisallowedError('Multiple deletions are disallowed for this model', { model: schema.model, operation: 'deleteMany' })
 
   const collection = await db.getCollection<Document<P>>(schema.collection)
-  const result = await collection.deleteMany(filter, options)
+  const result = await collection.deleteMany(filter, withActiveSession(options, db.getDbClient(schema.collection))).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'deleteMany' })
+  })
 
-  if (!result.acknowledged) throw new Error(`[${schema.model}] Unable to delete documents`)
+  if (!result.acknowledged) throw new ODMError('Unable to delete documents', { model: schema.model, operation: 'deleteMany' })
   if (result.deletedCount > 0) return true
 
   return false
 }
 
 export async function findManyAndDelete<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, options: FindOneAndDeleteOptions = {}): Promise<Document<P>[]> {
-  if (schema.noDeletes === true || schema.noDeleteMany === true) throw new Error(`[${schema.model}] Multiple deletions are disallowed for this model`)
+  if (schema.noDeletes === true || schema.noDeleteMany === true) throw new OperationDisallowedError('Multiple deletions are disallowed for this model', { model: schema.model, operation: 'findManyAndDelete' })
 
   const collection = await db.getCollection<Document<P>>(schema.collection)
-  const docs = await findMany(schema, filter)
+  const opts = withActiveSession(options, db.getDbClient(schema.collection))
+  const docs = await findMany(schema, filter, { session: opts.session })
   const n = docs.length
   const deletedDocs: Document<P>[] = []
 
   for (let i = 0; i < n; i++) {
     const doc = docs[i]
-    const result = await collection.findOneAndDelete({ _id: doc._id } as Filter<Document<P>>, { includeResultMetadata: true })
+    const result = await collection.findOneAndDelete({ _id: doc._id } as Filter<Document<P>>, { ...opts, includeResultMetadata: true }).catch(err => {
+      throw mapDriverError(err, { model: schema.model, operation: 'findManyAndDelete' })
+    })
 
-    if (result.ok !== 1) throw new Error(`[${schema.model}] Unable to delete documents`)
+    if (result.ok !== 1) throw new ODMError('Unable to delete documents', { model: schema.model, operation: 'findManyAndDelete' })
 
     if (result.value) {
       deletedDocs.push(result.value as Document<P>)
@@ -3,8 +3,9 @@ import Chance from 'chance'
 import { describe, it } from 'mocha'
 import { type Db } from 'mongodb'
 import { Bar } from '../../__mocks__/models.js'
+import { ValidationError } from '../../errors/index.js'
 import { configureDb, getDbConnection } from '../../index.js'
-import { findAll, findMany, findOne, findOneRandom } from './find.js'
+import { findAll, findMany, findManyCursor, findOne, findOneRandom } from './find.js'
 
 const chance = new Chance()
 
@@ -47,10 +48,55 @@ describe('core/crud/find', () => {
     assert(docs.length === 3)
   })
 
+  it('rejects filters with fields that are not specified in the schema unless not strict', async () => {
+    await assert.rejects(findMany(Bar.schema, { notAField: 1 } as any), ValidationError)
+
+    assert.deepStrictEqual(await findMany(Bar.schema, { notAField: 1 } as any, { strict: false }), [])
+  })
+
+  it('can find multiple documents with a cursor', async () => {
+    const s = chance.string({ length: 10 })
+    const collection = db?.collection('bars')
+
+    await collection?.insertMany([{ aString: s }, { aString: s }])
+
+    const cursor = await findManyCursor(Bar.schema, { aString: s }, { batchSize: 1 })
+    const docs = await cursor.toArray()
+
+    assert(docs.length === 2)
+  })
+
+  it('can find sorted, skipped and limited documents', async () => {
+    const s = chance.string({ length: 10 })
+    const collection = db?.collection('bars')
+
+    await collection?.insertMany([{ aString: s, aNumber: 3 }, { aString: s, aNumber: 1 }, { aString: s, aNumber: 2 }])
+
+    const docs = await findMany(Bar.schema, { aString: s }, { sort: { aNumber: -1 }, skip: 1, limit: 1 })
+
+    assert(docs.length === 1)
+    assert(docs[0].aNumber === 2)
+  })
+
+  it('can find documents with selected fields', async () => {
+    const s = chance.string({ length: 10 })
+    const collection = db?.collection('bars')
+
+    await collection?.insertOne({ aString: s, aNumber: 1 })
+
+    const included = await findOne(Bar.schema, { aString: s }, { select: { aNumber: 1 } })
+
+    assert.deepStrictEqual(Object.keys(included).sort(), ['_id', 'aNumber'])
+
+    const excluded = await findOne(Bar.schema, { aString: s }, { select: { _id: 0, aNumber: 0 } })
+
+    assert.deepStrictEqual(Object.keys(excluded), ['aString'])
+  })
+
   it('can find all documents', async () => {
     const docs = await findAll(Bar.schema)
 
-    assert(docs.length === 4)
+    assert(docs.length === 10)
   })
 
   it('can find a random document', async () => {
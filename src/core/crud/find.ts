@@ -1,46 +1,107 @@
-import { type AggregateOptions } from 'mongodb'
+import { type AggregateOptions, type AggregationCursor } from 'mongodb'
+import { DocumentNotFoundError, ODMError } from '../../errors/index.js'
 import * as db from '../../index.js'
 import { type AnyFilter, type AnyProps, type Document } from '../../types/index.js'
+import { mapDriverError, type SanitizeFilterOptions } from '../../utils/index.js'
 import { type Schema } from '../Schema.js'
 import * as Aggregation from '../aggregation/index.js'
+import { withActiveSession } from '../session.js'
 
-export async function findOne<P extends AnyProps = AnyProps, R extends AnyProps = P>(schema: Schema<P>, filter: AnyFilter<P> | Aggregation.Pipeline, options: AggregateOptions = {}): Promise<Document<R>> {
-  const docs = await findMany<P, R>(schema, filter, options)
+export type FindDocumentsOptions<P extends AnyProps = AnyProps> = AggregateOptions & SanitizeFilterOptions & {
+  /**
+   * Reference fields to populate with the referenced documents, see
+   * {@link Aggregation.PopulateStageFactorySpecs}.
+   */
+  populate?: Aggregation.PopulateStageFactorySpecs<P>
 
-  if (docs.length === 0) throw new Error(`[${schema.model}] No document found with provided query`)
+  /**
+   * Virtual inverse (has-many) relations to load into the found documents,
+   * see {@link Aggregation.RelationStageFactorySpecs}. Relations are loaded
+   * after fields are selected.
+   */
+  relations?: Aggregation.RelationStageFactorySpecs
+
+  /**
+   * Fields to include or exclude from the found documents, see
+   * {@link Aggregation.FieldSelection}.
+   */
+  select?: Aggregation.FieldSelection<P>
+
+  /**
+   * Sort order of the found documents.
+   */
+  sort?: Aggregation.SortStageFactorySpecs<P>
+
+  /**
+   * Number of documents to skip.
+   */
+  skip?: number
+
+  /**
+   * Maximum number of documents to find.
+   */
+  limit?: number
+}
+
+export async function findOne<P extends AnyProps = AnyProps, R extends AnyProps = P>(schema: Schema<P>, filter: AnyFilter<P> | Aggregation.Pipeline, options: FindDocumentsOptions<P> = {}): Promise<Document<R>> {
+  const docs = await findMany<P, R>(schema, filter, { limit: 1, ...options })
+
+  if (docs.length === 0) throw new DocumentNotFoundError('No document found with provided query', { model: schema.model, operation: 'findOne' })
 
   return docs[0]
 }
 
-export async function findOneRandom<P extends AnyProps = AnyProps, R extends AnyProps = P>(schema: Schema<P>): Promise<Document<R>> {
-  const pipeline = [{ $sample: { size: 1 } }]
-  const docs = await findMany<P, R>(schema, pipeline)
+export async function findOneRandom<P extends AnyProps = AnyProps, R extends AnyProps = P>(schema: Schema<P>, options: FindDocumentsOptions<P> = {}): Promise<Document<R>> {
+  const pipeline = Aggregation.sampleStageFactory(schema, 1)
+  const docs = await findMany<P, R>(schema, pipeline, options)
 
-  if (docs.length !== 1) throw new Error(`[${schema.model}] More or less than 1 random document found even though only 1 was supposed to be found.`)
+  if (docs.length !== 1) throw new ODMError('More or less than 1 random document found even though only 1 was supposed to be found.', { model: schema.model, operation: 'findOneRandom' })
 
   return docs[0]
 }
 
-export async function findMany<P extends AnyProps = AnyProps, R extends AnyProps = P>(schema: Schema<P>, filter: AnyFilter<P> | Aggregation.Pipeline, options: AggregateOptions = {}): Promise<Document<R>[]> {
+export async function findMany<P extends AnyProps = AnyProps, R extends AnyProps = P>(schema: Schema<P>, filter: AnyFilter<P> | Aggregation.Pipeline, options: FindDocumentsOptions<P> = {}): Promise<Document<R>[]> {
+  const cursor = await findManyCursor<P, R>(schema, filter, options)
+  const docs = await cursor.toArray().catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'findMany' })
+  })
+
+  return docs
+}
+
+export async function findAll<P extends AnyProps, R extends AnyProps = P>(schema: Schema<P>, options: FindDocumentsOptions<P> = {}): Promise<Document<R>[]> {
+  const cursor = await findManyCursor<P, R>(schema, undefined, options)
+  const docs = await cursor.toArray().catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'findAll' })
+  })
+
+  return docs
+}
+
+export async function findManyCursor<P extends AnyProps = AnyProps, R extends AnyProps = P>(schema: Schema<P>, filter?: AnyFilter<P> | Aggregation.Pipeline, { populate, relations, select, sort, skip, limit, strict, ...options }: FindDocumentsOptions<P> = {}): Promise<AggregationCursor<Document<R>>> {
   const collection = await db.getCollection<Document<P>>(schema.collection)
 
   let pipeline: Aggregation.Pipeline
 
-  if (filter instanceof Array) {
+  if (filter === undefined) {
+    pipeline = []
+  }
+  else if (filter instanceof Array) {
     pipeline = filter
   }
   else {
-    pipeline = Aggregation.matchStageFactory(schema, filter)
+    pipeline = Aggregation.matchStageFactory(schema, filter, { strict })
   }
 
-  const docs = await collection.aggregate<Document<R>>(pipeline, options).toArray()
+  pipeline = [
+    ...pipeline,
+    ...sort ? Aggregation.sortStageFactory(schema, sort) : [],
+    ...skip !== undefined ? Aggregation.skipStageFactory(schema, skip) : [],
+    ...limit !== undefined ? Aggregation.limitStageFactory(schema, limit) : [],
+    ...populate ? Aggregation.populateStageFactory(schema, populate) : [],
+    ...select ? Aggregation.projectStageFactory(schema, select) : [],
+    ...relations ? Aggregation.relationStageFactory(schema, relations) : [],
+  ]
 
-  return docs
-}
-
-export async function findAll<P extends AnyProps, R extends AnyProps = P>(schema: Schema<P>): Promise<Document<R>[]> {
-  const collection = await db.getCollection<Document<P>>(schema.collection)
-  const docs = await collection.aggregate<Document<R>>().toArray()
-
-  return docs
+  return collection.aggregate<Document<R>>(pipeline, withActiveSession(options, db.getDbClient(schema.collection)))
 }
@@ -1,21 +1,26 @@
-import { ObjectId } from 'mongodb'
+import { ObjectId, type AggregateOptions } from 'mongodb'
+import { DocumentNotFoundError, ODMError } from '../../errors/index.js'
 import * as db from '../../index.js'
 import { type AnyFilter, type AnyProps } from '../../types/index.js'
+import { mapDriverError } from '../../utils/index.js'
 import { type Schema } from '../Schema.js'
 import * as Aggregation from '../aggregation/index.js'
+import { withActiveSession } from '../session.js'
 import { findOne } from './find.js'
 
-export async function identifyOne<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: AnyFilter<P>): Promise<ObjectId> {
-  const doc = await findOne(schema, filter).catch(err => {
-    throw new Error(`[${schema.model}] No results found while identifying this ${schema.model} using the filter ${filter}`)
+export async function identifyOne<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: AnyFilter<P>, options: AggregateOptions = {}): Promise<ObjectId> {
+  const doc = await findOne(schema, filter, options).catch(err => {
+    if (!(err instanceof DocumentNotFoundError)) throw err
+
+    throw new DocumentNotFoundError(`No results found while identifying this ${schema.model} using the filter ${filter}`, { model: schema.model, operation: 'identifyOne' })
   })
 
-  if (!ObjectId.isValid(doc._id)) throw new Error(`[${schema.model}] ID of ${doc} is not a valid ObjectId`)
+  if (!ObjectId.isValid(doc._id)) throw new ODMError(`ID of ${doc} is not a valid ObjectId`, { model: schema.model, operation: 'identifyOne' })
 
   return doc._id
 }
 
-export async function identifyMany<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: AnyFilter<P>): Promise<ObjectId[]> {
+export async function identifyMany<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: AnyFilter<P>, options: AggregateOptions = {}): Promise<ObjectId[]> {
   const collection = await db.getCollection(schema.collection)
 
   let pipeline: Aggregation.Pipeline
@@ -33,21 +38,25 @@ export async function identifyMany<P extends AnyProps = AnyProps>(schema: Schema
       _id: undefined,
       ids: { $addToSet: '$_id' },
     }),
-  ]).toArray()
+  ], withActiveSession(options, db.getDbClient(schema.collection))).toArray().catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'identifyMany' })
+  })
 
   if (docs.length === 0) return []
 
   return docs[0].ids || []
 }
 
-export async function identifyAll<P extends AnyProps = AnyProps>(schema: Schema<P>): Promise<ObjectId[]> {
+export async function identifyAll<P extends AnyProps = AnyProps>(schema: Schema<P>, options: AggregateOptions = {}): Promise<ObjectId[]> {
   const collection = await db.getCollection(schema.collection)
   const pipeline = Aggregation.groupStageFactory(schema, {
     _id: undefined,
     ids: { $addToSet: '$_id' },
   })
 
-  const docs = await collection.aggregate(pipeline).toArray()
+  const docs = await collection.aggregate(pipeline, withActiveSession(options, db.getDbClient(schema.collection))).toArray().catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'identifyAll' })
+  })
 
   if (docs.length === 0) return []
 
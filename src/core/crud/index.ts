@@ -1,6 +1,8 @@
+export * from './count.js'
 export * from './delete.js'
 export * from './find.js'
 export * from './identify.js'
 export * from './insert.js'
+export * from './paginate.js'
 export * from './replace.js'
 export * from './update.js'
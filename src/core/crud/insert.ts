@@ -1,34 +1,43 @@
 import { type BulkWriteOptions, type InsertOneOptions } from 'mongodb'
+import { ODMError, OperationDisallowedError } from '../../errors/index.js'
 import * as db from '../../index.js'
 import { type AnyProps, type Document, type InsertableDocument } from '../../types/index.js'
+import { mapDriverError } from '../../utils/index.js'
 import { type Schema } from '../Schema.js'
 import { matchStageFactory } from '../aggregation/index.js'
+import { withActiveSession } from '../session.js'
 import { findMany, findOne } from './find.js'
 
 export async function insertOne<P extends AnyProps = AnyProps>(schema: Schema<P>, doc: InsertableDocument<P>, options: InsertOneOptions = {}): Promise<Document<P>> {
-  if (schema.noInserts === true) throw new Error(`[${schema.model}] Insertions are disallowed for this model`)
+  if (schema.noInserts === true) throw new OperationDisallowedError('Insertions are disallowed for this model', { model: schema.model, operation: 'insertOne' })
 
   const collection = await db.getCollection(schema.collection)
-  const result = await collection.insertOne(doc, options)
+  const opts = withActiveSession(options, db.getDbClient(schema.collection))
+  const result = await collection.insertOne(doc, opts).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'insertOne' })
+  })
 
-  if (!result.acknowledged) throw new Error(`[${schema.model}] Unable to insert document`)
-  if (!result.insertedId) throw new Error(`[${schema.model}] Unable to insert document`)
+  if (!result.acknowledged) throw new ODMError('Unable to insert document', { model: schema.model, operation: 'insertOne' })
+  if (!result.insertedId) throw new ODMError('Unable to insert document', { model: schema.model, operation: 'insertOne' })
 
-  const insertedDoc = await findOne(schema, result.insertedId)
+  const insertedDoc = await findOne(schema, result.insertedId, { session: opts.session })
 
   return insertedDoc
 }
 
 export async function insertMany<P extends AnyProps = AnyProps>(schema: Schema<P>, docs: InsertableDocument<P>[], options: BulkWriteOptions = {}): Promise<Document<P>[]> {
-  if (schema.noInserts === true || schema.noInsertMany === true) throw new Error(`[${schema.model}] Multiple insertions are disallowed for this model`)
+  if (schema.noInserts === true || schema.noInsertMany === true) throw new OperationDisallowedError('Multiple insertions are disallowed for this model', { model: schema.model, operation: 'insertMany' })
 
   const collection = await db.getCollection(schema.collection)
-  const result = await collection.insertMany(docs, options)
+  const opts = withActiveSession(options, db.getDbClient(schema.collection))
+  const result = await collection.insertMany(docs, opts).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'insertMany' })
+  })
 
-  if (!result.acknowledged) throw new Error(`[${schema.model}] Unable to insert many documents`)
+  if (!result.acknowledged) throw new ODMError('Unable to insert many documents', { model: schema.model, operation: 'insertMany' })
   if (result.insertedCount <= 0) return []
 
-  const insertedDocs = await findMany(schema, matchStageFactory(schema, { _id: { $in: Object.values(result.insertedIds) as any } }))
+  const insertedDocs = await findMany(schema, matchStageFactory(schema, { _id: { $in: Object.values(result.insertedIds) as any } }), { session: opts.session })
 
   return insertedDocs
 }
@@ -0,0 +1,117 @@
+import assert from 'assert'
+import Chance from 'chance'
+import { describe, it } from 'mocha'
+import { type Db } from 'mongodb'
+import { Bar } from '../../__mocks__/models.js'
+import { configureDb, getDbConnection } from '../../index.js'
+import { findPage, paginate } from './paginate.js'
+
+const chance = new Chance()
+
+describe('core/crud/paginate', () => {
+  let db: Db | undefined
+  const s = chance.string({ length: 10 })
+
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Bar },
+    })
+
+    db = await getDbConnection()?.getDbInstance()
+    await db?.dropDatabase()
+    await db?.collection('bars').insertMany([5, 1, 4, 2, 3, 3].map(aNumber => ({ aString: s, aNumber })))
+  })
+
+  it('can paginate forward', async () => {
+    const page1 = await paginate(Bar.schema, { filter: { aString: s }, sort: { aNumber: 1 }, first: 3 })
+
+    assert.deepStrictEqual(page1.edges.map(edge => edge.node.aNumber), [1, 2, 3])
+    assert(page1.pageInfo.hasNextPage)
+    assert(!page1.pageInfo.hasPreviousPage)
+
+    const page2 = await paginate(Bar.schema, { filter: { aString: s }, sort: { aNumber: 1 }, first: 3, after: page1.pageInfo.endCursor })
+
+    assert.deepStrictEqual(page2.edges.map(edge => edge.node.aNumber), [3, 4, 5])
+    assert(!page2.pageInfo.hasNextPage)
+    assert(page2.pageInfo.hasPreviousPage)
+  })
+
+  it('can paginate backward', async () => {
+    const page1 = await paginate(Bar.schema, { filter: { aString: s }, sort: { aNumber: -1 }, last: 2 })
+
+    assert.deepStrictEqual(page1.edges.map(edge => edge.node.aNumber), [2, 1])
+    assert(!page1.pageInfo.hasNextPage)
+    assert(page1.pageInfo.hasPreviousPage)
+
+    const page2 = await paginate(Bar.schema, { filter: { aString: s }, sort: { aNumber: -1 }, last: 2, before: page1.pageInfo.startCursor })
+
+    assert.deepStrictEqual(page2.edges.map(edge => edge.node.aNumber), [3, 3])
+    assert(page2.pageInfo.hasNextPage)
+  })
+
+  it('applies a default page size if neither `first` nor `last` is specified', async () => {
+    const t = chance.string({ length: 10 })
+
+    await db?.collection('bars').insertMany([...Array(25)].map((_, aNumber) => ({ aString: t, aNumber })))
+
+    const page = await paginate(Bar.schema, { filter: { aString: t } })
+
+    assert(page.edges.length === 20)
+    assert(page.pageInfo.hasNextPage)
+  })
+
+  it('can paginate through documents with missing or null sort values', async () => {
+    const t = chance.string({ length: 10 })
+
+    await db?.collection('bars').insertMany([{ aString: t, aBoolean: true }, { aString: t }, { aString: t, aBoolean: false }, { aString: t, aBoolean: null }])
+
+    for (const direction of [1, -1] as const) {
+      const forward: (boolean | undefined)[] = []
+      let after: string | undefined
+
+      for (let i = 0; i < 4; i++) {
+        const page = await paginate(Bar.schema, { filter: { aString: t }, sort: { aBoolean: direction }, first: 1, after })
+
+        forward.push(...page.edges.map(edge => edge.node.aBoolean ?? undefined))
+        after = page.pageInfo.endCursor
+      }
+
+      assert.deepStrictEqual(forward, direction === 1 ? [undefined, undefined, false, true] : [true, false, undefined, undefined])
+
+      const backward: (boolean | undefined)[] = []
+      let before: string | undefined
+
+      for (let i = 0; i < 4; i++) {
+        const page = await paginate(Bar.schema, { filter: { aString: t }, sort: { aBoolean: direction }, last: 1, before })
+
+        backward.unshift(...page.edges.map(edge => edge.node.aBoolean ?? undefined))
+        before = page.pageInfo.startCursor
+      }
+
+      assert.deepStrictEqual(backward, forward)
+    }
+  })
+
+  it('throws if the cursor is invalid', async () => {
+    await assert.rejects(paginate(Bar.schema, { first: 1, after: 'foo' }))
+  })
+
+  it('can find a page of documents with the total count', async () => {
+    const res = await findPage(Bar.schema, { aString: s }, { page: 2, pageSize: 4, sort: { aNumber: 1 } })
+
+    assert.deepStrictEqual(res.items.map(doc => doc.aNumber), [4, 5])
+    assert(res.total === 6)
+    assert(res.page === 2)
+    assert(res.pageCount === 2)
+  })
+
+  it('tie-breaks pages on `_id`', async () => {
+    const page3 = await findPage(Bar.schema, { aString: s }, { page: 3, pageSize: 1, sort: { aNumber: 1 } })
+    const page4 = await findPage(Bar.schema, { aString: s }, { page: 4, pageSize: 1, sort: { aNumber: 1 } })
+
+    assert.deepStrictEqual([...page3.items, ...page4.items].map(doc => doc.aNumber), [3, 3])
+    assert(page3.items[0]._id.toHexString() < page4.items[0]._id.toHexString())
+  })
+})
@@ -0,0 +1,257 @@
+import { BSON, type AggregateOptions, type SortDirection } from 'mongodb'
+import { ODMError } from '../../errors/index.js'
+import { get } from '../../helpers/index.js'
+import { type AnyFilter, type AnyProps, type Document, type OffsetPage, type Page } from '../../types/index.js'
+import { mapDriverError } from '../../utils/index.js'
+import { type Schema } from '../Schema.js'
+import * as Aggregation from '../aggregation/index.js'
+import { findManyCursor } from './find.js'
+
+export type PaginateOptions<P extends AnyProps = AnyProps> = AggregateOptions & {
+  /**
+   * Filter for the documents to paginate.
+   */
+  filter?: AnyFilter<P>
+
+  /**
+   * Sort order of the documents, defaults to `{ _id: 1 }`. The order always
+   * tie-breaks on `_id` (in the direction of the last sort key), so that every
+   * cursor points to exactly one document.
+   */
+  sort?: Aggregation.SortStageFactorySpecs<P>
+
+  /**
+   * Number of documents to return from the start of the page, used for
+   * paginating forward. Defaults to `20` if neither `first` nor `last` is
+   * specified.
+   */
+  first?: number
+
+  /**
+   * Cursor of the document after which the page starts.
+   */
+  after?: string
+
+  /**
+   * Number of documents to return from the end of the page, used for
+   * paginating backward.
+   */
+  last?: number
+
+  /**
+   * Cursor of the document before which the page ends.
+   */
+  before?: string
+}
+
+export type FindPageOptions<P extends AnyProps = AnyProps> = AggregateOptions & {
+  /**
+   * The page number, starting from `1` (default).
+   */
+  page?: number
+
+  /**
+   * Number of documents per page, defaults to `20`.
+   */
+  pageSize?: number
+
+  /**
+   * Sort order of the documents, defaults to `{ _id: 1 }`. The order always
+   * tie-breaks on `_id`, so that pages are stable across queries.
+   */
+  sort?: Aggregation.SortStageFactorySpecs<P>
+}
+
+export async function paginate<P extends AnyProps = AnyProps, R extends AnyProps = P>(schema: Schema<P>, { filter, sort, first, after, last, before, ...options }: PaginateOptions<P> = {}): Promise<Page<R>> {
+  if (first !== undefined && last !== undefined) throw new ODMError('Specifying both `first` and `last` is not supported', { model: schema.model, operation: 'paginate' })
+
+  const limit = last ?? first ?? 20
+  if (!Number.isInteger(limit) || limit < 0) throw new ODMError('`first` and `last` must be non-negative integers', { model: schema.model, operation: 'paginate' })
+
+  const sortKeys = normalizeSort(sort)
+  const isBackward = last !== undefined
+  const conditions: Record<string, any>[] = []
+
+  if (after !== undefined) conditions.push(keysetCondition(sortKeys, decodeCursor(schema, after, sortKeys), 1))
+  if (before !== undefined) conditions.push(keysetCondition(sortKeys, decodeCursor(schema, before, sortKeys), -1))
+
+  // When paginating backward, query in the reverse order so that the limit
+  // applies to the end of the page, then reverse the results.
+  const querySort = Object.fromEntries(sortKeys.map(([key, direction]) => [key, isBackward ? -direction : direction])) as Aggregation.SortStageFactorySpecs<P>
+
+  const pipeline: Aggregation.Pipeline = [
+    ...filter === undefined ? [] : Aggregation.matchStageFactory(schema, filter),
+    ...conditions.length === 0 ? [] : Aggregation.matchStageFactory(schema, { $and: conditions }),
+    ...Aggregation.sortStageFactory(schema, querySort),
+  ]
+
+  // Fetch one extra document to determine if there are more pages.
+  const cursor = await findManyCursor<P, R>(schema, pipeline, options)
+  cursor.limit(limit + 1)
+
+  const docs = await cursor.toArray().catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'paginate' })
+  })
+
+  const hasMore = docs.length > limit
+  const nodes = hasMore ? docs.slice(0, limit) : docs
+
+  if (isBackward) nodes.reverse()
+
+  const edges = nodes.map(node => ({ node, cursor: encodeCursor(node, sortKeys) }))
+
+  return {
+    edges,
+    pageInfo: {
+      hasNextPage: isBackward ? before !== undefined : hasMore,
+      hasPreviousPage: isBackward ? hasMore : after !== undefined,
+      startCursor: edges[0]?.cursor,
+      endCursor: edges[edges.length - 1]?.cursor,
+    },
+  }
+}
+
+export async function findPage<P extends AnyProps = AnyProps, R extends AnyProps = P>(schema: Schema<P>, filter?: AnyFilter<P>, { page = 1, pageSize = 20, sort, ...options }: FindPageOptions<P> = {}): Promise<OffsetPage<R>> {
+  if (!Number.isInteger(page) || page < 1) throw new ODMError('`page` must be a positive integer', { model: schema.model, operation: 'findPage' })
+  if (!Number.isInteger(pageSize) || pageSize < 1) throw new ODMError('`pageSize` must be a positive integer', { model: schema.model, operation: 'findPage' })
+
+  const sortKeys = normalizeSort(sort)
+
+  // Fetch the documents of the page and the total count in one query.
+  const pipeline: Aggregation.Pipeline = [
+    ...filter === undefined ? [] : Aggregation.matchStageFactory(schema, filter),
+    ...Aggregation.facetStageFactory(schema, {
+      items: [
+        ...Aggregation.sortStageFactory(schema, Object.fromEntries(sortKeys) as Aggregation.SortStageFactorySpecs<P>),
+        ...Aggregation.skipStageFactory(schema, (page - 1) * pageSize),
+        ...Aggregation.limitStageFactory(schema, pageSize),
+      ],
+      total: Aggregation.countStageFactory(schema, 'count'),
+    }),
+  ]
+
+  const cursor = await findManyCursor<P, { items: Document<R>[]; total: { count: number }[] }>(schema, pipeline, options)
+  const [result] = await cursor.toArray().catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'findPage' })
+  })
+
+  const total = result?.total[0]?.count ?? 0
+
+  return {
+    items: result?.items ?? [],
+    total,
+    page,
+    pageCount: Math.ceil(total / pageSize),
+  }
+}
+
+/**
+ * Normalizes a sort specification into a list of keys and directions, ending
+ * with `_id` as the tie-breaker.
+ *
+ * @param sort The sort specification.
+ *
+ * @returns The list of tuples of key and direction (`1` or `-1`).
+ */
+function normalizeSort(sort: Record<string, SortDirection | undefined> = {}): [string, 1 | -1][] {
+  const keys = Object.entries(sort).filter(([, direction]) => direction !== undefined).map(([key, direction]): [string, 1 | -1] => [key, direction === -1 || direction === 'desc' || direction === 'descending' ? -1 : 1])
+
+  if (!keys.some(([key]) => key === '_id')) keys.push(['_id', keys[keys.length - 1]?.[1] ?? 1])
+
+  return keys
+}
+
+/**
+ * Builds a filter matching documents that come after (or before) the provided
+ * sort values in the sort order. Missing and `null` values sort before any
+ * other value, and since `$gt` and `$lt` never match them, they are handled
+ * explicitly: a `null` value is followed by any existing non-`null` value, and
+ * any other value is preceded by missing and `null` values.
+ *
+ * @param sortKeys The normalized sort keys.
+ * @param values The sort values of the document the cursor points to.
+ * @param direction `1` to match documents after the values, `-1` to match
+ *                  documents before them.
+ *
+ * @returns The filter.
+ *
+ * @example
+ * // Returns { $or: [{ a: { $gt: 1 } }, { a: 1, _id: { $gt: 5927f337c5178b9665b56b1e } }] }
+ * keysetCondition([['a', 1], ['_id', 1]], [1, 5927f337c5178b9665b56b1e], 1)
+ *
+ * @example
+ * // Returns { $or: [{ a: { $ne: null } }, { a: null, _id: { $gt: 5927f337c5178b9665b56b1e } }] }
+ * keysetCondition([['a', 1], ['_id', 1]], [null, 5927f337c5178b9665b56b1e], 1)
+ */
+function keysetCondition(sortKeys: [string, 1 | -1][], values: any[], direction: 1 | -1): Record<string, any> {
+  const $or: Record<string, any>[] = []
+
+  for (let i = 0; i < sortKeys.length; i++) {
+    const [key, keyDirection] = sortKeys[i]
+    const value = values[i]
+    const isAscending = keyDirection * direction === 1
+
+    // Nothing comes before missing and `null` values.
+    if (value === null && !isAscending) continue
+
+    const condition: Record<string, any> = {}
+
+    for (let j = 0; j < i; j++) {
+      condition[sortKeys[j][0]] = values[j]
+    }
+
+    if (value === null) {
+      condition[key] = { $ne: null }
+    }
+    else if (isAscending) {
+      condition[key] = { $gt: value }
+    }
+    else {
+      condition.$or = [{ [key]: { $lt: value } }, { [key]: null }]
+    }
+
+    $or.push(condition)
+  }
+
+  return { $or }
+}
+
+/**
+ * Encodes the sort values of a document into an opaque cursor.
+ *
+ * @param doc The document.
+ * @param sortKeys The normalized sort keys.
+ *
+ * @returns The cursor.
+ */
+function encodeCursor(doc: Document<any>, sortKeys: [string, 1 | -1][]): string {
+  const values = sortKeys.map(([key]) => get(doc, key, null))
+
+  return Buffer.from(BSON.EJSON.stringify(values)).toString('base64url')
+}
+
+/**
+ * Decodes an opaque cursor into the sort values of the document it points to.
+ *
+ * @param schema The schema of the collection.
+ * @param cursor The cursor.
+ * @param sortKeys The normalized sort keys.
+ *
+ * @returns The sort values.
+ *
+ * @throws {ODMError} The cursor is invalid or does not match the sort order.
+ */
+function decodeCursor(schema: Schema<any>, cursor: string, sortKeys: [string, 1 | -1][]): any[] {
+  let values: unknown
+
+  try {
+    values = BSON.EJSON.parse(Buffer.from(cursor, 'base64url').toString())
+  }
+  catch (err) {
+    throw new ODMError('Invalid pagination cursor', { model: schema.model, operation: 'paginate', cause: err })
+  }
+
+  if (!(values instanceof Array) || values.length !== sortKeys.length) throw new ODMError('The pagination cursor does not match the sort order', { model: schema.model, operation: 'paginate' })
+
+  return values
+}
@@ -1,14 +1,19 @@
 import { type Filter, type FindOneAndReplaceOptions, type ReplaceOptions } from 'mongodb'
+import { ODMError } from '../../errors/index.js'
 import * as db from '../../index.js'
 import { type AnyProps, type Document, type InsertableDocument } from '../../types/index.js'
+import { mapDriverError } from '../../utils/index.js'
 import { type Schema } from '../Schema.js'
+import { withActiveSession } from '../session.js'
 import { findOne } from './find.js'
 
 export async function replaceOne<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, replacement: InsertableDocument<P>, options: ReplaceOptions = {}): Promise<boolean> {
   const collection = await db.getCollection<Document<P>>(schema.collection)
-  const result = await collection.replaceOne(filter, replacement, { ...options })
+  const result = await collection.replaceOne(filter, replacement, withActiveSession(options, db.getDbClient(schema.collection))).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'replaceOne' })
+  })
 
-  if (!result.acknowledged) throw new Error(`[${schema.model}] Unable to find and replace document`)
+  if (!result.acknowledged) throw new ODMError('Unable to find and replace document', { model: schema.model, operation: 'replaceOne' })
   if (options.upsert === true && result.upsertedCount > 0) return true
   if (result.modifiedCount > 0) return true
 
@@ -17,17 +22,20 @@ export async function replaceOne<P extends AnyProps = AnyProps>(schema: Schema<P
 
 export async function findOneAndReplace<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, replacement: InsertableDocument<P>, options: FindOneAndReplaceOptions = {}): Promise<[Document<P>, Document<P>]> {
   const collection = await db.getCollection<Document<P>>(schema.collection)
-  const result = await collection.findOneAndReplace(filter, replacement, { ...options, returnDocument: 'before', includeResultMetadata: true })
+  const opts = withActiveSession(options, db.getDbClient(schema.collection))
+  const result = await collection.findOneAndReplace(filter, replacement, { ...opts, returnDocument: 'before', includeResultMetadata: true }).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'findOneAndReplace' })
+  })
 
-  if (result.ok !== 1) throw new Error(`[${schema.model}] Unable to find and replace document`)
+  if (result.ok !== 1) throw new ODMError('Unable to find and replace document', { model: schema.model, operation: 'findOneAndReplace' })
 
   const oldDoc = result.value as Document<P> | null
 
-  if (!oldDoc) throw new Error(`[${schema.model}] Unable to return the old document`)
+  if (!oldDoc) throw new ODMError('Unable to return the old document', { model: schema.model, operation: 'findOneAndReplace' })
 
-  const newDoc = await findOne(schema, replacement)
+  const newDoc = await findOne(schema, replacement, { session: opts.session })
 
-  if (!newDoc) throw new Error(`[${schema.model}] Document is replaced but unable to find the new document in the database`)
+  if (!newDoc) throw new ODMError('Document is replaced but unable to find the new document in the database', { model: schema.model, operation: 'findOneAndReplace' })
 
   return [oldDoc, newDoc]
 }
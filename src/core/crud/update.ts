@@ -1,17 +1,22 @@
 import { type Filter, type FindOneAndUpdateOptions, type UpdateFilter, type UpdateOptions } from 'mongodb'
+import { ODMError, OperationDisallowedError, UpsertDisallowedError } from '../../errors/index.js'
 import * as db from '../../index.js'
 import { type AnyProps, type Document } from '../../types/index.js'
+import { mapDriverError } from '../../utils/index.js'
 import { type Schema } from '../Schema.js'
+import { withActiveSession } from '../session.js'
 import { findMany, findOne } from './find.js'
 
 export async function updateOne<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, update: UpdateFilter<Document<P>>, options: UpdateOptions = {}): Promise<boolean> {
-  if (schema.noUpdates === true) throw new Error(`[${schema.model}] Updates are disallowed for this model`)
-  if (options.upsert === true && schema.allowUpserts !== true) throw new Error(`[${schema.model}] Attempting to upsert a document while upserting is disallowed in the schema`)
+  if (schema.noUpdates === true) throw new OperationDisallowedError('Updates are disallowed for this model', { model: schema.model, operation: 'updateOne' })
+  if (options.upsert === true && schema.allowUpserts !== true) throw new UpsertDisallowedError('Attempting to upsert a document while upserting is disallowed in the schema', { model: schema.model, operation: 'updateOne' })
 
   const collection = await db.getCollection<Document<P>>(schema.collection)
-  const result = await collection.updateOne(filter, update, options)
+  const result = await collection.updateOne(filter, update, withActiveSession(options, db.getDbClient(schema.collection))).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'updateOne' })
+  })
 
-  if (!result.acknowledged) throw new Error(`[${schema.model}] Unable to update the document`)
+  if (!result.acknowledged) throw new ODMError('Unable to update the document', { model: schema.model, operation: 'updateOne' })
 
   if (options.upsert === true && result.upsertedCount > 0) return true
   if (result.modifiedCount > 0) return true
@@ -20,42 +25,47 @@ export async function updateOne<P extends AnyProps = AnyProps>(schema: Schema<P>
 }
 
 export async function findOneAndUpdate<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, update: UpdateFilter<Document<P>>, options: FindOneAndUpdateOptions = {}): Promise<[Document<P> | undefined, Document<P>]> {
-  if (schema.noUpdates === true) throw new Error(`[${schema.model}] Updates are disallowed for this model`)
-  if (options.upsert === true && schema.allowUpserts !== true) throw new Error(`[${schema.model}] Attempting to upsert a document while upserting is disallowed in the schema`)
+  if (schema.noUpdates === true) throw new OperationDisallowedError('Updates are disallowed for this model', { model: schema.model, operation: 'findOneAndUpdate' })
+  if (options.upsert === true && schema.allowUpserts !== true) throw new UpsertDisallowedError('Attempting to upsert a document while upserting is disallowed in the schema', { model: schema.model, operation: 'findOneAndUpdate' })
 
   const collection = await db.getCollection<Document<P>>(schema.collection)
-  const result = await collection.findOneAndUpdate(filter, update, { ...options, returnDocument: 'before', includeResultMetadata: true })
+  const opts = withActiveSession(options, db.getDbClient(schema.collection))
+  const result = await collection.findOneAndUpdate(filter, update, { ...opts, returnDocument: 'before', includeResultMetadata: true }).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'findOneAndUpdate' })
+  })
 
-  if (result.ok !== 1) throw new Error(`[${schema.model}] Update failed`)
+  if (result.ok !== 1) throw new ODMError('Update failed', { model: schema.model, operation: 'findOneAndUpdate' })
 
   let oldDoc: Document<P> | undefined
   let newDoc: Document<P>
 
   // Handle upserts properly. If upsertion happened, there is no old doc.
   if (result.lastErrorObject?.upserted) {
-    newDoc = await findOne(schema, result.lastErrorObject.upserted)
+    newDoc = await findOne(schema, result.lastErrorObject.upserted, { session: opts.session })
   }
   else if (result.value) {
     oldDoc = result.value as Document<P>
-    newDoc = await findOne(schema, oldDoc._id)
+    newDoc = await findOne(schema, oldDoc._id, { session: opts.session })
   }
   else {
-    throw new Error(`[${schema.model}] Unable to return the old document before the update`)
+    throw new ODMError('Unable to return the old document before the update', { model: schema.model, operation: 'findOneAndUpdate' })
   }
 
-  if (!newDoc) throw new Error(`[${schema.model}] Unable to find the updated doc`)
+  if (!newDoc) throw new ODMError('Unable to find the updated doc', { model: schema.model, operation: 'findOneAndUpdate' })
 
   return [oldDoc, newDoc]
 }
 
 export async function updateMany<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, update: UpdateFilter<Document<P>>, options: UpdateOptions = {}): Promise<Document<P>[] | boolean> {
-  if (schema.noUpdates === true || schema.noUpdateMany === true) throw new Error(`[${schema.model}] Multiple updates are disallowed for this model`)
-  if (options.upsert === true && schema.allowUpserts !== true) throw new Error(`[${schema.model}] Attempting to upsert a document while upserting is disallowed in the schema`)
+  if (schema.noUpdates === true || schema.noUpdateMany === true) throw new OperationDisallowedError('Multiple updates are disallowed for this model', { model: schema.model, operation: 'updateMany' })
+  if (options.upsert === true && schema.allowUpserts !== true) throw new UpsertDisallowedError('Attempting to upsert a document while upserting is disallowed in the schema', { model: schema.model, operation: 'updateMany' })
 
   const collection = await db.getCollection<Document<P>>(schema.collection)
-  const result = await collection.updateMany(filter, update, options)
+  const result = await collection.updateMany(filter, update, withActiveSession(options, db.getDbClient(schema.collection))).catch(err => {
+    throw mapDriverError(err, { model: schema.model, operation: 'updateMany' })
+  })
 
-  if (!result.acknowledged) throw new Error(`[${schema.model}] Unable to update many documents`)
+  if (!result.acknowledged) throw new ODMError('Unable to update many documents', { model: schema.model, operation: 'updateMany' })
 
   if (options.upsert === true && result.upsertedCount > 0) return true
   if (result.modifiedCount > 0) return true
@@ -64,26 +74,32 @@ export async function updateMany<P extends AnyProps = AnyProps>(schema: Schema<P
 }
 
 export async function findManyAndUpdate<P extends AnyProps = AnyProps>(schema: Schema<P>, filter: Filter<Document<P>>, update: UpdateFilter<Document<P>>, options: FindOneAndUpdateOptions = {}): Promise<[undefined, Document<P>[]]> {
-  if (schema.noUpdates === true || schema.noUpdateMany === true) throw new Error(`[${schema.model}] Multiple updates are disallowed for this model`)
-  if (options.upsert === true && schema.allowUpserts !== true) throw new Error(`[${schema.model}] Attempting to upsert a document while upserting is disallowed in the schema`)
+  if (schema.noUpdates === true || schema.noUpdateMany === true) throw new OperationDisallowedError('Multiple updates are disallowed for this model', { model: schema.model, operation: 'findManyAndUpdate' })
+  if (options.upsert === true && schema.allowUpserts !== true) throw new UpsertDisallowedError('Attempting to upsert a document while upserting is disallowed in the schema', { model: schema.model, operation: 'findManyAndUpdate' })
 
   const collection = await db.getCollection<Document<P>>(schema.collection)
+  const opts = withActiveSession(options, db.getDbClient(schema.collection))
 
-  const docs = await findMany(schema, filter)
+  const docs = await findMany(schema, filter, { session: opts.session })
   const n = docs.length
   const newDocs: Document<P>[] = []
 
   if (n <= 0 && options.upsert === true) {
-    const [, newDoc] = await findOneAndUpdate(schema, filter, update, options)
+    const [, newDoc] = await findOneAndUpdate(schema, filter, update, opts)
     newDocs.push(newDoc)
   }
   else {
     for (let i = 0; i < n; i++) {
       const doc = docs[i]
-      const result = await collection.findOneAndUpdate({ _id: doc._id } as Filter<Document<P>>, update, { ...options, returnDocument: 'after', includeResultMetadata: true })
 
-      if (result.ok !== 1) throw new Error(`[${schema.model}] Unable to update many documents`)
-      if (!result.value) throw new Error(`[${schema.model}] Unable to update many documents`)
+      // Match the filter again so that documents that no longer match it since
+      // they were found are skipped.
+      const result = await collection.findOneAndUpdate({ $and: [{ _id: doc._id }, filter] } as Filter<Document<P>>, update, { ...opts, returnDocument: 'after', includeResultMetadata: true }).catch(err => {
+        throw mapDriverError(err, { model: schema.model, operation: 'findManyAndUpdate' })
+      })
+
+      if (result.ok !== 1) throw new ODMError('Unable to update many documents', { model: schema.model, operation: 'findManyAndUpdate' })
+      if (!result.value) continue
 
       newDocs.push(result.value as Document<P>)
     }
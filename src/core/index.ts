@@ -3,6 +3,10 @@ import * as CRUD from './crud/index.js'
 
 export * from './Connection.js'
 export * from './Model.js'
+export * from './ModelCursor.js'
+export * from './PipelineBuilder.js'
+export * from './Query.js'
 export * from './Schema.js'
+export * from './session.js'
 export { modelFactory as Model } from './modelFactory.js'
 export { Aggregation, CRUD }
@@ -5,8 +5,10 @@ import _ from 'lodash'
 import { describe, it } from 'mocha'
 import { ObjectId } from 'mongodb'
 import { Bar, Foo, type BarProps } from '../__mocks__/models.js'
-import { configureDb, getDbConnection, typeIsIdentifiableDocument } from '../index.js'
+import { ODMError, ValidationError } from '../errors/index.js'
+import { Model, configureDb, getDbConnection, typeIsIdentifiableDocument } from '../index.js'
 import { type DocumentFragment } from '../types/index.js'
+import { getEncryptionKeyId, typeIsEncryptedFieldValue } from '../utils/index.js'
 
 const chance = new Chance()
 
@@ -30,6 +32,12 @@ describe('core/Model', () => {
     assert(Foo.schema)
   })
 
+  it('throws an error if a field is both hashed and encrypted', () => {
+    assert.throws(() => Model({ model: 'Qux', collection: 'quxs', fields: { aString: { type: String, encrypted: true, encryption: 'aes-256-gcm' } } }), ODMError)
+    assert.throws(() => Model({ model: 'Qux', collection: 'quxs', fields: { anObject: { type: { aString: { type: String, hashed: true, encryption: 'aes-256-gcm' } } } } }), ODMError)
+    assert.throws(() => Model({ model: 'Qux', collection: 'quxs', fields: { aString: { type: String, encryption: true as any } } }), ODMError)
+  })
+
   it('can find a document', async () => {
     const t = { aString: chance.string({ length: 10 }) }
     const res = await Bar.insertOneStrict(t)
@@ -53,6 +61,79 @@ describe('core/Model', () => {
     assert(docs.length === 3)
   })
 
+  it('can stream documents', async () => {
+    const s = chance.string({ length: 10 })
+
+    await Bar.insertMany([{ aString: s }, { aString: s }, { aString: s }])
+
+    const docs = []
+
+    for await (const doc of Bar.stream({ aString: s }, { batchSize: 1 })) {
+      docs.push(doc)
+    }
+
+    assert(docs.length === 3)
+    assert(docs.every(doc => doc.aString === s))
+  })
+
+  it('can stop streaming documents early', async () => {
+    const s = chance.string({ length: 10 })
+
+    await Bar.insertMany([{ aString: s }, { aString: s }, { aString: s }])
+
+    let count = 0
+
+    for await (const doc of Bar.stream({ aString: s }, { batchSize: 1 })) {
+      assert(doc.aString === s)
+      count++
+      if (count === 1) break
+    }
+
+    assert(count === 1)
+  })
+
+  it('can populate reference fields when finding documents', async () => {
+    const bar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }) })
+    const otherBar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }), aBar: bar._id })
+    const foo = await Foo.insertOneStrict({ aString: chance.string({ length: 10 }), aBar: otherBar._id, someBars: [bar._id, otherBar._id] })
+
+    const doc = await Foo.findOneStrict(foo._id, { populate: { aBar: { populate: { aBar: true } }, someBars: true } })
+
+    assert(doc.aBar._id.equals(otherBar._id))
+    assert(doc.aBar.aBar._id.equals(bar._id))
+    assert(doc.someBars?.length === 2)
+
+    const docs = await Foo.findMany({ _id: foo._id }, { populate: { aBar: true } })
+
+    assert(docs[0].aBar.aString === otherBar.aString)
+  })
+
+  it('can load relations when finding documents', async () => {
+    const bar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }) })
+    const otherBar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }) })
+    const foo = await Foo.insertOneStrict({ aString: chance.string({ length: 10 }), aNumber: 1, aBar: bar._id })
+    const otherFoo = await Foo.insertOneStrict({ aString: chance.string({ length: 10 }), aNumber: 2, aBar: otherBar._id, someBars: [bar._id] })
+
+    const doc = await Bar.findOneStrict(bar._id, { relations: { foos: { model: Foo, sort: { aNumber: -1 } }, numberOfFoos: { model: 'Foo', field: 'aBar', count: true } } })
+    const ids: ObjectId[] = doc.foos.map(related => related._id)
+    const count: number = doc.numberOfFoos
+
+    assert.deepStrictEqual(ids, [otherFoo._id, foo._id])
+    assert(count === 1)
+  })
+
+  it('can find documents with selected fields in sorted order', async () => {
+    const s = chance.string({ length: 10 })
+
+    await Bar.insertMany([{ aString: s, aNumber: 2 }, { aString: s, aNumber: 1 }])
+
+    const docs = await Bar.findMany({ aString: s }, { select: { aNumber: 1 }, sort: { aNumber: 1 } })
+    const numbers: number[] = docs.map(doc => doc.aNumber)
+
+    assert.deepStrictEqual(numbers, [1, 2])
+    assert(docs.every(doc => !('aString' in doc)))
+  })
+
   it('can find a random document', async () => {
     await Bar.findOneStrict()
   })
@@ -161,6 +242,169 @@ describe('core/Model', () => {
     assert(newBar.anObject && newBar.anObject.aString === 'foo')
   })
 
+  it('can insert and update arrays of embedded docs', async () => {
+    const bar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }), someObjects: [{ aString: ' foo ' }] })
+    assert(bar.someObjects?.[0]._id instanceof ObjectId)
+    assert(bar.someObjects[0].aString === 'foo')
+    assert(bar.someObjects[0].aNumber === 0)
+
+    await assert.rejects(Bar.insertOneStrict({ aString: chance.string({ length: 10 }), someObjects: [{ aNumber: 1 }] } as any), ValidationError)
+
+    const pushed = await Bar.updateOneStrict(bar._id, { $push: { someObjects: { aString: ' bar ', aNumber: 1 } } }, { returnDocument: 'after' })
+    assert(typeIsIdentifiableDocument(pushed))
+    assert(pushed.someObjects?.[1]._id instanceof ObjectId)
+    assert(pushed.someObjects[1].aString === 'bar')
+
+    const updated = await Bar.updateOneStrict({ '_id': bar._id, 'someObjects.aString': 'bar' }, { 'someObjects.$.aNumber': 2 }, { returnDocument: 'after' })
+    assert(typeIsIdentifiableDocument(updated))
+    assert(updated.someObjects?.[1].aNumber === 2)
+
+    await assert.rejects(Bar.updateOneStrict(bar._id, { 'someObjects.$[].aNumber': 'foo' }), ValidationError)
+  })
+
+  it('can apply default values, formatters, validators and encryption to nested fields', async () => {
+    const s = chance.string({ length: 10 })
+    const bar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }), anObject: { aString: ' foo ', aNumber: 1, anEncryptedString: s } as any })
+    assert(bar.anObject?.aString === 'foo')
+    assert(bar.anObject.aBoolean === false)
+    assert(bar.anObject.anEncryptedString && await bcrypt.compare(s, bar.anObject.anEncryptedString))
+
+    await assert.rejects(Bar.insertOneStrict({ aString: chance.string({ length: 10 }), anObject: { aNumber: -1 } as any }), ValidationError)
+    await assert.rejects(Bar.updateOneStrict(bar._id, { 'anObject.aNumber': -1 }), ValidationError)
+    await assert.rejects(Bar.updateOneStrict(bar._id, { 'someObjects.$[].aNumber': -1 }), ValidationError)
+
+    const updated = await Bar.updateOneStrict(bar._id, { 'anObject.aString': ' bar ', 'anObject.anEncryptedString': s } as any, { returnDocument: 'after' })
+    assert(typeIsIdentifiableDocument(updated))
+    assert(updated.anObject?.aString === 'bar')
+    assert(updated.anObject.anEncryptedString && await bcrypt.compare(s, updated.anObject.anEncryptedString))
+
+    const replaced = await Bar.updateOneStrict(bar._id, { anObject: { aString: ' baz ' } as any }, { returnDocument: 'after' })
+    assert(typeIsIdentifiableDocument(replaced))
+    assert(replaced.anObject?.aString === 'baz')
+    assert(replaced.anObject.aBoolean === false)
+  })
+
+  it('can encrypt and decrypt fields and rotate encryption keys', async () => {
+    const s = chance.string({ length: 10 })
+    const dates = [new Date(), new Date(0)]
+    const bar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }), aSecretString: s, someSecretDates: dates })
+    assert(bar.aSecretString === s)
+    assert.deepStrictEqual(bar.someSecretDates, dates)
+
+    const collection = await Bar.getCollection()
+    const raw = await collection.findOne({ _id: bar._id })
+    assert(typeIsEncryptedFieldValue(raw?.aSecretString))
+    assert(raw?.someSecretDates.every(typeIsEncryptedFieldValue))
+
+    const doc = await Bar.findOneStrict(bar._id)
+    assert(doc.aSecretString === s)
+    assert.deepStrictEqual(doc.someSecretDates, dates)
+
+    const updated = await Bar.updateOneStrict(bar._id, { $set: { aSecretString: 'foo' }, $push: { someSecretDates: new Date(1) } }, { returnDocument: 'after' })
+    assert(typeIsIdentifiableDocument(updated))
+    assert(updated.aSecretString === 'foo')
+    assert.deepStrictEqual(updated.someSecretDates, [...dates, new Date(1)])
+
+    Object.assign(Bar.encryptionKeyProvider, { currentKeyId: 'k2' })
+
+    try {
+      assert(await Bar.rotateEncryptionKeys({ batchSize: 1 }) > 0)
+      assert(await Bar.rotateEncryptionKeys() === 0)
+
+      const rotated = await collection.findOne({ _id: bar._id })
+      assert(getEncryptionKeyId(rotated?.aSecretString) === 'k2')
+      assert((await Bar.findOneStrict(bar._id)).aSecretString === 'foo')
+    }
+    finally {
+      Object.assign(Bar.encryptionKeyProvider, { currentKeyId: 'k1' })
+    }
+  })
+
+  it('does not overwrite concurrent updates when rotating encryption keys', async () => {
+    const bar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }), aSecretString: 'foo' })
+    const { getKey } = Bar.encryptionKeyProvider
+    let updated = false
+
+    Object.assign(Bar.encryptionKeyProvider, {
+      currentKeyId: 'k2',
+      getKey: async (keyId: string) => {
+        if (!updated) {
+          updated = true
+          await Bar.updateOneStrict(bar._id, { $set: { aSecretString: 'bar' } })
+        }
+
+        return getKey(keyId)
+      },
+    })
+
+    try {
+      await Bar.rotateEncryptionKeys()
+      assert(updated)
+      assert((await Bar.findOneStrict(bar._id)).aSecretString === 'bar')
+    }
+    finally {
+      Object.assign(Bar.encryptionKeyProvider, { currentKeyId: 'k1', getKey })
+    }
+  })
+
+  it('can decrypt populated and related documents', async () => {
+    const bar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }), aSecretString: 'foo' })
+    await Bar.insertOneStrict({ aString: chance.string({ length: 10 }), aBar: bar._id, aSecretString: 'bar' })
+    const foo = await Foo.insertOneStrict({ aString: chance.string({ length: 10 }), aBar: bar._id })
+
+    const populated = await Foo.findOneStrict(foo._id, { populate: { aBar: true } })
+    assert(populated.aBar.aSecretString === 'foo')
+
+    const [related] = await Bar.findMany(bar._id, { relations: { bars: { model: Bar, field: 'aBar' } } })
+    assert(related.bars[0].aSecretString === 'bar')
+  })
+
+  it('cannot remove required fields of a doc unless allowed', async () => {
+    const bar = await Bar.insertOneStrict({ aString: chance.string({ length: 10 }) })
+    const foo = await Foo.insertOneStrict({ aString: chance.string({ length: 10 }), aBar: bar._id })
+
+    await assert.rejects(Bar.updateOneStrict(bar._id, { aString: undefined }), ValidationError)
+    await assert.rejects(Foo.updateOneStrict(foo._id, { $unset: { aBar: '' } }), ValidationError)
+
+    assert(await Foo.updateOneStrict(foo._id, { $unset: { aBar: '' } }, { allowRequiredFieldRemoval: true }))
+  })
+
+  it('rejects emptying required arrays of any of the matched docs unless allowed', async () => {
+    class Qux extends Model<{ aString: string; someNumbers: number[] }>({
+      model: 'Qux',
+      collection: 'quxs',
+      fields: {
+        aString: { type: String, required: true },
+        someNumbers: { type: [Number], required: true },
+      },
+    }) {}
+
+    configureDb('qux', {
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+      models: { Qux },
+    })
+
+    const s = chance.string({ length: 10 })
+    const [a, b] = await Qux.insertMany([{ aString: s, someNumbers: [1] }, { aString: s, someNumbers: [1, 2] }])
+
+    const isRequiredError = (err: ValidationError) => err instanceof ValidationError && err.errors[0].rule === 'required' && err.errors[0].path === 'someNumbers'
+
+    await assert.rejects(Qux.updateMany({ aString: s }, { $pull: { someNumbers: 1 } }), isRequiredError)
+    assert.deepStrictEqual((await Qux.findOneStrict(b._id)).someNumbers, [1, 2])
+
+    await assert.rejects(Qux.updateOneStrict(a._id, { $pop: { someNumbers: 1 } }), isRequiredError)
+    await assert.rejects(Qux.updateOneStrict(a._id, { $pull: { someNumbers: 1 } }, { returnDocument: 'after' }), isRequiredError)
+    await assert.rejects(Qux.updateOneStrict(a._id, { $push: { someNumbers: { $each: [2], $slice: 0 } } }), isRequiredError)
+    assert.deepStrictEqual((await Qux.findOneStrict(a._id)).someNumbers, [1])
+
+    assert(await Qux.updateOneStrict(b._id, { $pull: { someNumbers: 1 } }))
+    assert.deepStrictEqual((await Qux.findOneStrict(b._id)).someNumbers, [2])
+
+    assert(await Qux.updateMany({ aString: s }, { $pullAll: { someNumbers: [1, 2] } }, { allowRequiredFieldRemoval: true }))
+    assert(await Qux.count({ aString: s, someNumbers: { $size: 0 } }) === 2)
+  })
+
   it('can upsert a doc if it does not already exist', async () => {
     const s = chance.string({ length: 10 })
     const t = { aString: s }
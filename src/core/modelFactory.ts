@@ -11,28 +11,41 @@
 
 import bcrypt from 'bcrypt'
 import useDebug from 'debug'
-import { type Collection, type DeleteOptions, type Filter, type FindOneAndDeleteOptions, type FindOneAndReplaceOptions, type FindOneAndUpdateOptions, type ObjectId, type ReplaceOptions, type UpdateFilter, type UpdateOptions } from 'mongodb'
-import { cloneDeep, get, isEmpty, omit, pick } from '../helpers/index.js'
+import { ObjectId, type AnyBulkWriteOperation, type Binary, type BulkWriteOptions, type Collection, type DeleteOptions, type Filter, type FindOneAndDeleteOptions, type FindOneAndReplaceOptions, type FindOneAndUpdateOptions, type FindOptions, type ReplaceOptions, type UpdateFilter, type UpdateOptions } from 'mongodb'
+import { EncryptionError, ODMError, OperationDisallowedError, UpsertDisallowedError, ValidationError, type ValidationErrorEntry } from '../errors/index.js'
+import { cloneDeep, get, isEmpty, isPlainObject, omit, pick } from '../helpers/index.js'
 import * as db from '../index.js'
-import { type AnyDocument, type AnyFilter, type AnyProps, type AnyUpdate, type Document, type DocumentFragment, type InsertableDocument } from '../types/index.js'
-import { getFieldSpecByKey, sanitizeDocument, sanitizeFilter, sanitizeUpdate, typeIsAnyDocument, typeIsValidObjectId, validateFieldValue } from '../utils/index.js'
-import { type FieldValidationStrategy, type Model, type ModelDefaultPropertyProvider, type ModelDeleteManyOptions, type ModelDeleteOneOptions, type ModelFindManyOptions, type ModelFindOneOptions, type ModelInsertManyOptions, type ModelInsertOneOptions, type ModelPropertyFormattingProvider, type ModelPropertyValidationProvider, type ModelRandomFieldsOptions, type ModelRandomPropertyProvider, type ModelReplaceOneOptions, type ModelUpdateManyOptions, type ModelUpdateOneOptions, type ModelValidateDocumentOptions } from './Model.js'
-import { typeIsFieldDescriptor, type FieldDescriptor, type MultiFieldDescriptor, type Schema } from './Schema.js'
+import { type AnyDocument, type AnyFilter, type AnyProps, type AnyUpdate, type Document, type DocumentFragment, type InsertableDocument, type OffsetPage, type Page } from '../types/index.js'
+import { decryptFieldValue, encryptFieldValue, getElementSpec, getEncryptionKeyId, getFieldSpecByKey, getPropertyProviderKey, mapDriverError, prefixed, randomFieldValue, sanitizeDocument, sanitizeFilter, sanitizeUpdate, typeIsAnyDocument, typeIsEncryptedFieldValue, typeIsValidObjectId, validateFieldValue, validateUpdate } from '../utils/index.js'
+import { type EncryptionKeyProvider, type FieldValidationStrategy, type Model, type ModelCountOptions, type ModelDecryptDocumentOptions, type ModelDefaultPropertyProvider, type ModelDeleteManyOptions, type ModelDeleteOneOptions, type ModelDistinctOptions, type ModelExistsOptions, type ModelFindManyOptions, type ModelFindOneOptions, type ModelFindPageOptions, type ModelFindResult, type ModelInsertManyOptions, type ModelInsertOneOptions, type ModelPaginateOptions, type ModelPropertyFormattingProvider, type ModelPropertyValidationProvider, type ModelRandomFieldsOptions, type ModelRandomPropertyProvider, type ModelReplaceOneOptions, type ModelRotateEncryptionKeysOptions, type ModelStreamOptions, type ModelUpdateManyOptions, type ModelUpdateOneOptions, type ModelValidateDocumentOptions } from './Model.js'
+import { PipelineBuilder } from './PipelineBuilder.js'
+import { Query } from './Query.js'
+import { typeIsFieldDescriptor, type FieldDescriptor, type MultiFieldDescriptor, type Schema, type SchemaProps } from './Schema.js'
 import type * as Aggregation from './aggregation/index.js'
 import * as CRUD from './crud/index.js'
+import { withActiveSession } from './session.js'
 
 /**
- * Generates an abstract, static model class with the provided schema.
+ * Generates an abstract, static model class with the provided schema. If the
+ * schema is declared `as const` without an explicit `Schema<P>` type, the props
+ * of the model are inferred from its fields.
  *
  * @param schema The schema of the model to be generated.
  *
  * @returns The generated model class.
  *
+ * @throws {ODMError} A field of the schema is both hashed and encrypted, or
+ *                    is encrypted with an unsupported algorithm.
+ *
  * @see {@link Model}
  */
+export function modelFactory<const S extends Schema<any>>(schema: S): Model<SchemaProps<S>>
+export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>): Model<P>
 export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>): Model<P> {
   const debug = useDebug(`mongodb-odm:model:${schema.model}`)
 
+  validateFieldEncryption(schema.fields, schema.model)
+
   return class {
     /** @see {@link Model.schema} */
     static readonly schema = schema
@@ -49,6 +62,9 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
     /** @see {@link Model.validateProps} */
     static readonly validateProps: ModelPropertyValidationProvider<P> = {}
 
+    /** @see {@link Model.encryptionKeyProvider} */
+    static readonly encryptionKeyProvider: EncryptionKeyProvider | undefined = undefined
+
     constructor() {
       throw new Error('This is a static class and is prohibited from being instantiated')
     }
@@ -71,12 +87,22 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
 
         const fn = this.randomProps[key]
 
-        if (typeof fn !== 'function') throw new Error(`[${this.schema.model}] Property "${key}" in randomProps must be a function`)
+        if (typeof fn !== 'function') throw new ODMError(`Property "${key}" in randomProps must be a function`, { model: this.schema.model, operation: 'randomFields' })
 
         // Use provided random function if provided in the schema.
         o[key] = fn() as any
       }
 
+      // Fall back to generating random values based on field types.
+      for (const key in fields) {
+        if (!{}.hasOwnProperty.call(fields, key)) continue
+        if ({}.hasOwnProperty.call(this.randomProps, key)) continue
+        if (!includeOptionals && !fields[key].required) continue
+
+        const value = randomFieldValue(fields[key])
+        if (value !== undefined) o[key] = value as any
+      }
+
       for (const key in fixedFields) {
         if (!{}.hasOwnProperty.call(fixedFields, key)) continue
         o[key as keyof P] = fixedFields[key as keyof P]
@@ -108,19 +134,16 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
     }
 
     /** @see {@link Model.findOneStrict} */
-    static async findOneStrict<R extends AnyProps = P>(filter?: AnyFilter<P> | Aggregation.Pipeline, options: ModelFindOneOptions = {}): Promise<Document<R>> {
-      if (filter) {
-        return CRUD.findOne(this.schema, filter, options)
-      }
-      else {
-        return CRUD.findOneRandom(this.schema)
-      }
+    static async findOneStrict<R extends AnyProps = P, const S extends Aggregation.PopulateStageFactorySpecs<P> = Record<never, never>, const F extends Aggregation.FieldSelection<P> = Record<never, never>, const L extends Aggregation.RelationStageFactorySpecs = Record<never, never>>(filter?: AnyFilter<P> | Aggregation.Pipeline, options: ModelFindOneOptions<P, S, F, L> = {}): Promise<ModelFindResult<R, S, F, L>> {
+      const doc = filter ? await CRUD.findOne<P, any>(this.schema, filter, options) : await CRUD.findOneRandom<P, any>(this.schema, options)
+
+      return this.decryptDocument(doc, { relations: options.relations })
     }
 
     /** @see {@link Model.findOne} */
-    static async findOne<R extends AnyProps = P>(filter?: AnyFilter<P> | Aggregation.Pipeline, options: ModelFindOneOptions = {}): Promise<Document<R> | undefined> {
+    static async findOne<R extends AnyProps = P, const S extends Aggregation.PopulateStageFactorySpecs<P> = Record<never, never>, const F extends Aggregation.FieldSelection<P> = Record<never, never>, const L extends Aggregation.RelationStageFactorySpecs = Record<never, never>>(filter?: AnyFilter<P> | Aggregation.Pipeline, options: ModelFindOneOptions<P, S, F, L> = {}): Promise<ModelFindResult<R, S, F, L> | undefined> {
       try {
-        const res = await this.findOneStrict<R>(filter, options)
+        const res = await this.findOneStrict<R, S, F, L>(filter, options)
 
         return res
       }
@@ -130,21 +153,64 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
     }
 
     /** @see {@link Model.findMany} */
-    static async findMany<R extends AnyProps = P>(filter?: AnyFilter<P> | Aggregation.Pipeline, options: ModelFindManyOptions = {}): Promise<Document<R>[]> {
-      if (filter) {
-        return CRUD.findMany(this.schema, filter, options)
+    static async findMany<R extends AnyProps = P, const S extends Aggregation.PopulateStageFactorySpecs<P> = Record<never, never>, const F extends Aggregation.FieldSelection<P> = Record<never, never>, const L extends Aggregation.RelationStageFactorySpecs = Record<never, never>>(filter?: AnyFilter<P> | Aggregation.Pipeline, options: ModelFindManyOptions<P, S, F, L> = {}): Promise<ModelFindResult<R, S, F, L>[]> {
+      const docs = filter ? await CRUD.findMany<P, any>(this.schema, filter, options) : await CRUD.findAll<P, any>(this.schema, options)
+
+      return this.decryptDocuments(docs, { relations: options.relations })
+    }
+
+    /** @see {@link Model.query} */
+    static query(): Query<P> {
+      return new Query(this.schema)
+    }
+
+    /** @see {@link Model.aggregate} */
+    static aggregate(): PipelineBuilder<P> {
+      return new PipelineBuilder(this.schema)
+    }
+
+    /** @see {@link Model.stream} */
+    static async *stream<R extends AnyProps = P>(filter?: AnyFilter<P> | Aggregation.Pipeline, options: ModelStreamOptions = {}): AsyncGenerator<Document<R>, void, undefined> {
+      const cursor = await CRUD.findManyCursor<P, R>(this.schema, filter, options)
+
+      try {
+        for await (const doc of cursor) {
+          yield await this.decryptDocument(doc)
+        }
       }
-      else {
-        return CRUD.findAll(this.schema)
+      catch (err) {
+        throw mapDriverError(err, { model: this.schema.model, operation: 'stream' })
+      }
+      finally {
+        await cursor.close()
       }
     }
 
+    /** @see {@link Model.paginate} */
+    static async paginate<R extends AnyProps = P>(options: ModelPaginateOptions<P> = {}): Promise<Page<R>> {
+      const page = await CRUD.paginate<P, R>(this.schema, options)
+      const edges = []
+
+      for (const edge of page.edges) {
+        edges.push({ ...edge, node: await this.decryptDocument(edge.node) })
+      }
+
+      return { ...page, edges }
+    }
+
+    /** @see {@link Model.findPage} */
+    static async findPage<R extends AnyProps = P>(filter?: AnyFilter<P>, options: ModelFindPageOptions<P> = {}): Promise<OffsetPage<R>> {
+      const page = await CRUD.findPage<P, R>(this.schema, filter, options)
+
+      return { ...page, items: await this.decryptDocuments(page.items) }
+    }
+
     /** @see {@link Model.insertOneStrict} */
     static async insertOneStrict(doc?: DocumentFragment<P>, options: ModelInsertOneOptions = {}): Promise<Document<P>> {
-      if (schema.noInserts === true) throw new Error(`[${this.schema.model}] Insertions are disallowed for this model`)
+      if (schema.noInserts === true) throw new OperationDisallowedError('Insertions are disallowed for this model', { model: this.schema.model, operation: 'insertOne' })
 
       const docToInsert = await this.beforeInsertOne(doc ?? await this.randomFields(), { strict: true, ...options })
-      const insertedDoc = await CRUD.insertOne(this.schema, docToInsert, options)
+      const insertedDoc = await this.decryptDocument(await CRUD.insertOne(this.schema, docToInsert, options))
 
       await this.afterInsertOne(insertedDoc)
 
@@ -165,10 +231,10 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
 
     /** @see {@link Model.insertMany} */
     static async insertMany(docs: DocumentFragment<P>[], options: ModelInsertManyOptions = {}): Promise<Document<P>[]> {
-      if (this.schema.noInserts === true || this.schema.noInsertMany === true) throw new Error(`[${this.schema.model}] Multiple insertions are disallowed for this model`)
+      if (this.schema.noInserts === true || this.schema.noInsertMany === true) throw new OperationDisallowedError('Multiple insertions are disallowed for this model', { model: this.schema.model, operation: 'insertMany' })
 
       const docsToInsert = await this.beforeInsertMany(docs, { strict: true, ...options })
-      const insertedDocs = await CRUD.insertMany(this.schema, docsToInsert, options)
+      const insertedDocs = await this.decryptDocuments(await CRUD.insertMany(this.schema, docsToInsert, options))
 
       debug('Inserting multiple documents...', 'OK', docsToInsert, insertedDocs)
 
@@ -179,13 +245,18 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
 
     /** @see {@link Model.updateOneStrict} */
     static async updateOneStrict(filter: AnyFilter<P>, update: AnyUpdate<P>, options: ModelUpdateOneOptions = {}): Promise<boolean | Document<P> | undefined> {
-      if (this.schema.noUpdates === true) throw new Error(`[${this.schema.model}] Updates are disallowed for this model`)
+      if (this.schema.noUpdates === true) throw new OperationDisallowedError('Updates are disallowed for this model', { model: this.schema.model, operation: 'updateOne' })
 
-      const filterToApply = sanitizeFilter(this.schema, filter)
-      const updateToApply = await this.beforeUpdateOne(filterToApply, update, options)
+      const sanitizedFilter = sanitizeFilter(this.schema, filter)
+      const updateToApply = await this.beforeUpdateOne(sanitizedFilter, update, options)
+      const filterToApply = this.guardRequiredArrayRemoval(sanitizedFilter, updateToApply, options)
 
       if (options.returnDocument) {
-        const [oldDoc, newDoc] = await CRUD.findOneAndUpdate(this.schema, filterToApply, updateToApply, options as Exclude<ModelUpdateOneOptions, UpdateOptions>)
+        const [oldDoc, newDoc] = await this.decryptDocuments(await CRUD.findOneAndUpdate(this.schema, filterToApply, updateToApply, options as Exclude<ModelUpdateOneOptions, UpdateOptions>).catch(async err => {
+          // Report if the document is excluded from the update by the guard.
+          await this.validateRequiredArrayRemoval(sanitizedFilter, updateToApply, options)
+          throw err
+        }))
         debug('Updating an existing document...', 'OK', filterToApply, updateToApply, options, oldDoc, newDoc)
         await this.afterUpdateOne(oldDoc, newDoc)
 
@@ -193,6 +264,10 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
       }
       else {
         const result = await CRUD.updateOne(this.schema, filterToApply, updateToApply, options as Exclude<ModelUpdateOneOptions, FindOneAndUpdateOptions>)
+
+        // Report if the document is excluded from the update by the guard.
+        if (!result) await this.validateRequiredArrayRemoval(sanitizedFilter, updateToApply, options)
+
         debug('Updating an existing document...', 'OK', filterToApply, updateToApply, options)
         await this.afterUpdateOne()
 
@@ -214,13 +289,18 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
 
     /** @see {@link Model.updateMany} */
     static async updateMany(filter: AnyFilter<P>, update: AnyUpdate<P>, options: ModelUpdateManyOptions = {}): Promise<boolean | Document<P>[]> {
-      if (this.schema.noUpdates === true || this.schema.noUpdateMany === true) throw new Error(`[${this.schema.model}] Multiple updates are disallowed for this model`)
+      if (this.schema.noUpdates === true || this.schema.noUpdateMany === true) throw new OperationDisallowedError('Multiple updates are disallowed for this model', { model: this.schema.model, operation: 'updateMany' })
 
-      const filterToApply = sanitizeFilter(this.schema, filter)
-      const updateToApply = await this.beforeUpdateMany(filterToApply, update, options)
+      const sanitizedFilter = sanitizeFilter(this.schema, filter)
+      const updateToApply = await this.beforeUpdateMany(sanitizedFilter, update, options)
+
+      await this.validateRequiredArrayRemoval(sanitizedFilter, updateToApply, options)
+
+      const filterToApply = this.guardRequiredArrayRemoval(sanitizedFilter, updateToApply, options)
 
       if (options.returnDocument) {
-        const [, newDocs] = await CRUD.findManyAndUpdate(this.schema, filterToApply, updateToApply, options as Exclude<ModelUpdateManyOptions, UpdateOptions>)
+        const [, updatedDocs] = await CRUD.findManyAndUpdate(this.schema, filterToApply, updateToApply, options as Exclude<ModelUpdateManyOptions, UpdateOptions>)
+        const newDocs = await this.decryptDocuments(updatedDocs)
         debug('Updating multiple existing documents...', 'OK', filterToApply, updateToApply, options, newDocs)
         await this.afterUpdateMany(undefined, newDocs)
 
@@ -237,13 +317,13 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
 
     /** @see {@link Model.deleteOneStrict} */
     static async deleteOneStrict(filter: AnyFilter<P>, options: ModelDeleteOneOptions = {}): Promise<boolean | Document<P>> {
-      if (this.schema.noDeletes === true) throw new Error(`[${this.schema.model}] Deletions are disallowed for this model`)
+      if (this.schema.noDeletes === true) throw new OperationDisallowedError('Deletions are disallowed for this model', { model: this.schema.model, operation: 'deleteOne' })
 
       const filterToApply = sanitizeFilter(this.schema, filter)
       await this.beforeDeleteOne(filterToApply, options)
 
       if (options.returnDocument === true) {
-        const deletedDoc = await CRUD.findAndDeleteOne(this.schema, filterToApply, options as Exclude<ModelDeleteOneOptions, DeleteOptions>)
+        const deletedDoc = await this.decryptDocument(await CRUD.findAndDeleteOne(this.schema, filterToApply, options as Exclude<ModelDeleteOneOptions, DeleteOptions>))
         debug('Deleting an existing document...', 'OK', filter, deletedDoc)
         await this.afterDeleteOne(deletedDoc)
 
@@ -272,13 +352,13 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
 
     /** @see {@link Model.deleteMany} */
     static async deleteMany(filter: AnyFilter<P>, options: ModelDeleteManyOptions = {}): Promise<boolean | Document<P>[]> {
-      if (this.schema.noDeletes === true || this.schema.noDeleteMany === true) throw new Error(`[${this.schema.model}] Multiple deletions are disallowed for this model`)
+      if (this.schema.noDeletes === true || this.schema.noDeleteMany === true) throw new OperationDisallowedError('Multiple deletions are disallowed for this model', { model: this.schema.model, operation: 'deleteMany' })
 
       const filterToApply = sanitizeFilter(this.schema, filter)
       await this.beforeDeleteMany(filterToApply, options)
 
       if (options.returnDocument === true) {
-        const deletedDocs = await CRUD.findManyAndDelete(this.schema, filterToApply, options as Exclude<ModelDeleteManyOptions, DeleteOptions>)
+        const deletedDocs = await this.decryptDocuments(await CRUD.findManyAndDelete(this.schema, filterToApply, options as Exclude<ModelDeleteManyOptions, DeleteOptions>))
         debug('Deleting multiple existing documents...:', 'OK', filterToApply, deletedDocs)
         await this.afterDeleteMany(deletedDocs)
 
@@ -295,13 +375,13 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
 
     /** @see {@link Model.replaceOneStrict} */
     static async replaceOneStrict(filter: AnyFilter<P>, replacement?: DocumentFragment<P>, options: ModelReplaceOneOptions = {}): Promise<boolean | Document<P>> {
-      if (options.upsert === true) throw new Error('Replacement upserts are not supported at this point')
+      if (options.upsert === true) throw new UpsertDisallowedError('Replacement upserts are not supported at this point', { model: this.schema.model, operation: 'replaceOne' })
 
       const filterToApply = sanitizeFilter(this.schema, filter)
       const replacementToApply = await this.beforeReplaceOne(filterToApply, replacement ?? await this.randomFields(), options)
 
       if (options.returnDocument) {
-        const [oldDoc, newDoc] = await CRUD.findOneAndReplace(this.schema, filterToApply, replacementToApply, options as Exclude<ModelReplaceOneOptions, ReplaceOptions>)
+        const [oldDoc, newDoc] = await this.decryptDocuments(await CRUD.findOneAndReplace(this.schema, filterToApply, replacementToApply, options as Exclude<ModelReplaceOneOptions, ReplaceOptions>))
         debug('Replacing an existing document...', 'OK', filterToApply, replacementToApply, oldDoc, newDoc)
         await this.afterReplaceOne(oldDoc, newDoc)
 
@@ -329,51 +409,50 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
     }
 
     /** @see {@link Model.exists} */
-    static async exists(filter: AnyFilter<P>): Promise<boolean> {
-      const id = await this.identifyOne(filter)
-
-      return id ? true : false
+    static async exists(filter: AnyFilter<P>, options: ModelExistsOptions = {}): Promise<boolean> {
+      return CRUD.exists(this.schema, filter, options)
     }
 
     /** @see {@link Model.count} */
-    static async count(filter: AnyFilter<P>): Promise<number> {
-      const result = await this.identifyMany(filter)
+    static async count(filter?: AnyFilter<P>, options: ModelCountOptions = {}): Promise<number> {
+      return CRUD.count(this.schema, filter, options)
+    }
 
-      return result.length
+    /** @see {@link Model.distinct} */
+    static async distinct<K extends keyof Document<P> & string>(field: K, filter?: AnyFilter<P>, options: ModelDistinctOptions = {}): Promise<CRUD.DistinctValue<Document<P>[K]>[]> {
+      return CRUD.distinct<P, K>(this.schema, field, filter, options)
     }
 
     /** @see {@link Model.formatDocument} */
     static async formatDocument(doc: DocumentFragment<P>): Promise<DocumentFragment<P>> {
-      const formattedDoc = cloneDeep(doc)
-      const fields = this.schema.fields
+      const formattedDoc: AnyDocument = cloneDeep(doc)
 
-      for (const key in this.schema.fields) {
+      for (const key in formattedDoc) {
         if (!{}.hasOwnProperty.call(formattedDoc, key)) continue
 
-        const fieldSpec = fields[key]
-        const formatter = this.formatProps[key]
-
-        if (!fieldSpec) throw new Error(`[${this.schema.model}] Field ${key} not found in schema`)
+        // Note that the key can be in dot notation because this method may
+        // also be used when applying doc updates.
+        const fieldSpec = getFieldSpecByKey(this.schema.fields, key)
+        if (!fieldSpec) continue
 
-        // If the schema has a certain formatting function defined for this
-        // field, apply it.
-        if (typeof formatter === 'function') {
-          const formattedValue = await formatter(formattedDoc[key] as any)
-          formattedDoc[key] = formattedValue as any
-        }
-
-        // If the schema indicates that this field is encrypted, encrypt it.
-        if (fieldSpec.encrypted === true) {
-          formattedDoc[key] = await bcrypt.hash(`${formattedDoc[key]}`, 10) as any
-        }
+        const formattedValue = await this.formatFieldValue(formattedDoc[key], fieldSpec, getPropertyProviderKey(key))
+        formattedDoc[key] = formattedValue
       }
 
-      return formattedDoc
+      return formattedDoc as DocumentFragment<P>
     }
 
     /** @see {@link Model.validateDocument} */
     static async validateDocument(doc: DocumentFragment<P>, options: ModelValidateDocumentOptions = {}) {
-      if (isEmpty(doc)) throw new Error(`[${this.schema.model}] Empty objects are not permitted`)
+      if (isEmpty(doc)) throw new ODMError('Empty objects are not permitted', { model: this.schema.model, operation: 'validateDocument' })
+
+      const mode = options.mode ?? 'first'
+      const errors: ValidationErrorEntry[] = []
+
+      const report = (entry: ValidationErrorEntry) => {
+        if (mode === 'first') throw new ValidationError([entry], { model: this.schema.model, operation: 'validateDocument' })
+        errors.push(entry)
+      }
 
       for (const key in doc) {
         if (!{}.hasOwnProperty.call(doc, key)) continue
@@ -385,22 +464,31 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
         if (this.schema.timestamps && key === 'updatedAt') continue
         if (this.schema.timestamps && key === 'createdAt') continue
 
+        // Note that the key can be in dot notation because this method may
+        // also be used when applying doc updates.
+        const val = get(doc, key, undefined)
+
         // #1 Check if field is defined in the schema.
         const fieldSpec = options.accountForDotNotation ? getFieldSpecByKey(this.schema.fields, key) : schema.fields[key as keyof P]
-        if (!fieldSpec) throw new Error(`[${this.schema.model}] The field '${key}' is not defined in the ${JSON.stringify(this.schema.fields, undefined, 0)}`)
 
-        // #2 Check if field value conforms to its defined spec. Note that the
-        // key can be in dot notation because this method may also be used when
-        // applying doc updates.
-        const val = get(doc, key, undefined)
-        const validationStrategy: FieldValidationStrategy<any> | undefined = get(this.validateProps, key, undefined)
+        if (!fieldSpec) {
+          report({ path: key, rule: 'schema', value: val, message: `The field '${key}' is not defined in the schema` })
+          continue
+        }
+
+        // #2 Check if field value conforms to its defined spec.
+        const strategies: Record<string, FieldValidationStrategy<any> | undefined> = this.validateProps
+        const validationStrategy = strategies[getPropertyProviderKey(key)]
 
         try {
-          validateFieldValue(val, fieldSpec, validationStrategy)
+          validateFieldValue(val, fieldSpec, validationStrategy, { path: key, mode, strategies })
         }
         catch (err) {
           debug(`Validating value ${JSON.stringify(val)} for field "${key}"...`, 'ERR', err)
-          throw err
+
+          if (!(err instanceof ValidationError)) throw err
+
+          err.errors.forEach(report)
         }
       }
 
@@ -418,14 +506,126 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
 
           const filter = pick(doc, Object.keys(index.spec)) as Filter<Document<P>>
 
-          if (await this.findOne(filter)) throw new Error(`[${this.schema.model}] Another document already exists with ${JSON.stringify(filter, undefined, 0)}`)
+          if (await this.findOne(filter)) {
+            report({ path: Object.keys(filter).join(','), rule: 'unique', value: filter, message: `Another document already exists with ${JSON.stringify(filter, undefined, 0)}` })
+          }
         }
       }
 
       // #4 Check for required fields if `strict` is `true`.
       if (options.strict === true) {
-        this.validateDocumentRequiredFields(doc)
+        this.validateDocumentRequiredFields(doc, report)
       }
+
+      if (errors.length > 0) throw new ValidationError(errors, { model: this.schema.model, operation: 'validateDocument' })
+    }
+
+    /** @see {@link Model.decryptDocument} */
+    static async decryptDocument<D>(doc: D, { relations = {} }: ModelDecryptDocumentOptions = {}): Promise<D> {
+      if (!typeIsAnyDocument(doc)) return doc
+
+      const decryptedDoc: AnyDocument = { ...doc }
+
+      for (const key of this.getEncryptedFieldKeys()) {
+        if (!{}.hasOwnProperty.call(decryptedDoc, key)) continue
+
+        const decryptedValue = await this.mapEncryptedValues(decryptedDoc[key], this.schema.fields[key], async t => typeIsEncryptedFieldValue(t) ? decryptFieldValue(t, this.getEncryptionKeyProvider('decryptDocument')) : t)
+        decryptedDoc[key] = decryptedValue
+      }
+
+      // Populated reference fields hold documents of the referenced models.
+      for (const key in this.schema.fields) {
+        if (!{}.hasOwnProperty.call(this.schema.fields, key)) continue
+
+        const ref = this.schema.fields[key].ref
+        if (ref === undefined) continue
+
+        const decryptedValue = await decryptForeignDocuments(decryptedDoc[key], ref)
+        decryptedDoc[key] = decryptedValue
+      }
+
+      // Loaded relations hold documents of the related models.
+      for (const name in relations) {
+        if (!{}.hasOwnProperty.call(relations, name)) continue
+
+        const spec = relations[name]
+        if (spec === false) continue
+
+        const { model, count } = { ...this.schema.relations?.[name], ...spec === true ? {} : spec }
+        if (model === undefined || count === true) continue
+
+        const decryptedValue = await decryptForeignDocuments(decryptedDoc[name], typeof model === 'string' ? model : model.schema.model)
+        decryptedDoc[name] = decryptedValue
+      }
+
+      return decryptedDoc as D
+    }
+
+    /** @see {@link Model.rotateEncryptionKeys} */
+    static async rotateEncryptionKeys({ batchSize = 100 }: ModelRotateEncryptionKeysOptions = {}): Promise<number> {
+      const keyProvider = this.getEncryptionKeyProvider('rotateEncryptionKeys')
+      const keys = this.getEncryptedFieldKeys()
+
+      if (keys.length === 0) return 0
+
+      const collection = await this.getCollection()
+      const cursor = collection.find({}, withActiveSession<FindOptions>({ projection: Object.fromEntries(keys.map(key => [key, 1])), batchSize }, db.getDbClient(this.schema.collection)))
+      let operations: AnyBulkWriteOperation[] = []
+      let count = 0
+
+      const rotate = async (value: any, rotated: Binary[]) => {
+        if (!typeIsEncryptedFieldValue(value) || getEncryptionKeyId(value) === keyProvider.currentKeyId) return value
+
+        rotated.push(value)
+
+        return encryptFieldValue(await decryptFieldValue(value, keyProvider), keyProvider)
+      }
+
+      try {
+        for await (const doc of cursor) {
+          const fields: AnyDocument = {}
+          const originalFields: AnyDocument = {}
+
+          for (const key of keys) {
+            if (!{}.hasOwnProperty.call(doc, key)) continue
+
+            const rotated: Binary[] = []
+            const value = await this.mapEncryptedValues(doc[key], this.schema.fields[key], t => rotate(t, rotated))
+
+            if (rotated.length === 0) continue
+
+            fields[key] = value
+            originalFields[key] = doc[key]
+          }
+
+          if (isEmpty(fields)) continue
+
+          // Only update the doc if the rotated fields are unchanged since they
+          // were read, so concurrent updates are not overwritten.
+          operations.push({ updateOne: { filter: { _id: doc._id, ...originalFields }, update: { $set: fields } } })
+
+          if (operations.length < batchSize) continue
+
+          const result = await collection.bulkWrite(operations, withActiveSession<BulkWriteOptions>({ ordered: false }, db.getDbClient(this.schema.collection)))
+          count += result.modifiedCount
+          operations = []
+        }
+
+        if (operations.length > 0) {
+          const result = await collection.bulkWrite(operations, withActiveSession<BulkWriteOptions>({ ordered: false }, db.getDbClient(this.schema.collection)))
+          count += result.modifiedCount
+        }
+      }
+      catch (err) {
+        throw mapDriverError(err, { model: this.schema.model, operation: 'rotateEncryptionKeys' })
+      }
+      finally {
+        await cursor.close()
+      }
+
+      debug('Rotating encryption keys...', 'OK', count)
+
+      return count
     }
 
     /**
@@ -697,7 +897,7 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
         const ModelClass = db.getModel(modelName)
         const fields: Record<string, FieldDescriptor> = ModelClass.schema.fields
 
-        if (!ModelClass) throw new Error(`[${this.schema.model}] Trying to cascade delete from model ${modelName} but model is not found`)
+        if (!ModelClass) throw new ODMError(`Trying to cascade delete from model ${modelName} but model is not found`, { model: this.schema.model, operation: 'cascadeDelete' })
 
         for (const key in ModelClass.schema.fields) {
           if (!{}.hasOwnProperty.call(ModelClass.schema.fields, key)) continue
@@ -737,28 +937,30 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
         docToInsert[key] = typeof defaultValue === 'function' ? defaultValue() : defaultValue
       }
 
+      // Apply the default values of nested fields, including subfields of
+      // embedded docs in arrays.
+      for (const key in this.schema.fields) {
+        if (!{}.hasOwnProperty.call(docToInsert, key)) continue
+
+        docToInsert[key] = this.applyDefaultValues(docToInsert[key], this.schema.fields[key], key)
+      }
+
       // Apply format function defined in the schema if applicable.
       docToInsert = await this.formatDocument(docToInsert)
 
-      // Finally, validate the document. Ignore unique indexes in this step. Let
-      // the db throw an error if the inserted doc violates those indexes.
+      // Validate the document. Ignore unique indexes in this step. Let the db
+      // throw an error if the inserted doc violates those indexes.
       await this.validateDocument(docToInsert, { ignoreUniqueIndex: true, strict: true, accountForDotNotation: false, ...opts })
 
-      return docToInsert as InsertableDocument<P>
+      // Finally, encrypt the validated values of encrypted fields.
+      return this.encryptDocument(docToInsert) as Promise<InsertableDocument<P>>
     }
 
-    /**
-     * @todo Handle remaining update operators.
-     */
     private static async processUpdateBeforeUpdate(filter: Filter<Document<P>>, update: UpdateFilter<Document<P>>, options: ModelUpdateOneOptions | ModelUpdateManyOptions = {}): Promise<UpdateFilter<Document<P>>> {
-      if (options.upsert === true && this.schema.allowUpserts !== true) throw new Error(`[${this.schema.model}] Attempting to upsert a document while upserting is disallowed in the schema`)
-
-      const updateToApply = sanitizeUpdate(this.schema, update, options)
+      if (options.upsert === true && this.schema.allowUpserts !== true) throw new UpsertDisallowedError('Attempting to upsert a document while upserting is disallowed in the schema', { model: this.schema.model, operation: 'update' })
 
-      // Format all fields in the update filter.
-      if (updateToApply.$set) {
-        updateToApply.$set = await this.formatDocument(updateToApply.$set as Document<P>) as any
-      }
+      // Apply default values and format all fields in the update filter.
+      const updateToApply = await this.formatUpdate(sanitizeUpdate(this.schema, update, options))
 
       // In the case of an upsert, we need to preprocess the filter as if this
       // was an insertion. We also need to tell the database to save all fields
@@ -785,7 +987,447 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
         await this.validateDocument(updateToApply.$set as DocumentFragment<P>, { ...options, ignoreUniqueIndex: true, accountForDotNotation: true })
       }
 
-      return updateToApply
+      // Validate the remaining update operators against the field types.
+      validateUpdate(this.schema, updateToApply, { strategies: this.validateProps, mode: options.mode, allowRequiredFieldRemoval: options.allowRequiredFieldRemoval })
+
+      return this.encryptUpdate(updateToApply)
+    }
+
+    /**
+     * Applies the default values of the nested fields of a field value
+     * recursively, including the subfields of embedded docs in arrays, where
+     * each embedded doc of an `autoId` array is also assigned an `_id`. Nested
+     * fields are only assigned default values if their parent is present.
+     *
+     * @param value The field value.
+     * @param spec The spec of the field.
+     * @param key The key of the field in the property providers, see
+     *            {@link getPropertyProviderKey}.
+     *
+     * @returns The value with default values applied.
+     */
+    private static applyDefaultValues(value: any, spec: FieldDescriptor, key: string): any {
+      const elementSpec = getElementSpec(spec)
+
+      if (elementSpec) {
+        return value instanceof Array ? value.map(t => this.applyDefaultValues(t, elementSpec, `${key}.$[]`)) : value
+      }
+
+      if (!typeIsFieldDescriptor(spec.type) || !typeIsAnyDocument(value)) return value
+
+      const defaultProps: Record<string, any> = this.defaultProps
+      const doc: AnyDocument = { ...value }
+
+      if (spec.autoId === true && !{}.hasOwnProperty.call(doc, '_id')) doc._id = new ObjectId()
+
+      for (const subfield in spec.type) {
+        if (!{}.hasOwnProperty.call(spec.type, subfield)) continue
+
+        const subkey = prefixed(subfield, key)
+
+        if (!{}.hasOwnProperty.call(doc, subfield)) {
+          const defaultValue = defaultProps[subkey]
+
+          if (defaultValue === undefined || defaultValue === null) continue
+
+          doc[subfield] = typeof defaultValue === 'function' ? defaultValue() : defaultValue
+        }
+
+        doc[subfield] = this.applyDefaultValues(doc[subfield], spec.type[subfield], subkey)
+      }
+
+      return doc
+    }
+
+    /**
+     * Formats a field value with the format function of the field, then its
+     * nested fields and array elements recursively. If the field is marked as
+     * hashed in the schema, the formatted value is hashed instead.
+     *
+     * @param value The field value.
+     * @param spec The spec of the field.
+     * @param key The key of the field in the property providers, see
+     *            {@link getPropertyProviderKey}.
+     *
+     * @returns The formatted value.
+     */
+    private static async formatFieldValue(value: any, spec: FieldDescriptor, key: string): Promise<any> {
+      const formatProps: Record<string, any> = this.formatProps
+      const formatter = formatProps[key]
+      const formattedValue = typeof formatter === 'function' ? await formatter(value) : value
+
+      if (spec.hashed === true || spec.encrypted === true) return bcrypt.hash(`${formattedValue}`, 10)
+
+      const elementSpec = getElementSpec(spec)
+
+      if (elementSpec && formattedValue instanceof Array) {
+        const formattedElements = []
+
+        for (const element of formattedValue) {
+          formattedElements.push(await this.formatFieldValue(element, elementSpec, `${key}.$[]`))
+        }
+
+        return formattedElements
+      }
+      else if (typeIsFieldDescriptor(spec.type) && typeIsAnyDocument(formattedValue)) {
+        const formattedDoc: AnyDocument = { ...formattedValue }
+
+        for (const subfield in spec.type) {
+          if (!{}.hasOwnProperty.call(formattedDoc, subfield)) continue
+
+          const formattedSubvalue = await this.formatFieldValue(formattedDoc[subfield], spec.type[subfield], `${key}.${subfield}`)
+          formattedDoc[subfield] = formattedSubvalue
+        }
+
+        return formattedDoc
+      }
+      else {
+        return formattedValue
+      }
+    }
+
+    /**
+     * Applies default values to the fields set by the `$set` operator or the
+     * elements added by the `$push` and `$addToSet` operators (including
+     * `$each` modifiers) of an update and formats them. Updated fields may be
+     * nested fields in dot notation, including positional paths, i.e.
+     * `anObject.foo` or `lineItems.$`.
+     *
+     * @param update The update to format.
+     *
+     * @returns The formatted update.
+     */
+    private static async formatUpdate(update: UpdateFilter<Document<P>>): Promise<UpdateFilter<Document<P>>> {
+      const formattedUpdate = { ...update }
+
+      if (update.$set) {
+        const fields: Record<string, any> = { ...update.$set }
+
+        for (const key in fields) {
+          if (!{}.hasOwnProperty.call(fields, key)) continue
+
+          const spec = getFieldSpecByKey(this.schema.fields, key)
+          if (!spec) continue
+
+          fields[key] = this.applyDefaultValues(fields[key], spec, getPropertyProviderKey(key))
+        }
+
+        formattedUpdate.$set = await this.formatDocument(fields as DocumentFragment<P>) as typeof update.$set
+      }
+
+      for (const operator of ['$push', '$addToSet'] as const) {
+        if (!update[operator]) continue
+
+        const fields: Record<string, any> = { ...update[operator] }
+
+        for (const key in fields) {
+          if (!{}.hasOwnProperty.call(fields, key)) continue
+
+          const spec = getFieldSpecByKey(this.schema.fields, key)
+          const elementSpec = spec && getElementSpec(spec)
+          if (!elementSpec) continue
+
+          const value = fields[key]
+          const elementKey = `${getPropertyProviderKey(key)}.$[]`
+          const hasModifiers = isPlainObject(value) && {}.hasOwnProperty.call(value, '$each')
+          const elements: any[] = hasModifiers ? value.$each : [value]
+          const formattedElements = []
+
+          if (!(elements instanceof Array)) continue
+
+          for (const element of elements) {
+            formattedElements.push(await this.formatFieldValue(this.applyDefaultValues(element, elementSpec, elementKey), elementSpec, elementKey))
+          }
+
+          fields[key] = hasModifiers ? { ...value, $each: formattedElements } : formattedElements[0]
+        }
+
+        formattedUpdate[operator] = fields as typeof update[typeof operator]
+      }
+
+      return formattedUpdate
+    }
+
+    /**
+     * Gets the encryption key provider of this model.
+     *
+     * @param operation The operation requiring the key provider, for
+     *                  references only.
+     *
+     * @returns See {@link EncryptionKeyProvider}.
+     *
+     * @throws {EncryptionError} The model has no encryption key provider.
+     */
+    private static getEncryptionKeyProvider(operation: string): EncryptionKeyProvider {
+      if (!this.encryptionKeyProvider) throw new EncryptionError('Encrypting or decrypting field values requires an encryption key provider', { model: this.schema.model, operation })
+
+      return this.encryptionKeyProvider
+    }
+
+    /**
+     * Gets the keys of the top-level fields that are encrypted or have
+     * encrypted nested fields or array elements.
+     *
+     * @returns The keys of the fields.
+     */
+    private static getEncryptedFieldKeys(): string[] {
+      const specHasEncryption = (spec: FieldDescriptor): boolean => {
+        if (spec.encryption !== undefined) return true
+
+        const elementSpec = getElementSpec(spec)
+        if (elementSpec) return specHasEncryption(elementSpec)
+
+        return typeIsFieldDescriptor(spec.type) && Object.values(spec.type).some(specHasEncryption)
+      }
+
+      return Object.keys(this.schema.fields).filter(key => specHasEncryption(this.schema.fields[key]))
+    }
+
+    /**
+     * Maps the values of the encrypted fields within a field value with the
+     * provided iteratee, walking nested fields and array elements recursively.
+     * Elements of encrypted typed arrays are mapped individually, other
+     * encrypted values are mapped as a whole.
+     *
+     * @param value The field value.
+     * @param spec The spec of the field.
+     * @param iteratee The function mapping each encrypted value.
+     *
+     * @returns The mapped value.
+     */
+    private static async mapEncryptedValues(value: any, spec: FieldDescriptor, iteratee: (value: any) => Promise<any>): Promise<any> {
+      if (value === undefined || value === null) return value
+
+      const elementSpec = getElementSpec(spec)
+
+      if (elementSpec) {
+        if (!(value instanceof Array)) return value
+
+        const mappedElements = []
+
+        for (const element of value) {
+          mappedElements.push(await this.mapEncryptedValues(element, elementSpec, iteratee))
+        }
+
+        return mappedElements
+      }
+      else if (spec.encryption !== undefined) {
+        return iteratee(value)
+      }
+      else if (typeIsFieldDescriptor(spec.type) && typeIsAnyDocument(value)) {
+        const mappedDoc: AnyDocument = { ...value }
+
+        for (const subfield in spec.type) {
+          if (!{}.hasOwnProperty.call(mappedDoc, subfield)) continue
+
+          const mappedSubvalue = await this.mapEncryptedValues(mappedDoc[subfield], spec.type[subfield], iteratee)
+          mappedDoc[subfield] = mappedSubvalue
+        }
+
+        return mappedDoc
+      }
+      else {
+        return value
+      }
+    }
+
+    /**
+     * Encrypts the values of the encrypted fields of a document of this model,
+     * see {@link encryptFieldValue}. Values that are already encrypted are
+     * kept as is.
+     *
+     * @param doc The document, where keys may be in dot notation.
+     *
+     * @returns The document with encrypted values.
+     *
+     * @throws {EncryptionError} The document has encrypted fields but the model
+     *                           has no encryption key provider.
+     */
+    private static async encryptDocument(doc: AnyDocument): Promise<AnyDocument> {
+      const encryptedDoc: AnyDocument = { ...doc }
+
+      for (const key in encryptedDoc) {
+        if (!{}.hasOwnProperty.call(encryptedDoc, key)) continue
+
+        const spec = getFieldSpecByKey(this.schema.fields, key)
+        if (!spec) continue
+
+        const encryptedValue = await this.mapEncryptedValues(encryptedDoc[key], spec, async t => typeIsEncryptedFieldValue(t) ? t : encryptFieldValue(t, this.getEncryptionKeyProvider('encrypt')))
+        encryptedDoc[key] = encryptedValue
+      }
+
+      return encryptedDoc
+    }
+
+    /**
+     * Encrypts the values of the encrypted fields set by the `$set` and
+     * `$setOnInsert` operators or the elements added by the `$push` and
+     * `$addToSet` operators (including `$each` modifiers) of an update.
+     *
+     * @param update The update to encrypt.
+     *
+     * @returns The encrypted update.
+     *
+     * @throws {EncryptionError} The update has encrypted fields but the model
+     *                           has no encryption key provider.
+     */
+    private static async encryptUpdate(update: UpdateFilter<Document<P>>): Promise<UpdateFilter<Document<P>>> {
+      const encryptedUpdate = { ...update }
+
+      for (const operator of ['$set', '$setOnInsert'] as const) {
+        if (!update[operator]) continue
+
+        encryptedUpdate[operator] = await this.encryptDocument(update[operator]) as typeof update[typeof operator]
+      }
+
+      for (const operator of ['$push', '$addToSet'] as const) {
+        if (!update[operator]) continue
+
+        const fields: Record<string, any> = { ...update[operator] }
+
+        for (const key in fields) {
+          if (!{}.hasOwnProperty.call(fields, key)) continue
+
+          const spec = getFieldSpecByKey(this.schema.fields, key)
+          const elementSpec = spec && getElementSpec(spec)
+          if (!elementSpec) continue
+
+          const value = fields[key]
+          const hasModifiers = isPlainObject(value) && {}.hasOwnProperty.call(value, '$each')
+          const elements: any[] = hasModifiers ? value.$each : [value]
+          const encryptedElements = []
+
+          if (!(elements instanceof Array)) continue
+
+          for (const element of elements) {
+            encryptedElements.push(await this.mapEncryptedValues(element, elementSpec, async t => typeIsEncryptedFieldValue(t) ? t : encryptFieldValue(t, this.getEncryptionKeyProvider('encrypt'))))
+          }
+
+          fields[key] = hasModifiers ? { ...value, $each: encryptedElements } : encryptedElements[0]
+        }
+
+        encryptedUpdate[operator] = fields as typeof update[typeof operator]
+      }
+
+      return encryptedUpdate
+    }
+
+    /**
+     * Decrypts multiple documents of this model, see {@link decryptDocument}.
+     *
+     * @param docs The documents, where missing documents are kept as is.
+     * @param options See {@link ModelDecryptDocumentOptions}.
+     *
+     * @returns The decrypted documents.
+     */
+    private static async decryptDocuments<T extends readonly any[]>(docs: T, options: ModelDecryptDocumentOptions = {}): Promise<T> {
+      const decryptedDocs = []
+
+      for (const doc of docs) {
+        decryptedDocs.push(await this.decryptDocument(doc, options))
+      }
+
+      return decryptedDocs as unknown as T
+    }
+
+    /**
+     * Guards the filter of an update against emptying required array fields
+     * with the `$pull`, `$pullAll` or `$pop` operators, by excluding documents
+     * where no element of the array would survive the update. Being part of
+     * the filter, the guard is evaluated atomically with the update.
+     *
+     * @param filter The filter of the documents to update.
+     * @param update The update to apply.
+     * @param options The options of the update.
+     *
+     * @returns The guarded filter.
+     *
+     * @throws {ODMError} The update is an upsert, which would insert a new
+     *                    document instead of updating a guarded one.
+     */
+    private static guardRequiredArrayRemoval(filter: Filter<Document<P>>, update: UpdateFilter<Document<P>>, { upsert = false, allowRequiredFieldRemoval = false }: ModelUpdateOneOptions | ModelUpdateManyOptions = {}): Filter<Document<P>> {
+      if (allowRequiredFieldRemoval) return filter
+
+      const guards = Object.values(this.getRequiredArrayRemovalGuards(update))
+
+      if (guards.length === 0) return filter
+      if (upsert) throw new ODMError('Upserting while removing elements from required arrays is not supported', { model: this.schema.model, operation: 'update' })
+
+      return { $and: [filter, { $nor: guards }] } as Filter<Document<P>>
+    }
+
+    /**
+     * Validates that an update does not empty required array fields of any of
+     * the documents matching the filter, see {@link guardRequiredArrayRemoval}.
+     * Documents the guard excludes from the update are reported instead of
+     * being skipped silently.
+     *
+     * @param filter The filter of the documents to update.
+     * @param update The update to apply.
+     * @param options The options of the update.
+     *
+     * @throws {ValidationError} The update would empty a required array field
+     *                           of a matching document.
+     */
+    private static async validateRequiredArrayRemoval(filter: Filter<Document<P>>, update: UpdateFilter<Document<P>>, { allowRequiredFieldRemoval = false }: ModelUpdateOneOptions | ModelUpdateManyOptions = {}) {
+      if (allowRequiredFieldRemoval) return
+
+      const guards = this.getRequiredArrayRemovalGuards(update)
+      const errors: ValidationErrorEntry[] = []
+
+      for (const key in guards) {
+        if (!{}.hasOwnProperty.call(guards, key)) continue
+        if (!await CRUD.exists(this.schema, { $and: [filter, guards[key]] } as Filter<Document<P>>, { strict: false })) continue
+
+        errors.push({ path: key, rule: 'required', value: undefined, message: `The required array '${key}' cannot be emptied` })
+      }
+
+      if (errors.length > 0) throw new ValidationError(errors, { model: this.schema.model, operation: 'update' })
+    }
+
+    /**
+     * Builds the conditions matching documents whose required array fields
+     * would be emptied by the `$pull`, `$pullAll` or `$pop` operators of an
+     * update, keyed by the path of the array.
+     *
+     * @param update The update to apply.
+     *
+     * @returns The conditions.
+     */
+    private static getRequiredArrayRemovalGuards(update: UpdateFilter<Document<P>>): Record<string, Record<string, any>> {
+      const guards: Record<string, Record<string, any>> = {}
+
+      for (const operator of ['$pull', '$pullAll', '$pop'] as const) {
+        const fields: Record<string, any> = update[operator] ?? {}
+
+        for (const key in fields) {
+          if (!{}.hasOwnProperty.call(fields, key)) continue
+          if (getFieldSpecByKey(this.schema.fields, key)?.required !== true) continue
+
+          const value = fields[key]
+          let emptied: Record<string, any>
+
+          if (operator === '$pop') {
+            emptied = { [`${key}.1`]: { $exists: false } }
+          }
+          else if (operator === '$pullAll') {
+            emptied = { [key]: { $not: { $elemMatch: { $nin: value } } } }
+          }
+          else if (isPlainObject(value) && Object.keys(value).every(t => t.startsWith('$'))) {
+            emptied = { [key]: { $not: { $elemMatch: { $not: value } } } }
+          }
+          else if (isPlainObject(value)) {
+            emptied = { [key]: { $not: { $elemMatch: { $nor: [value] } } } }
+          }
+          else {
+            emptied = { [key]: { $not: { $elemMatch: { $ne: value } } } }
+          }
+
+          guards[key] = { $and: [{ [`${key}.0`]: { $exists: true } }, emptied] }
+        }
+      }
+
+      return guards
     }
 
     /**
@@ -793,34 +1435,91 @@ export function modelFactory<P extends AnyProps = AnyProps>(schema: Schema<P>):
      * (including nested fields) are in place.
      *
      * @param doc The doc to validate.
+     * @param report The function to report missing fields to.
      * @param fieldDescriptor The field descriptor to validate against.
-     * @param fieldName The parent field name, for references only.
-     *
-     * @throws {TypeError} Missing field.
+     * @param fieldName The parent field name in dot notation, for references
+     *                  only.
      */
-    private static validateDocumentRequiredFields(doc: AnyDocument, fieldDescriptor: MultiFieldDescriptor = this.schema.fields, fieldName?: string) {
+    private static validateDocumentRequiredFields(doc: AnyDocument, report: (entry: ValidationErrorEntry) => void, fieldDescriptor: MultiFieldDescriptor = this.schema.fields, fieldName?: string) {
       for (const field in fieldDescriptor) {
         if (!{}.hasOwnProperty.call(fieldDescriptor, field)) continue
 
         const fieldSpec = fieldDescriptor[field]
+        const path = prefixed(field, fieldName)
 
         // If field is not marked as required, skip.
         if (!fieldSpec.required) continue
 
         // If model has default props defined for this field, skip.
-        if ({}.hasOwnProperty.call(this.defaultProps, field)) continue
+        if ({}.hasOwnProperty.call(this.defaultProps, getPropertyProviderKey(path))) continue
 
         // At this point we are certain that this field needs to be present in
         // the doc, so go ahead and check if it exists.
         if (!{}.hasOwnProperty.call(doc, field)) {
-          throw new TypeError(`[${this.schema.model}] Missing required field "${fieldName ? `${fieldName}.` : ''}${field}"`)
+          report({ path, rule: 'required', value: undefined, message: `Missing required field "${path}"` })
+          continue
         }
 
         // Recursively validate nested fields if applicable.
-        if (typeIsFieldDescriptor(fieldSpec.type)) {
-          this.validateDocumentRequiredFields(doc[field], fieldSpec.type, field)
+        if (typeIsFieldDescriptor(fieldSpec.type) && typeIsAnyDocument(doc[field])) {
+          this.validateDocumentRequiredFields(doc[field], report, fieldSpec.type, path)
         }
       }
     }
   }
 }
+
+/**
+ * Checks that encrypted fields (including nested fields and array elements) are
+ * encrypted with a supported algorithm and are not hashed as well, since
+ * hashing would irreversibly destroy the values to encrypt.
+ *
+ * @param fields The fields to check.
+ * @param model The name of the model, for references only.
+ * @param parent The parent field name in dot notation, for references only.
+ *
+ * @throws {ODMError} A field is both hashed and encrypted, or is encrypted
+ *                    with an unsupported algorithm.
+ */
+function validateFieldEncryption(fields: MultiFieldDescriptor, model: string, parent?: string) {
+  for (const field in fields) {
+    if (!{}.hasOwnProperty.call(fields, field)) continue
+
+    const spec = fields[field]
+    const path = prefixed(field, parent)
+
+    if (spec.encryption !== undefined) {
+      if (spec.encryption !== 'aes-256-gcm') throw new ODMError(`The field "${path}" is encrypted with the unsupported algorithm "${spec.encryption}"`, { model, operation: 'modelFactory' })
+      if (spec.hashed === true || spec.encrypted === true) throw new ODMError(`The field "${path}" cannot be both hashed and encrypted`, { model, operation: 'modelFactory' })
+    }
+
+    const type = getElementSpec(spec)?.type ?? spec.type
+
+    if (typeIsFieldDescriptor(type)) validateFieldEncryption(type, model, path)
+  }
+}
+
+/**
+ * Decrypts documents of another model held by a field, i.e. a populated
+ * reference field or a loaded relation, see {@link Model.decryptDocument}.
+ * Values that are not documents (i.e. unpopulated `ObjectId`s) are kept as is.
+ *
+ * @param value The value of the field, either a document or an array.
+ * @param modelName The name of the model of the documents.
+ *
+ * @returns The decrypted value.
+ */
+async function decryptForeignDocuments(value: any, modelName: string): Promise<any> {
+  const docs: any[] = value instanceof Array ? value : [value]
+
+  if (!docs.some(typeIsAnyDocument)) return value
+
+  const ModelClass = db.getModel(modelName)
+  const decryptedDocs = []
+
+  for (const doc of docs) {
+    decryptedDocs.push(await ModelClass.decryptDocument(doc))
+  }
+
+  return value instanceof Array ? decryptedDocs : decryptedDocs[0]
+}
@@ -0,0 +1,56 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { type ClientSession, type MongoClient, type UpdateOptions } from 'mongodb'
+import { getActiveSession, runWithSession, withActiveSession } from './session.js'
+
+describe('core/session', () => {
+  const session = { id: 'foo' } as unknown as ClientSession
+  const otherSession = { id: 'bar' } as unknown as ClientSession
+  const client = { id: 'foo' } as unknown as MongoClient
+  const otherClient = { id: 'bar' } as unknown as MongoClient
+
+  it('has no active session outside of a session context', () => {
+    assert(getActiveSession() === undefined)
+    assert.deepStrictEqual(withActiveSession<UpdateOptions>({ upsert: true }, client), { upsert: true })
+  })
+
+  it('can propagate the active session through async calls', async () => {
+    const res = await runWithSession(session, async () => {
+      await new Promise(resolve => {
+        setTimeout(resolve, 1)
+      })
+
+      return getActiveSession()
+    })
+
+    assert(res === session)
+    assert(getActiveSession() === undefined)
+  })
+
+  it('can apply the active session to operation options unless specified', () => {
+    runWithSession(session, () => {
+      assert(withActiveSession<{ session?: ClientSession }>({}, client).session === session)
+      assert(withActiveSession({ session: otherSession }, client).session === otherSession)
+    }, client)
+  })
+
+  it('only applies active sessions of the client of the operation', () => {
+    runWithSession(session, () => {
+      assert(withActiveSession<{ session?: ClientSession }>({}, otherClient).session === undefined)
+      assert(withActiveSession<{ session?: ClientSession }>({}, undefined).session === undefined)
+
+      runWithSession(otherSession, () => {
+        assert(getActiveSession(client) === session)
+        assert(getActiveSession(otherClient) === otherSession)
+        assert(withActiveSession<{ session?: ClientSession }>({}, client).session === session)
+      }, otherClient)
+    }, client)
+  })
+
+  it('can nest session contexts', () => {
+    runWithSession(session, () => {
+      runWithSession(otherSession, () => assert(getActiveSession() === otherSession))
+      assert(getActiveSession() === session)
+    })
+  })
+})
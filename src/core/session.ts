@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { type ClientSession, type MongoClient } from 'mongodb'
+
+/**
+ * A client session of an active transaction along with the MongoDB client it
+ * was started from.
+ */
+type ActiveSession = {
+  client?: MongoClient
+  session: ClientSession
+}
+
+/**
+ * Storage of the client sessions of the active transactions, propagated
+ * through the async execution context of the transaction callbacks. Sessions
+ * of nested transactions (i.e. of other connections) come last.
+ */
+const sessionStorage = new AsyncLocalStorage<readonly ActiveSession[]>()
+
+/**
+ * Gets the client session of the transaction active in the current async
+ * execution context.
+ *
+ * @param client If specified, only a session started from this MongoDB client
+ *               is returned, since sessions cannot be used across clients.
+ *
+ * @returns The active client session, `undefined` if there is none.
+ */
+export function getActiveSession(client?: MongoClient): ClientSession | undefined {
+  const activeSessions = sessionStorage.getStore() ?? []
+
+  return [...activeSessions].reverse().find(t => client === undefined || t.client === client)?.session
+}
+
+/**
+ * Runs a function with the provided client session set as the active session
+ * throughout its async execution context. Sessions that are already active
+ * remain active for operations of other clients.
+ *
+ * @param session The client session.
+ * @param fn The function to run.
+ * @param client The MongoDB client the session was started from.
+ *
+ * @returns The return value of the function.
+ */
+export function runWithSession<T>(session: ClientSession, fn: () => T, client?: MongoClient): T {
+  const activeSessions = sessionStorage.getStore() ?? []
+
+  return sessionStorage.run([...activeSessions, { client, session }], fn)
+}
+
+/**
+ * Applies the active client session (if any) to a set of MongoDB driver
+ * operation options, unless the options already specify a session.
+ *
+ * @param options The driver operation options.
+ * @param client The MongoDB client running the operation, only a session of
+ *               this client is applied.
+ *
+ * @returns The options with the active session applied.
+ */
+export function withActiveSession<O extends { session?: ClientSession }>(options: O, client: MongoClient | undefined): O {
+  if (options.session) return options
+  if (!client) return options
+
+  const session = getActiveSession(client)
+  if (!session) return options
+
+  return { ...options, session }
+}
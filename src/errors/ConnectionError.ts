@@ -0,0 +1,38 @@
+import { ODMError, type ODMErrorOptions } from './ODMError.js'
+
+export type ConnectionErrorOptions = ODMErrorOptions & {
+
+  /**
+   * Labels of the underlying driver error, i.e. `RetryableWriteError`.
+   */
+  errorLabels?: string[]
+}
+
+/**
+ * Error thrown when a database connection cannot be configured, established or
+ * resolved.
+ */
+export class ConnectionError extends ODMError {
+  /**
+   * Labels of the underlying driver error, if any.
+   */
+  readonly errorLabels: string[]
+
+  constructor(message: string, { errorLabels = [], ...options }: ConnectionErrorOptions = {}) {
+    super(message, options)
+
+    this.errorLabels = errorLabels
+  }
+
+  /**
+   * Checks if the underlying driver error has the provided label, mirroring
+   * `MongoError#hasErrorLabel`.
+   *
+   * @param label The error label.
+   *
+   * @returns `true` or `false`.
+   */
+  hasErrorLabel(label: string): boolean {
+    return this.errorLabels.includes(label)
+  }
+}
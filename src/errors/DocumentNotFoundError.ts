@@ -0,0 +1,7 @@
+import { ODMError } from './ODMError.js'
+
+/**
+ * Error thrown when no document matches the filter of an operation that
+ * requires one.
+ */
+export class DocumentNotFoundError extends ODMError {}
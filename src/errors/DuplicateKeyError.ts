@@ -0,0 +1,48 @@
+import { ODMError, type ODMErrorOptions } from './ODMError.js'
+
+export type DuplicateKeyErrorOptions = ODMErrorOptions & {
+
+  /**
+   * Name of the unique index that is violated.
+   */
+  index?: string
+
+  /**
+   * Key pattern of the unique index that is violated, i.e. `{ aString: 1 }`.
+   */
+  keyPattern?: Record<string, any>
+
+  /**
+   * The duplicated key values, i.e. `{ aString: 'foo' }`.
+   */
+  keyValue?: Record<string, any>
+}
+
+/**
+ * Error thrown when a write operation violates a unique index (mapped from
+ * MongoDB's E11000 duplicate key errors).
+ */
+export class DuplicateKeyError extends ODMError {
+  /**
+   * Name of the unique index that is violated.
+   */
+  readonly index?: string
+
+  /**
+   * Key pattern of the unique index that is violated.
+   */
+  readonly keyPattern?: Record<string, any>
+
+  /**
+   * The duplicated key values.
+   */
+  readonly keyValue?: Record<string, any>
+
+  constructor(message: string, { index, keyPattern, keyValue, ...options }: DuplicateKeyErrorOptions = {}) {
+    super(message, options)
+
+    this.index = index
+    this.keyPattern = keyPattern
+    this.keyValue = keyValue
+  }
+}
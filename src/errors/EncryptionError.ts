@@ -0,0 +1,8 @@
+import { ODMError } from './ODMError.js'
+
+/**
+ * Error thrown when a field value cannot be encrypted or decrypted, i.e. the
+ * encryption key is missing or invalid, or the encrypted value fails
+ * authentication.
+ */
+export class EncryptionError extends ODMError {}
@@ -0,0 +1,43 @@
+export type ODMErrorOptions = {
+
+  /**
+   * Name of the model the error originates from.
+   */
+  model?: string
+
+  /**
+   * Name of the operation the error originates from, i.e. `insertOne`,
+   * `updateMany`, etc.
+   */
+  operation?: string
+
+  /**
+   * The underlying error, if any.
+   */
+  cause?: unknown
+}
+
+/**
+ * Base class of all errors thrown by the ODM. If a model name is provided, the
+ * error message is prefixed with it, i.e. `[Foo] Updates are disallowed for
+ * this model`.
+ */
+export class ODMError extends Error {
+  /**
+   * Name of the model the error originates from.
+   */
+  readonly model?: string
+
+  /**
+   * Name of the operation the error originates from.
+   */
+  readonly operation?: string
+
+  constructor(message: string, { model, operation, cause }: ODMErrorOptions = {}) {
+    super(model ? `[${model}] ${message}` : message, cause === undefined ? undefined : { cause })
+
+    this.name = new.target.name
+    this.model = model
+    this.operation = operation
+  }
+}
@@ -0,0 +1,7 @@
+import { ODMError } from './ODMError.js'
+
+/**
+ * Error thrown when an operation is disallowed by the schema of the model, i.e.
+ * via `noInserts`, `noUpdates`, `noDeleteMany`, etc.
+ */
+export class OperationDisallowedError extends ODMError {}
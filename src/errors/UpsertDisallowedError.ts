@@ -0,0 +1,7 @@
+import { OperationDisallowedError } from './OperationDisallowedError.js'
+
+/**
+ * Error thrown when attempting to upsert a document of a model whose schema
+ * does not have `allowUpserts` enabled.
+ */
+export class UpsertDisallowedError extends OperationDisallowedError {}
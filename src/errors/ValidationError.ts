@@ -0,0 +1,53 @@
+import { ODMError, type ODMErrorOptions } from './ODMError.js'
+
+/**
+ * Describes a single validation failure.
+ */
+export type ValidationErrorEntry = {
+
+  /**
+   * Path of the invalid field in dot notation, i.e. `anObject.foo.aNumber` or
+   * `tags.3` for array elements. Empty if the validated value is not a field
+   * of a document.
+   */
+  path: string
+
+  /**
+   * Name of the violated rule, i.e. `required`, `type`, `min`, `maxLength`,
+   * `unique`, etc.
+   */
+  rule: string
+
+  /**
+   * The invalid value.
+   */
+  value: any
+
+  /**
+   * Human-readable description of the failure.
+   */
+  message: string
+}
+
+/**
+ * Determines how validation failures are reported:
+ *   1. `first`: Validation stops at the first failure.
+ *   2. `all`: Validation collects every failure before throwing.
+ */
+export type ValidationMode = 'first' | 'all'
+
+/**
+ * Error thrown when one or more values fail validation.
+ */
+export class ValidationError extends ODMError {
+  /**
+   * List of validation failures.
+   */
+  readonly errors: ValidationErrorEntry[]
+
+  constructor(errors: ValidationErrorEntry[], options: ODMErrorOptions = {}) {
+    super(errors.map(t => t.path ? `${t.path}: ${t.message}` : t.message).join('; '), options)
+
+    this.errors = errors
+  }
+}
@@ -0,0 +1,8 @@
+export * from './ConnectionError.js'
+export * from './DocumentNotFoundError.js'
+export * from './DuplicateKeyError.js'
+export * from './EncryptionError.js'
+export * from './ODMError.js'
+export * from './OperationDisallowedError.js'
+export * from './UpsertDisallowedError.js'
+export * from './ValidationError.js'
@@ -10,66 +10,115 @@
  */
 
 import useDebug from 'debug'
-import { type Collection } from 'mongodb'
-import { Connection, type ConnectionConfiguration, type Model } from './core/index.js'
+import { type Collection, type MongoClient } from 'mongodb'
+import { Connection, type ConnectionConfiguration, type Model, type Schema } from './core/index.js'
+import { ConnectionError } from './errors/index.js'
 import { type AnyDocument } from './types/index.js'
 
 const debug = useDebug('mongodb-odm')
 
 /**
- * Global MongoDB connection.
+ * Name of the connection used when none is specified.
  */
-let globalConnection: Connection | undefined
+const DEFAULT_CONNECTION_NAME = 'default'
 
-// Be sure to disconnect the database if the app terminates.
+/**
+ * Registry of MongoDB connections, keyed by connection name.
+ */
+const connections: Record<string, Connection> = {}
+
+// Be sure to disconnect all databases if the app terminates.
 process.on('SIGINT', async () => {
-  if (!globalConnection) return
-  await globalConnection.disconnect?.()
-  debug('Handling SIGINT error...', 'OK', 'MongoDB client disconnected due to app termination')
+  const names = Object.keys(connections)
+  if (names.length === 0) return
+
+  for (const name of names) {
+    await connections[name].disconnect?.()
+  }
+
+  debug('Handling SIGINT error...', 'OK', 'MongoDB clients disconnected due to app termination')
 
   process.exit(0)
 })
 
 /**
- * Configures the ODM.
+ * Configures the ODM. Multiple named connections can be configured by
+ * specifying a connection name, i.e. to read from and write to different
+ * databases. Configuring a connection with a name that already exists
+ * replaces the existing connection right away, so that subsequent operations
+ * use the new connection, and disconnects the replaced connection. Operations
+ * still running on the replaced connection (including transactions) are
+ * interrupted by the disconnection, so they should be awaited before the
+ * connection is replaced.
  *
+ * @param name Name of the connection, defaults to `default`.
  * @param options Configuration options.
+ *
+ * @returns A promise that resolves once the replaced connection (if any) is
+ *          disconnected.
+ *
+ * @throws {ConnectionError} The configuration options are missing.
+ * @throws {ConnectionError} Unable to disconnect the replaced connection, as
+ *                           the rejection of the returned promise.
  */
-export function configureDb(options: ConnectionConfiguration) {
-  debug('Configuring ODM... OK', options)
-  globalConnection = new Connection(options)
+export function configureDb(options: ConnectionConfiguration): Promise<void>
+export function configureDb(name: string, options: ConnectionConfiguration): Promise<void>
+export function configureDb(nameOrOptions: string | ConnectionConfiguration, options?: ConnectionConfiguration): Promise<void> {
+  const name = typeof nameOrOptions === 'string' ? nameOrOptions : DEFAULT_CONNECTION_NAME
+  const config = typeof nameOrOptions === 'string' ? options : nameOrOptions
+
+  if (!config) throw new ConnectionError(`Missing configuration options for connection "${name}"`, { operation: 'configureDb' })
+
+  const replacedConnection = connections[name]
+
+  debug(`Configuring ODM for connection "${name}"... OK`, config)
+  connections[name] = new Connection(config)
+
+  if (!replacedConnection) return Promise.resolve()
+
+  return replacedConnection.disconnect().catch(err => {
+    debug(`Disconnecting replaced connection "${name}"...`, 'ERR', err)
+
+    throw new ConnectionError(`Unable to disconnect the replaced connection "${name}"`, { operation: 'configureDb', cause: err })
+  })
 }
 
 /**
- * Gets the global database connection.
+ * Gets a database connection by its name.
+ *
+ * @param name Name of the connection, defaults to `default`.
  *
  * @returns The database connection.
  */
-export function getDbConnection(): Connection | undefined {
-  if (globalConnection) return globalConnection
-  debug('No MongoDB connection, did you forget to call `configureDb`?')
+export function getDbConnection(name: string = DEFAULT_CONNECTION_NAME): Connection | undefined {
+  if (connections[name]) return connections[name]
+  debug(`No MongoDB connection named "${name}", did you forget to call \`configureDb\`?`)
 
   return undefined
 }
 
 /**
- * Gets a model class by its name or collection name.
+ * Gets a model class by its name or collection name, looking through the
+ * models registered in every connection (the default connection first).
  *
  * @param modelOrCollectionName Model or collection name.
  *
  * @returns The model class.
  *
- * @throws {Error} There is no active db connection.
+ * @throws {ConnectionError} There is no active db connection.
+ * @throws {Error} No model found with the provided name.
  */
 export function getModel(modelOrCollectionName: string): ReturnType<typeof Model> {
-  if (!globalConnection) throw new Error('There is no active db connection')
+  const [, ModelClass] = resolveModel(modelOrCollectionName)
 
-  return globalConnection.getModel(modelOrCollectionName)
+  return ModelClass
 }
 
 /**
  * Gets the MongoDB collection associated with a model or collection name and
- * ensures the indexes defined in its schema.
+ * ensures the indexes defined in its schema. The collection is resolved
+ * through the connection the model is bound to, which is either the connection
+ * named by `connection` in its schema or the connection it is registered in.
  *
  * @param modelOrCollectionName The model or collection name.
  *
@@ -78,15 +127,139 @@ export function getModel(modelOrCollectionName: string): ReturnType<typeof Model
  * @see
  * {@link https://mongodb.github.io/node-mongodb-native/4.2/classes/Collection.html}
  *
- * @throws {Error} There is no active db connection.
+ * @throws {ConnectionError} There is no active db connection.
+ * @throws {ConnectionError} The connection the model is bound to does not
+ *                           exist.
  */
 export async function getCollection<T extends AnyDocument = AnyDocument>(modelOrCollectionName: string): Promise<Collection<T>> {
-  if (!globalConnection) throw new Error('There is no active db connection')
+  const [connection, ModelClass] = resolveBoundModel(modelOrCollectionName)
+
+  return connection.getCollection(ModelClass.schema)
+}
+
+/**
+ * Gets the MongoDB client of the connection a model is bound to, i.e. to only
+ * apply client sessions of that client to operations on the model.
+ *
+ * @param modelOrCollectionName The model or collection name.
+ *
+ * @returns The MongoDB client, `undefined` if the connection is not
+ *          established.
+ *
+ * @throws {ConnectionError} There is no active db connection.
+ * @throws {ConnectionError} The connection the model is bound to does not
+ *                           exist.
+ */
+export function getDbClient(modelOrCollectionName: string): MongoClient | undefined {
+  const [connection] = resolveBoundModel(modelOrCollectionName)
+
+  return connection.client
+}
+
+/**
+ * Asserts that the collections of two models can be joined in an aggregation
+ * pipeline, i.e. with `$lookup`, which requires both models to be bound to the
+ * same connection.
+ *
+ * @param schema The schema of the aggregated model.
+ * @param foreignSchema The schema of the joined model.
+ *
+ * @throws {ConnectionError} Either model is not bound to a configured
+ *                           connection.
+ * @throws {ConnectionError} The models are bound to different connections.
+ */
+export function assertJoinableModels(schema: Schema<any>, foreignSchema: Schema<any>) {
+  const connection = resolveModelConnection(schema)
+  const foreignConnection = resolveModelConnection(foreignSchema)
+
+  if (!connection) throw new ConnectionError(`Unable to join models since the model "${schema.model}" is not bound to a configured connection`, { model: schema.model, operation: 'aggregate' })
+  if (!foreignConnection) throw new ConnectionError(`Unable to join the model "${foreignSchema.model}" since it is not bound to a configured connection`, { model: schema.model, operation: 'aggregate' })
+  if (connection === foreignConnection) return
+
+  throw new ConnectionError(`Unable to join the model "${foreignSchema.model}" since it is bound to a different connection than the model "${schema.model}"`, { model: schema.model, operation: 'aggregate' })
+}
+
+/**
+ * Gets the names of the configured connections, the default connection first.
+ *
+ * @returns The connection names.
+ */
+function getConnectionNames(): string[] {
+  const names = Object.keys(connections)
+
+  if (names.includes(DEFAULT_CONNECTION_NAME)) {
+    names.splice(names.indexOf(DEFAULT_CONNECTION_NAME), 1)
+    names.unshift(DEFAULT_CONNECTION_NAME)
+  }
+
+  return names
+}
+
+/**
+ * Finds the connection a model is bound to, which is either the connection
+ * named by `connection` in its schema or the connection it is registered in.
+ *
+ * @param schema The schema of the model.
+ *
+ * @returns The connection, `undefined` if there is none.
+ */
+function resolveModelConnection(schema: Schema<any>): Connection | undefined {
+  if (schema.connection !== undefined) return connections[schema.connection]
+
+  return getConnectionNames().map(name => connections[name]).find(connection => connection.hasModel(schema.collection))
+}
+
+/**
+ * Finds the model class with the provided model or collection name along with
+ * the connection it is bound to, which is either the connection named by
+ * `connection` in its schema or the connection it is registered in.
+ *
+ * @param modelOrCollectionName Model or collection name.
+ *
+ * @returns A tuple consisting of the connection and the model class.
+ *
+ * @throws {ConnectionError} There is no active db connection.
+ * @throws {ConnectionError} The connection the model is bound to does not
+ *                           exist.
+ */
+function resolveBoundModel(modelOrCollectionName: string): [Connection, ReturnType<typeof Model>] {
+  const [connection, ModelClass] = resolveModel(modelOrCollectionName)
+  const connectionName = ModelClass.schema.connection
+
+  if (connectionName === undefined) return [connection, ModelClass]
+
+  const boundConnection = connections[connectionName]
+  if (!boundConnection) throw new ConnectionError(`Model is bound to connection "${connectionName}" but it is not configured`, { model: ModelClass.schema.model, operation: 'getCollection' })
+
+  return [boundConnection, ModelClass]
+}
+
+/**
+ * Finds the model class with the provided model or collection name along with
+ * the connection it is registered in.
+ *
+ * @param modelOrCollectionName Model or collection name.
+ *
+ * @returns A tuple consisting of the connection and the model class.
+ *
+ * @throws {ConnectionError} There is no active db connection.
+ * @throws {Error} No model found with the provided name.
+ */
+function resolveModel(modelOrCollectionName: string): [Connection, ReturnType<typeof Model>] {
+  const names = getConnectionNames()
+
+  if (names.length === 0) throw new ConnectionError('There is no active db connection')
+
+  for (const name of names) {
+    const connection = connections[name]
+    if (connection.hasModel(modelOrCollectionName)) return [connection, connection.getModel(modelOrCollectionName)]
+  }
 
-  return globalConnection.getCollection(modelOrCollectionName)
+  throw new Error(`No model found in the ODM registry for model/collection name "${modelOrCollectionName}"`)
 }
 
-export { ObjectId } from 'mongodb'
+export { Binary, Decimal128, Long, ObjectId, UUID } from 'mongodb'
 export * from './core/index.js'
+export * from './errors/index.js'
 export * from './types/index.js'
 export * from './utils/index.js'
@@ -1,4 +1,4 @@
-import { type Filter, type ObjectId, type UpdateFilter } from 'mongodb'
+import { type Condition, type Filter, type ObjectId, type UpdateFilter } from 'mongodb'
 
 /**
  * A type representing a generic set of properties of a model.
@@ -34,12 +34,64 @@ export type DocumentFragment<P extends AnyProps> = Partial<Document<P>>
  */
 export type AnyDocumentFragment = Partial<AnyDocument>
 
+/**
+ * Paths of the fields of embedded docs in array fields, i.e.
+ * `someObjects.aString`.
+ */
+type ElementFieldPath<P extends AnyProps> = { [K in keyof P & string]: NonNullable<P[K]> extends readonly (infer E)[] ? E extends AnyProps ? `${K}.${keyof E & string}` : never : never }[keyof P & string]
+
+/**
+ * Fields of embedded docs in array fields addressed by the positional
+ * operators `$`, `$[]` and `$[<identifier>]`, i.e. `someObjects.$.aString` and
+ * `someObjects.$[elem].aString`.
+ */
+export type PositionalFields<P extends AnyProps> = {
+  [T in ElementFieldPath<P> as T extends `${infer K}.${infer S}` ? `${K}.$.${S}` | `${K}.$[${string}].${S}` : never]?: T extends `${infer K}.${infer S}` ? NonNullable<P[K]> extends readonly (infer E)[] ? E[S & keyof E] : never : never
+}
+
 /**
  * Supported filter types for finding documents in the MongoDB database.
  */
-export type AnyFilter<P extends AnyProps = AnyProps> = Filter<Document<P>> | ObjectId | string
+export type AnyFilter<P extends AnyProps = AnyProps> = (Filter<Document<P>> & { [K in keyof PositionalFields<P>]?: Condition<PositionalFields<P>[K]> }) | ObjectId | string
 
 /**
  * Supported update descriptor types.
  */
-export type AnyUpdate<P extends AnyProps = AnyProps> = UpdateFilter<Document<P>> | Partial<{ [K in keyof Document<P>]: Document<P>[K] | undefined }>
+export type AnyUpdate<P extends AnyProps = AnyProps> = UpdateFilter<Document<P>> | (Partial<{ [K in keyof Document<P>]: Document<P>[K] | undefined }> & PositionalFields<P>)
+
+/**
+ * An edge of a {@link Page}, consisting of a document and the opaque cursor
+ * pointing to it.
+ */
+export type PageEdge<P extends AnyProps = AnyProps> = {
+  node: Document<P>
+  cursor: string
+}
+
+/**
+ * Information about a {@link Page} for fetching adjacent pages.
+ */
+export type PageInfo = {
+  hasNextPage: boolean
+  hasPreviousPage: boolean
+  startCursor?: string
+  endCursor?: string
+}
+
+/**
+ * A page of documents as the result of cursor-based pagination.
+ */
+export type Page<P extends AnyProps = AnyProps> = {
+  edges: PageEdge<P>[]
+  pageInfo: PageInfo
+}
+
+/**
+ * A page of documents as the result of offset-based pagination.
+ */
+export type OffsetPage<P extends AnyProps = AnyProps> = {
+  items: Document<P>[]
+  total: number
+  page: number
+  pageCount: number
+}
@@ -0,0 +1,29 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { ObjectId } from 'mongodb'
+import { castFieldValue } from './castFieldValue.js'
+
+describe('utils/castFieldValue', () => {
+  it('can cast hex strings to ObjectIds', () => {
+    const objectId = new ObjectId()
+
+    assert(castFieldValue({ type: ObjectId }, objectId.toHexString()).equals(objectId))
+    assert(castFieldValue({ type: ObjectId }, objectId) === objectId)
+    assert(castFieldValue({ type: ObjectId }, 'foo') === 'foo')
+    assert(castFieldValue({ type: String }, objectId.toHexString()) === objectId.toHexString())
+  })
+
+  it('can cast ISO strings to Dates', () => {
+    assert.deepStrictEqual(castFieldValue({ type: Date }, '2024-01-01'), new Date('2024-01-01'))
+    assert.deepStrictEqual(castFieldValue({ type: Date }, '2024-01-01T12:30:00.000+02:00'), new Date('2024-01-01T12:30:00.000+02:00'))
+    assert(castFieldValue({ type: Date }, 'Jan 1 2024') === 'Jan 1 2024')
+    assert(castFieldValue({ type: Date }, '2024-13-45') === '2024-13-45')
+  })
+
+  it('can cast values of typed array fields', () => {
+    const objectId = new ObjectId()
+
+    assert.deepStrictEqual(castFieldValue({ type: [ObjectId] }, [objectId.toHexString(), 'foo']), [objectId, 'foo'])
+    assert.deepStrictEqual(castFieldValue({ type: [ObjectId] }, objectId.toHexString()), objectId)
+  })
+})
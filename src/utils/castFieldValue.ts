@@ -0,0 +1,47 @@
+import { ObjectId } from 'mongodb'
+import { type FieldDescriptor } from '../core/index.js'
+import { valueIsObjectIdConvertible } from './valueIsObjectIdConvertible.js'
+
+/**
+ * Pattern of ISO 8601 date strings, with optional time and time zone.
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+/**
+ * Casts a value to the type of a field defined in a schema where a lossless
+ * conversion exists, i.e. hex strings to `ObjectId`s for `ObjectId` fields and
+ * ISO 8601 strings to `Date`s for `Date` fields. Values of typed array fields
+ * are cast element-wise, where a single value is cast to the type of the
+ * elements. Values that cannot be cast are returned as is.
+ *
+ * @param spec See {@link FieldDescriptor}.
+ * @param value The value to cast.
+ *
+ * @returns The cast value.
+ *
+ * @example
+ * // Returns ObjectId("5927f337c5178b9665b56b1e")
+ * castFieldValue({ type: ObjectId }, '5927f337c5178b9665b56b1e')
+ *
+ * @example
+ * // Returns [Date("2024-01-01T00:00:00.000Z")]
+ * castFieldValue({ type: [Date] }, ['2024-01-01T00:00:00.000Z'])
+ */
+export function castFieldValue(spec: FieldDescriptor, value: any): any {
+  const type = spec.type instanceof Array ? spec.type[0] : spec.type
+
+  if (spec.type instanceof Array && value instanceof Array) return value.map(t => castFieldValue({ ...spec, type }, t))
+  if (typeof value !== 'string') return value
+
+  if (type === ObjectId) {
+    return valueIsObjectIdConvertible(value) ? new ObjectId(value) : value
+  }
+  else if (type === Date) {
+    const date = new Date(value)
+
+    return ISO_DATE_PATTERN.test(value) && !isNaN(date.getTime()) ? date : value
+  }
+  else {
+    return value
+  }
+}
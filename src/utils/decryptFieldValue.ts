@@ -0,0 +1,44 @@
+import { createDecipheriv } from 'crypto'
+import { BSON } from 'mongodb'
+import { type EncryptionKeyProvider } from '../core/index.js'
+import { EncryptionError } from '../errors/index.js'
+import { getEncryptionKeyId } from './getEncryptionKeyId.js'
+import { typeIsEncryptedFieldValue } from './typeIsEncryptedFieldValue.js'
+
+/**
+ * Decrypts a field value encrypted by {@link encryptFieldValue}, using the key
+ * it is encrypted with. Values that are not encrypted are returned as is.
+ *
+ * @param value The value to decrypt.
+ * @param keyProvider See {@link EncryptionKeyProvider}.
+ *
+ * @returns The decrypted value.
+ *
+ * @throws {EncryptionError} The key is missing or not 256 bits long, or the
+ *                           value is malformed or cannot be authenticated with
+ *                           the key.
+ */
+export async function decryptFieldValue(value: any, keyProvider: EncryptionKeyProvider): Promise<any> {
+  if (!typeIsEncryptedFieldValue(value)) return value
+
+  const keyId = getEncryptionKeyId(value)
+  const key = await keyProvider.getKey(keyId)
+
+  if (!key) throw new EncryptionError(`The encryption key "${keyId}" is not provided`, { operation: 'decrypt' })
+  if (key.length !== 32) throw new EncryptionError(`The encryption key "${keyId}" must be 32 bytes long`, { operation: 'decrypt' })
+
+  const bytes = Buffer.from(value.buffer.subarray(0, value.position))
+  const offset = 2 + bytes[1]
+
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, bytes.subarray(offset, offset + 12))
+
+    decipher.setAAD(bytes.subarray(0, offset))
+    decipher.setAuthTag(bytes.subarray(offset + 12, offset + 28))
+
+    return BSON.deserialize(Buffer.concat([decipher.update(bytes.subarray(offset + 28)), decipher.final()])).value
+  }
+  catch (err) {
+    throw new EncryptionError(`Unable to decrypt a value encrypted with the key "${keyId}"`, { operation: 'decrypt', cause: err })
+  }
+}
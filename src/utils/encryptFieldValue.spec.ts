@@ -0,0 +1,72 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { Binary, ObjectId } from 'mongodb'
+import { type EncryptionKeyProvider } from '../core/index.js'
+import { EncryptionError } from '../errors/index.js'
+import { decryptFieldValue } from './decryptFieldValue.js'
+import { encryptFieldValue } from './encryptFieldValue.js'
+import { getEncryptionKeyId } from './getEncryptionKeyId.js'
+import { ENCRYPTED_FIELD_VALUE_SUBTYPE, ENCRYPTED_FIELD_VALUE_VERSION, typeIsEncryptedFieldValue } from './typeIsEncryptedFieldValue.js'
+
+describe('utils/encryptFieldValue', () => {
+  const keyProvider: EncryptionKeyProvider = {
+    currentKeyId: 'foo',
+    getKey: keyId => Buffer.alloc(32, keyId),
+  }
+
+  it('can encrypt and decrypt values of any type', async () => {
+    const id = new ObjectId()
+    const date = new Date()
+
+    for (const value of ['foo', 1.5, date, id, [1, 2], { a: 'b' }]) {
+      const encrypted = await encryptFieldValue(value, keyProvider)
+
+      assert(typeIsEncryptedFieldValue(encrypted))
+      assert.deepStrictEqual(await decryptFieldValue(encrypted, keyProvider), value)
+    }
+  })
+
+  it('randomizes encrypted values', async () => {
+    const a = await encryptFieldValue('foo', keyProvider)
+    const b = await encryptFieldValue('foo', keyProvider)
+
+    assert(!Buffer.from(a.buffer).equals(Buffer.from(b.buffer)))
+  })
+
+  it('stores the key ID along with the encrypted value', async () => {
+    const encrypted = await encryptFieldValue('foo', keyProvider)
+
+    assert(getEncryptionKeyId(encrypted) === 'foo')
+    assert(await decryptFieldValue(encrypted, { ...keyProvider, currentKeyId: 'bar' }) === 'foo')
+  })
+
+  it('keeps values that are not encrypted as is', async () => {
+    assert(await decryptFieldValue('foo', keyProvider) === 'foo')
+    assert(!typeIsEncryptedFieldValue('foo'))
+  })
+
+  it('throws if the key is invalid', async () => {
+    const encrypted = await encryptFieldValue('foo', keyProvider)
+
+    await assert.rejects(encryptFieldValue('foo', { ...keyProvider, getKey: () => Buffer.alloc(16) }), EncryptionError)
+    await assert.rejects(encryptFieldValue('foo', { ...keyProvider, getKey: () => undefined }), EncryptionError)
+    await assert.rejects(decryptFieldValue(encrypted, { ...keyProvider, getKey: () => undefined }), EncryptionError)
+    await assert.rejects(decryptFieldValue(encrypted, { ...keyProvider, getKey: () => Buffer.alloc(32) }), EncryptionError)
+  })
+
+  it('authenticates the key ID', async () => {
+    const sameKeyProvider: EncryptionKeyProvider = { currentKeyId: 'foo', getKey: () => Buffer.alloc(32, 'foo') }
+    const bytes = Buffer.from((await encryptFieldValue('foo', sameKeyProvider)).buffer)
+
+    bytes.write('bar', 2, 'utf8')
+
+    await assert.rejects(decryptFieldValue(new Binary(bytes, ENCRYPTED_FIELD_VALUE_SUBTYPE), sameKeyProvider), EncryptionError)
+  })
+
+  it('throws if the encrypted value is malformed', async () => {
+    const truncated = new Binary(Buffer.concat([Buffer.from([ENCRYPTED_FIELD_VALUE_VERSION, 3]), Buffer.from('foo'), Buffer.from([1, 2])]), ENCRYPTED_FIELD_VALUE_SUBTYPE)
+
+    assert(typeIsEncryptedFieldValue(truncated))
+    await assert.rejects(decryptFieldValue(truncated, keyProvider), EncryptionError)
+  })
+})
@@ -0,0 +1,47 @@
+import { createCipheriv, randomBytes } from 'crypto'
+import { BSON, Binary } from 'mongodb'
+import { type EncryptionKeyProvider } from '../core/index.js'
+import { EncryptionError } from '../errors/index.js'
+import { ENCRYPTED_FIELD_VALUE_SUBTYPE, ENCRYPTED_FIELD_VALUE_VERSION } from './typeIsEncryptedFieldValue.js'
+
+/**
+ * Encrypts a field value with AES-256-GCM using the current key of the key
+ * provider. The value is serialized as BSON before encryption so that its type
+ * is restored when decrypted. The encrypted value is a `Binary` value of
+ * the {@link ENCRYPTED_FIELD_VALUE_SUBTYPE} subtype consisting of:
+ *   1. The layout version (1 byte).
+ *   2. The length of the key ID (1 byte), followed by the key ID in UTF-8.
+ *   3. The initialization vector (12 bytes).
+ *   4. The authentication tag (16 bytes).
+ *   5. The ciphertext.
+ *
+ * The layout version and the key ID are authenticated as additional data.
+ *
+ * @param value The value to encrypt.
+ * @param keyProvider See {@link EncryptionKeyProvider}.
+ *
+ * @returns The encrypted value.
+ *
+ * @throws {EncryptionError} The key ID is longer than 255 bytes or the key is
+ *                           missing or not 256 bits long.
+ */
+export async function encryptFieldValue(value: any, keyProvider: EncryptionKeyProvider): Promise<Binary> {
+  const keyId = Buffer.from(keyProvider.currentKeyId, 'utf8')
+  const key = await keyProvider.getKey(keyProvider.currentKeyId)
+
+  if (keyId.length > 255) throw new EncryptionError(`The encryption key ID "${keyProvider.currentKeyId}" must not be longer than 255 bytes`, { operation: 'encrypt' })
+  if (!key) throw new EncryptionError(`The encryption key "${keyProvider.currentKeyId}" is not provided`, { operation: 'encrypt' })
+  if (key.length !== 32) throw new EncryptionError(`The encryption key "${keyProvider.currentKeyId}" must be 32 bytes long`, { operation: 'encrypt' })
+
+  const header = Buffer.concat([Buffer.from([ENCRYPTED_FIELD_VALUE_VERSION, keyId.length]), keyId])
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+
+  // Authenticate the header along with the ciphertext so that the version and
+  // key ID cannot be tampered with.
+  cipher.setAAD(header)
+
+  const ciphertext = Buffer.concat([cipher.update(BSON.serialize({ value })), cipher.final()])
+
+  return new Binary(Buffer.concat([header, iv, cipher.getAuthTag(), ciphertext]), ENCRYPTED_FIELD_VALUE_SUBTYPE)
+}
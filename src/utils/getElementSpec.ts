@@ -0,0 +1,28 @@
+import { ObjectId } from 'mongodb'
+import { typeIsFieldDescriptor, type FieldDescriptor } from '../core/Schema.js'
+import { omit } from '../helpers/index.js'
+
+/**
+ * Gets the spec of the elements of a typed array field, i.e. `[Number]` or
+ * `[{ sku: { type: String } }]`. Constraints of the array itself (`minItems`,
+ * `maxItems` and `uniqueItems`) are omitted. Embedded documents of `autoId`
+ * arrays are described with an `_id` field unless the schema already defines
+ * one.
+ *
+ * @param spec See {@link FieldDescriptor}.
+ *
+ * @returns The spec of the elements, `undefined` if the field is not a typed
+ *          array.
+ */
+export function getElementSpec(spec: FieldDescriptor): FieldDescriptor | undefined {
+  if (!(spec.type instanceof Array)) return undefined
+
+  const type: FieldDescriptor['type'] = spec.type[0]
+  const elementSpec: FieldDescriptor = { ...omit(spec, ['minItems', 'maxItems', 'uniqueItems']), type }
+
+  if (spec.autoId === true && typeIsFieldDescriptor(type) && !{}.hasOwnProperty.call(type, '_id')) {
+    elementSpec.type = { _id: { type: ObjectId }, ...type }
+  }
+
+  return elementSpec
+}
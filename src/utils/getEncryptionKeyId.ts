@@ -0,0 +1,15 @@
+import { type Binary } from 'mongodb'
+
+/**
+ * Gets the ID of the key an encrypted field value is encrypted with, see
+ * {@link encryptFieldValue}.
+ *
+ * @param value The encrypted value.
+ *
+ * @returns The key ID.
+ */
+export function getEncryptionKeyId(value: Binary): string {
+  const bytes = Buffer.from(value.buffer.subarray(0, value.position))
+
+  return bytes.subarray(2, 2 + bytes[1]).toString('utf8')
+}
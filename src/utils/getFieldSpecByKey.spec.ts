@@ -0,0 +1,28 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { ObjectId } from 'mongodb'
+import { Bar, Foo } from '../__mocks__/models.js'
+import { getFieldSpecByKey } from './getFieldSpecByKey.js'
+
+describe('utils/getFieldSpecByKey', () => {
+  it('can get the specs of nested fields', () => {
+    assert(getFieldSpecByKey(Foo.schema.fields, 'aString')?.type === String)
+    assert(getFieldSpecByKey(Foo.schema.fields, 'anObject.foo.aNumber')?.type === Number)
+    assert(getFieldSpecByKey(Foo.schema.fields, 'anObject.foo.aBoolean') === undefined)
+    assert(getFieldSpecByKey(Foo.schema.fields, 'aString.foo') === undefined)
+  })
+
+  it('can get the specs of array elements by positional paths', () => {
+    assert(getFieldSpecByKey(Foo.schema.fields, 'someBars.0')?.type === ObjectId)
+    assert(getFieldSpecByKey(Foo.schema.fields, 'someBars.$')?.type === ObjectId)
+    assert(getFieldSpecByKey(Bar.schema.fields, 'someObjects.$')?.autoId === true)
+
+    for (const key of ['someObjects.0.aString', 'someObjects.$.aString', 'someObjects.$[].aString', 'someObjects.$[elem].aString', 'someObjects.aString']) {
+      assert.deepStrictEqual(getFieldSpecByKey(Bar.schema.fields, key), { type: String, required: true }, key)
+    }
+
+    assert(getFieldSpecByKey(Bar.schema.fields, 'someObjects.$._id')?.type === ObjectId)
+    assert(getFieldSpecByKey(Bar.schema.fields, 'someObjects.$.aBoolean') === undefined)
+    assert(getFieldSpecByKey(Foo.schema.fields, 'someBars.$.foo') === undefined)
+  })
+})
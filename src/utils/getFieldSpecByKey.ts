@@ -1,8 +1,17 @@
-import { typeIsFieldDescriptor, type FieldDescriptor } from '../core/Schema.js'
+import { Mixed, typeIsFieldDescriptor, type FieldDescriptor } from '../core/Schema.js'
+import { getElementSpec } from './getElementSpec.js'
+import { keyIsPositional } from './keyIsPositional.js'
 
 /**
  * Finds and returns the spec of a field in the provided schema by its key. This
- * key can be in dot notation to seek fields in embedded docs.
+ * key can be in dot notation to seek fields in embedded docs. Since subfields
+ * of {@link Mixed} fields are not described in the schema, the spec of the
+ * `Mixed` field itself is returned for any of its subfields.
+ *
+ * Elements of typed arrays are resolved by positional segments, i.e.
+ * `lineItems.0`, `lineItems.$`, `lineItems.$[]` or `lineItems.$[elem]`, where
+ * subfields of arrays of embedded docs can also be resolved without one (as
+ * in filters), i.e. `lineItems.qty`. See {@link getElementSpec}.
  *
  * @returns The field spec.
  */
@@ -13,14 +22,32 @@ export function getFieldSpecByKey(fieldDescriptor: Record<string, FieldDescripto
   if (!k) return undefined
   if (!{}.hasOwnProperty.call(fieldDescriptor, k)) return undefined
 
-  const o = fieldDescriptor[k]
+  return getSubfieldSpecByKeys(fieldDescriptor[k], keys)
+}
 
-  if (keys.length === 0) {
-    return o
-  }
-  else {
-    if (!typeIsFieldDescriptor(o.type)) return undefined
+/**
+ * Resolves the spec of a subfield of a field by the remaining segments of its
+ * key.
+ *
+ * @param spec See {@link FieldDescriptor}.
+ * @param keys The remaining segments of the key.
+ *
+ * @returns The field spec.
+ */
+function getSubfieldSpecByKeys(spec: FieldDescriptor, keys: string[]): FieldDescriptor | undefined {
+  if (keys.length === 0) return spec
+  if (spec.type === Mixed) return spec
+
+  const elementSpec = getElementSpec(spec)
 
-    return getFieldSpecByKey(o.type, keys.join('.'))
+  if (elementSpec) {
+    if (keyIsPositional(keys[0])) return getSubfieldSpecByKeys(elementSpec, keys.slice(1))
+    if (!typeIsFieldDescriptor(elementSpec.type)) return undefined
+
+    return getFieldSpecByKey(elementSpec.type, keys.join('.'))
   }
+
+  if (!typeIsFieldDescriptor(spec.type)) return undefined
+
+  return getFieldSpecByKey(spec.type, keys.join('.'))
 }
@@ -0,0 +1,21 @@
+import { keyIsPositional } from './keyIsPositional.js'
+
+/**
+ * Gets the key of a field in the property providers of a model (i.e.
+ * `defaultProps`, `formatProps` and `validateProps`) by its path in dot
+ * notation, where positional segments referring to array elements are replaced
+ * with the all positional operator.
+ *
+ * @param path The field path.
+ *
+ * @returns The key of the field in the property providers.
+ *
+ * @example
+ * // Returns 'lineItems.$[].qty'
+ * getPropertyProviderKey('lineItems.0.qty')
+ * getPropertyProviderKey('lineItems.$.qty')
+ * getPropertyProviderKey('lineItems.$[elem].qty')
+ */
+export function getPropertyProviderKey(path: string): string {
+  return path.split('.').map(t => keyIsPositional(t) ? '$[]' : t).join('.')
+}
@@ -1,16 +1,30 @@
 export * from './ObjectIdEqual.js'
 export * from './ObjectIdGet.js'
 export * from './ObjectIdMake.js'
+export * from './castFieldValue.js'
+export * from './decryptFieldValue.js'
+export * from './encryptFieldValue.js'
 export * from './fieldPath.js'
+export * from './getElementSpec.js'
+export * from './getEncryptionKeyId.js'
 export * from './getFieldSpecByKey.js'
+export * from './getPropertyProviderKey.js'
+export * from './keyIsPositional.js'
+export * from './mapDriverError.js'
 export * from './mapValuesToObjectIds.js'
 export * from './prefixed.js'
+export * from './randomFieldValue.js'
+export * from './resolveFieldReferences.js'
 export * from './sanitizeDocument.js'
 export * from './sanitizeFilter.js'
 export * from './sanitizeUpdate.js'
+export * from './schemaHasFieldPath.js'
 export * from './typeIsAnyDocument.js'
+export * from './typeIsBSONValue.js'
+export * from './typeIsEncryptedFieldValue.js'
 export * from './typeIsIdentifiableDocument.js'
 export * from './typeIsUpdateFilter.js'
 export * from './typeIsValidObjectId.js'
 export * from './validateFieldValue.js'
+export * from './validateUpdate.js'
 export * from './valueIsObjectIdConvertible.js'
@@ -0,0 +1,12 @@
+/**
+ * Checks if a segment of a field path in dot notation refers to elements of an
+ * array, i.e. an index (`0`), the positional operator (`$`), the all
+ * positional operator (`$[]`) or a filtered positional operator (`$[elem]`).
+ *
+ * @param key The path segment.
+ *
+ * @returns `true` or `false`.
+ */
+export function keyIsPositional(key: string): boolean {
+  return key === '$' || /^\$\[\w*\]$/.test(key) || /^\d+$/.test(key)
+}
@@ -0,0 +1,69 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { MongoErrorLabel, MongoNetworkError, MongoServerError, type ClientSession } from 'mongodb'
+import { runWithSession } from '../core/index.js'
+import { ConnectionError, DuplicateKeyError } from '../errors/index.js'
+import { mapDriverError } from './mapDriverError.js'
+
+describe('utils/mapDriverError', () => {
+  it('can map duplicate key errors', () => {
+    const err = new MongoServerError({
+      code: 11000,
+      errmsg: 'E11000 duplicate key error collection: mongodb_odm_test.foos index: aString_1 dup key: { aString: "foo" }',
+      keyPattern: { aString: 1 },
+      keyValue: { aString: 'foo' },
+    })
+
+    const mapped = mapDriverError(err, { model: 'Foo', operation: 'insertOne' })
+
+    assert(mapped instanceof DuplicateKeyError)
+    assert(mapped.model === 'Foo')
+    assert(mapped.operation === 'insertOne')
+    assert(mapped.index === 'aString_1')
+    assert.deepStrictEqual(mapped.keyPattern, { aString: 1 })
+    assert.deepStrictEqual(mapped.keyValue, { aString: 'foo' })
+    assert(mapped.cause === err)
+    assert(mapped.message.startsWith('[Foo] '))
+  })
+
+  it('can map network errors', () => {
+    const mapped = mapDriverError(new MongoNetworkError('connection refused'), { model: 'Foo', operation: 'findMany' })
+
+    assert(mapped instanceof ConnectionError)
+    assert(mapped.model === 'Foo')
+  })
+
+  it('keeps the labels of network errors', () => {
+    const err = new MongoNetworkError('connection refused')
+    err.addErrorLabel(MongoErrorLabel.RetryableWriteError)
+
+    const mapped = mapDriverError(err)
+
+    assert(mapped instanceof ConnectionError)
+    assert.deepStrictEqual(mapped.errorLabels, [MongoErrorLabel.RetryableWriteError])
+    assert(mapped.hasErrorLabel(MongoErrorLabel.RetryableWriteError))
+  })
+
+  it('returns errors labelled as transient transaction errors as is', () => {
+    const err = new MongoNetworkError('connection reset')
+    err.addErrorLabel(MongoErrorLabel.TransientTransactionError)
+
+    assert(mapDriverError(err) === err)
+
+    const commitErr = new MongoServerError({ code: 11000, errmsg: 'E11000 duplicate key error', errorLabels: [MongoErrorLabel.UnknownTransactionCommitResult] })
+
+    assert(mapDriverError(commitErr) === commitErr)
+  })
+
+  it('returns network errors within a transaction as is', () => {
+    const err = new MongoNetworkError('connection refused')
+
+    assert(runWithSession({} as ClientSession, () => mapDriverError(err)) === err)
+  })
+
+  it('returns other errors as is', () => {
+    const err = new Error('foo')
+
+    assert(mapDriverError(err) === err)
+  })
+})
@@ -0,0 +1,41 @@
+import { MongoError, MongoErrorLabel, MongoNetworkError, MongoServerSelectionError } from 'mongodb'
+import { getActiveSession } from '../core/session.js'
+import { ConnectionError, DuplicateKeyError, type ODMErrorOptions } from '../errors/index.js'
+
+/**
+ * Maps an error thrown by the MongoDB driver to its ODM counterpart:
+ *   1. Errors labelled `TransientTransactionError` or
+ *      `UnknownTransactionCommitResult` are returned as is so that the driver
+ *      can retry the transaction.
+ *   2. Duplicate key errors (E11000) are mapped to {@link DuplicateKeyError},
+ *      carrying the violated index and the duplicated key values.
+ *   3. Network and server selection errors are mapped to
+ *      {@link ConnectionError}, carrying the labels of the driver error. These
+ *      errors are returned as is within a transaction, see
+ *      {@link getActiveSession}.
+ * Any other error is returned as is.
+ *
+ * @param err The error thrown by the driver.
+ * @param options The model and operation the error originates from.
+ *
+ * @returns The mapped error.
+ */
+export function mapDriverError(err: unknown, options: ODMErrorOptions = {}): unknown {
+  if (!(err instanceof MongoError)) return err
+  if (err.hasErrorLabel(MongoErrorLabel.TransientTransactionError) || err.hasErrorLabel(MongoErrorLabel.UnknownTransactionCommitResult)) return err
+
+  if (err.code === 11000) {
+    const { keyPattern, keyValue } = err as MongoError & { keyPattern?: Record<string, any>; keyValue?: Record<string, any> }
+    const index = err.message.match(/index: (\S+)/)?.[1]
+
+    return new DuplicateKeyError(`Duplicate key${index ? ` for index "${index}"` : ''}${keyValue ? ` with ${JSON.stringify(keyValue)}` : ''}`, { ...options, index, keyPattern, keyValue, cause: err })
+  }
+
+  if (err instanceof MongoNetworkError || err instanceof MongoServerSelectionError) {
+    if (getActiveSession()) return err
+
+    return new ConnectionError(err.message, { ...options, errorLabels: [...err.errorLabels], cause: err })
+  }
+
+  return err
+}
@@ -1,18 +1,23 @@
 import { ObjectId } from 'mongodb'
 import { isPlainObject } from '../helpers/index.js'
+import { typeIsBSONValue } from './typeIsBSONValue.js'
 import { valueIsObjectIdConvertible } from './valueIsObjectIdConvertible.js'
 
 /**
  * Maps a single value or a collection of values to Object IDs. If a value
  * cannot be converted to an Object ID, it will be skipped (but remains in the
- * collection or returned if a single value is passed).
+ * collection or returned if a single value is passed). BSON values (i.e.
+ * `Decimal128`, `Binary`, `Long`, `UUID`) and binary data are returned as is.
  *
  * @param val A single value or a collection of values to map.
  *
  * @returns The mapped value(s).
  */
 export function mapValuesToObjectIds(val: any): any {
-  if (val instanceof Array) {
+  if (typeIsBSONValue(val) || ArrayBuffer.isView(val) || typeof val === 'bigint') {
+    return val
+  }
+  else if (val instanceof Array) {
     return val.map(v => mapValuesToObjectIds(v))
   }
   else if (isPlainObject(val)) {
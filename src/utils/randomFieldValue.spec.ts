@@ -0,0 +1,20 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { Binary, Decimal128, Long, UUID } from 'mongodb'
+import { randomFieldValue } from './randomFieldValue.js'
+import { validateFieldValue } from './validateFieldValue.js'
+
+describe('utils/randomFieldValue', () => {
+  it('can generate random values of BSON types', () => {
+    for (const type of [Decimal128, Binary, Long, UUID, [UUID]]) {
+      const value = randomFieldValue({ type })
+      assert(value !== undefined)
+      assert.doesNotThrow(() => validateFieldValue(value, { type }))
+    }
+  })
+
+  it('does not generate random values of other types', () => {
+    assert(randomFieldValue({ type: String }) === undefined)
+    assert(randomFieldValue({ type: [Number] }) === undefined)
+  })
+})
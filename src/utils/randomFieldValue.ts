@@ -0,0 +1,34 @@
+import { randomBytes } from 'crypto'
+import { Binary, Decimal128, Long, UUID } from 'mongodb'
+import { type FieldDescriptor, type FieldValue } from '../core/index.js'
+
+/**
+ * Generates a random value for a field based on its type, used as a fallback
+ * when the model does not provide a random value generator for the field. Only
+ * BSON types (i.e. `Decimal128`, `Binary`, `Long` and `UUID`) and typed arrays
+ * of them are supported.
+ *
+ * @param spec See {@link FieldDescriptor}.
+ *
+ * @returns The random value, `undefined` if the field type is not supported.
+ */
+export function randomFieldValue(spec: FieldDescriptor): FieldValue {
+  switch (spec.type) {
+    case Decimal128:
+      return Decimal128.fromString((Math.random() * 1000).toFixed(2))
+    case Binary:
+      return new Binary(randomBytes(16))
+    case Long:
+      return Long.fromNumber(Math.floor(Math.random() * Number.MAX_SAFE_INTEGER))
+    case UUID:
+      return new UUID()
+    default:
+      if (spec.type instanceof Array && spec.type.length === 1) {
+        const value = randomFieldValue({ ...spec, type: spec.type[0] })
+
+        return value === undefined ? undefined : [value] as FieldValue
+      }
+
+      return undefined
+  }
+}
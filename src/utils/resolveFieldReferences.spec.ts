@@ -0,0 +1,19 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { Foo } from '../__mocks__/models.js'
+import { resolveFieldReferences } from './resolveFieldReferences.js'
+
+describe('utils/resolveFieldReferences', () => {
+  it('can resolve field references in an expression', () => {
+    assert.deepStrictEqual(resolveFieldReferences(Foo.schema, { $add: ['$aNumber', '$anObject.foo.aNumber', 1] }, 'foo'), { $add: ['$foo.aNumber', '$foo.anObject.foo.aNumber', 1] })
+    assert.deepStrictEqual(resolveFieldReferences(Foo.schema, { $concat: ['$_id', '$createdAt'] }), { $concat: ['$_id', '$createdAt'] })
+  })
+
+  it('leaves variables and literals untouched', () => {
+    assert.deepStrictEqual(resolveFieldReferences(Foo.schema, { root: '$$ROOT', price: { $literal: '$1' }, aString: 'foo' }, 'foo'), { root: '$$ROOT', price: { $literal: '$1' }, aString: 'foo' })
+  })
+
+  it('throws if a referenced field does not exist in the schema', () => {
+    assert.throws(() => resolveFieldReferences(Foo.schema, { $add: ['$garbage', 1] }))
+  })
+})
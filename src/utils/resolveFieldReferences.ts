@@ -0,0 +1,49 @@
+import { type Schema } from '../core/index.js'
+import { type AnyProps } from '../types/index.js'
+import { fieldPath } from './fieldPath.js'
+import { schemaHasFieldPath } from './schemaHasFieldPath.js'
+
+/**
+ * Resolves the field path references (i.e. `"$foo.bar"`) in an aggregation
+ * expression against a schema, verifying that each referenced field exists in
+ * the schema and prepending the provided prefix to it. Variables (i.e.
+ * `"$$ROOT"`) and the values of `$literal` expressions are left untouched.
+ *
+ * @param schema The schema.
+ * @param expression The aggregation expression.
+ * @param prefix The prefix to prepend to the referenced fields.
+ *
+ * @returns The expression with the resolved field path references.
+ *
+ * @throws {Error} A referenced field does not exist in the schema.
+ *
+ * @example
+ * // Returns { "$add": ["$foo.aNumber", 1] }
+ * resolveFieldReferences(schema, { $add: ['$aNumber', 1] }, 'foo')
+ */
+export function resolveFieldReferences<P extends AnyProps = AnyProps>(schema: Schema<P>, expression: any, prefix = ''): any {
+  if (typeof expression === 'string') {
+    if (!expression.startsWith('$') || expression.startsWith('$$')) return expression
+
+    const path = expression.substring(1)
+    if (!schemaHasFieldPath(schema, path)) throw new Error(`The field "${path}" does not exist in the schema for collection "${schema.collection}"`)
+
+    return fieldPath(path, prefix)
+  }
+  else if (expression instanceof Array) {
+    return expression.map(t => resolveFieldReferences(schema, t, prefix))
+  }
+  else if (expression !== null && typeof expression === 'object' && Object.getPrototypeOf(expression) === Object.prototype) {
+    const out: Record<string, any> = {}
+
+    for (const key in expression) {
+      if (!{}.hasOwnProperty.call(expression, key)) continue
+      out[key] = key === '$literal' ? expression[key] : resolveFieldReferences(schema, expression[key], prefix)
+    }
+
+    return out
+  }
+  else {
+    return expression
+  }
+}
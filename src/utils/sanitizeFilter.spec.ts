@@ -2,7 +2,8 @@ import assert from 'assert'
 import _ from 'lodash'
 import { describe, it } from 'mocha'
 import { ObjectId } from 'mongodb'
-import { Baz } from '../__mocks__/models.js'
+import { Bar, Baz, Foo } from '../__mocks__/models.js'
+import { ValidationError } from '../errors/index.js'
 import { sanitizeFilter } from './sanitizeFilter.js'
 
 describe('utils/sanitizeFilter', () => {
@@ -26,20 +27,17 @@ describe('utils/sanitizeFilter', () => {
     assert(expected._id.equals(actual._id! as ObjectId))
   })
 
-  it('can generate valid queries removing extraneous fields', () => {
+  it('throws when generating queries with extraneous fields', () => {
     const objectId = new ObjectId()
 
-    const expected = {
+    assert.throws(() => sanitizeFilter(Baz.schema, {
       _id: objectId,
       aString: 'baz',
-    }
-
-    const actual = sanitizeFilter(Baz.schema, {
-      ...expected,
       anExtraneousField: 'baz',
-    })
+    }), (err: ValidationError) => err instanceof ValidationError && err.errors[0].path === 'anExtraneousField' && err.errors[0].rule === 'schema')
 
-    assert.deepStrictEqual(Object.keys(actual), Object.keys(expected))
+    assert.throws(() => sanitizeFilter(Baz.schema, { $or: [{ aString: 'baz' }, { anExtraneousField: 'baz' }] }), ValidationError)
+    assert.throws(() => sanitizeFilter(Baz.schema, { createdAt: new Date() }), ValidationError)
   })
 
   it('can generate valid queries while keeping extraneous fields', () => {
@@ -59,4 +57,40 @@ describe('utils/sanitizeFilter', () => {
 
     assert(_.get(actual, 'anExtraneousField') === 'baz')
   })
+
+  it('can cast values by field type', () => {
+    const objectId = new ObjectId()
+
+    const filter: Record<string, any> = {
+      _id: objectId.toHexString(),
+      aBar: { $in: [objectId.toHexString(), null] },
+      aDate: { $gte: '2024-01-01T00:00:00.000Z', $not: { $gt: '2025-01-01' } },
+      aString: objectId.toHexString(),
+    }
+
+    const actual = sanitizeFilter(Bar.schema, filter)
+
+    assert.deepStrictEqual(actual, {
+      _id: objectId,
+      aBar: { $in: [objectId, null] },
+      aDate: { $gte: new Date('2024-01-01T00:00:00.000Z'), $not: { $gt: new Date('2025-01-01') } },
+      aString: objectId.toHexString(),
+    })
+  })
+
+  it('can sanitize logical and element operators', () => {
+    const objectId = new ObjectId()
+
+    const filter: Record<string, any> = {
+      $or: [{ aBar: objectId.toHexString() }, { $and: [{ someBars: objectId.toHexString() }, { someBars: { $elemMatch: { $eq: objectId.toHexString() } } }] }],
+      $expr: { $gt: ['$aNumber', 1] },
+    }
+
+    const actual = sanitizeFilter(Foo.schema, filter)
+
+    assert.deepStrictEqual(actual, {
+      $or: [{ aBar: objectId }, { $and: [{ someBars: objectId }, { someBars: { $elemMatch: { $eq: objectId } } }] }],
+      $expr: { $gt: ['$aNumber', 1] },
+    })
+  })
 })
@@ -1,25 +1,45 @@
 import { ObjectId, type Filter } from 'mongodb'
-import { type Schema } from '../core/index.js'
+import { typeIsFieldDescriptor, type FieldDescriptor, type Schema } from '../core/Schema.js'
+import { ValidationError, type ValidationErrorEntry } from '../errors/index.js'
+import { isPlainObject } from '../helpers/index.js'
 import { type AnyFilter, type AnyProps, type Document } from '../types/index.js'
-import { sanitizeDocument } from './sanitizeDocument.js'
+import { castFieldValue } from './castFieldValue.js'
+import { getElementSpec } from './getElementSpec.js'
+import { getFieldSpecByKey } from './getFieldSpecByKey.js'
+import { prefixed } from './prefixed.js'
 import { typeIsValidObjectId } from './typeIsValidObjectId.js'
 
 export type SanitizeFilterOptions = {
   /**
-   * If set to `true`, fields that are not specified in the schema will be
-   * deleted as part of the sanitizing process.
+   * If set to `true`, fields that are not specified in the schema will raise a
+   * {@link ValidationError}, otherwise they are kept as is.
    */
   strict?: boolean
 }
 
+/**
+ * Resolves the spec of a field by its path in dot notation.
+ */
+type FieldSpecResolver = (path: string) => FieldDescriptor | undefined
+
+/**
+ * Function invoked for every unknown field.
+ */
+type FilterErrorReporter = (entry: ValidationErrorEntry) => void
+
 /**
  * Magically transforms any supported value into a valid input for filtering db
  * collections. Note that this process does not perform any data validations.
  * The transformation process includes the following:
  *   1. Wraps an `ObjectId` instance or string representing an `ObjectId` into a
  *      proper filter.
- *   2. If strict mode is enabled, the provided schema will be used to strip out
- *      all extraneous fields from the input. See {@link sanitizeDocument}.
+ *   2. Walks the logical operators (`$and`, `$or` and `$nor`) and the field
+ *      operators (i.e. `$in`, `$not` and `$elemMatch`) of the filter, casting
+ *      the values of each field by its type in the schema, see
+ *      {@link castFieldValue}. Other top-level operators (i.e. `$expr`) are
+ *      kept as is.
+ *   3. If strict mode is enabled, fields that are not specified in the schema
+ *      raise a {@link ValidationError} instead of being kept as is.
  *
  * @param schema The collection schema.
  * @param filter The filter to sanitize.
@@ -27,6 +47,9 @@ export type SanitizeFilterOptions = {
  *
  * @returns The sanitized {@link Filter}.
  *
+ * @throws {ValidationError} Strict mode is enabled and the filter has fields
+ *                           that are not specified in the schema.
+ *
  * @example
  * // Returns { "_id": 5927f337c5178b9665b56b1e }
  * sanitizeFilter(schema, 5927f337c5178b9665b56b1e)
@@ -34,11 +57,15 @@ export type SanitizeFilterOptions = {
  * sanitizeFilter(schema, { _id: '5927f337c5178b9665b56b1e' })
  *
  * @example
+ * // Returns { "$or": [{ "aBar": 5927f337c5178b9665b56b1e }, { "aDate": { "$gt": 2024-01-01T00:00:00.000Z } }] }
+ * sanitizeFilter(schema, { $or: [{ aBar: '5927f337c5178b9665b56b1e' }, { aDate: { $gt: '2024-01-01' } }] })
+ *
+ * @example
  * // Returns { a: 'b', b: 'c', garbage: 'garbage' }
  * sanitizeFilter(schema, { a: 'b', b: 'c', garbage: 'garbage' }, { strict: false })
  *
  * @example
- * // Returns { a: 'b', b: 'c' }
+ * // Throws a ValidationError
  * sanitizeFilter(schema, { a: 'b', b: 'c', garbage: 'garbage' })
  * sanitizeFilter(schema, { a: 'b', b: 'c', garbage: 'garbage' }, { strict: true })
  */
@@ -49,10 +76,143 @@ export function sanitizeFilter<P extends AnyProps = AnyProps>(schema: Schema<P>,
   else if (typeof filter === 'string') {
     return { _id: new ObjectId(filter) } as Filter<Document<P>>
   }
-  else if (strict) {
-    return sanitizeDocument(schema, filter, { accountForDotNotation: true }) as Filter<Document<P>>
-  }
   else {
-    return filter
+    const errors: ValidationErrorEntry[] = []
+
+    const resolve: FieldSpecResolver = path => {
+      if (path === '_id') return { type: ObjectId }
+      if (schema.timestamps === true && (path === 'createdAt' || path === 'updatedAt')) return { type: Date }
+
+      return getFieldSpecByKey(schema.fields, path)
+    }
+
+    const sanitized = sanitizeFilterObject(filter, resolve, '', strict, entry => errors.push(entry))
+
+    if (errors.length > 0) throw new ValidationError(errors, { model: schema.model, operation: 'sanitizeFilter' })
+
+    return sanitized as Filter<Document<P>>
   }
 }
+
+/**
+ * Sanitizes a filter object, where each key is either a field path or a
+ * top-level operator.
+ *
+ * @param filter The filter object.
+ * @param resolve Resolves the specs of the fields.
+ * @param path Path of the filtered document, used to report unknown fields.
+ * @param strict See {@link SanitizeFilterOptions.strict}.
+ * @param report The function to report unknown fields to.
+ *
+ * @returns The sanitized filter object.
+ */
+function sanitizeFilterObject(filter: Record<string, any>, resolve: FieldSpecResolver, path: string, strict: boolean, report: FilterErrorReporter): Record<string, any> {
+  const out: Record<string, any> = {}
+
+  for (const key in filter) {
+    if (!{}.hasOwnProperty.call(filter, key)) continue
+
+    const value = filter[key]
+    if (value === undefined) continue
+
+    if (key === '$and' || key === '$or' || key === '$nor') {
+      out[key] = value instanceof Array ? value.map(t => sanitizeFilterObject(t, resolve, path, strict, report)) : value
+    }
+    else if (key.startsWith('$')) {
+      out[key] = value
+    }
+    else {
+      const spec = resolve(key)
+
+      if (spec) {
+        out[key] = sanitizeFieldCondition(value, spec, prefixed(key, path), strict, report)
+      }
+      else if (strict) {
+        report({ path: prefixed(key, path), rule: 'schema', value, message: `The field '${prefixed(key, path)}' is not defined in the schema` })
+      }
+      else {
+        out[key] = value
+      }
+    }
+  }
+
+  return out
+}
+
+/**
+ * Sanitizes the condition of a single field, which is either a value to match
+ * or an object of operators.
+ *
+ * @param condition The condition.
+ * @param spec The spec of the field.
+ * @param path Path of the field, used to report unknown fields.
+ * @param strict See {@link SanitizeFilterOptions.strict}.
+ * @param report The function to report unknown fields to.
+ *
+ * @returns The sanitized condition.
+ */
+function sanitizeFieldCondition(condition: any, spec: FieldDescriptor, path: string, strict: boolean, report: FilterErrorReporter): any {
+  if (!typeIsOperatorObject(condition)) return castFieldValue(spec, condition)
+
+  const out: Record<string, any> = {}
+
+  for (const operator in condition) {
+    if (!{}.hasOwnProperty.call(condition, operator)) continue
+
+    const value = condition[operator]
+
+    switch (operator) {
+      case '$eq':
+      case '$ne':
+      case '$gt':
+      case '$gte':
+      case '$lt':
+      case '$lte':
+        out[operator] = castFieldValue(spec, value)
+        break
+      case '$in':
+      case '$nin':
+      case '$all':
+        out[operator] = value instanceof Array ? value.map(t => castFieldValue(spec, t)) : value
+        break
+      case '$not':
+        out[operator] = sanitizeFieldCondition(value, spec, path, strict, report)
+        break
+      case '$elemMatch': {
+        const elementSpec = getElementSpec(spec) ?? spec
+        const elementType = elementSpec.type
+
+        if (typeIsOperatorObject(value)) {
+          out[operator] = sanitizeFieldCondition(value, elementSpec, path, strict, report)
+        }
+        else if (typeIsFieldDescriptor(elementType) && isPlainObject(value)) {
+          out[operator] = sanitizeFilterObject(value, t => getFieldSpecByKey(elementType, t), path, strict, report)
+        }
+        else {
+          out[operator] = value
+        }
+
+        break
+      }
+      default:
+        out[operator] = value
+    }
+  }
+
+  return out
+}
+
+/**
+ * Checks if a value is an object of operators, i.e. `{ $gt: 1, $lt: 5 }`.
+ *
+ * @param value The value to check.
+ *
+ * @returns `true` or `false`.
+ */
+function typeIsOperatorObject(value: any): value is Record<string, any> {
+  if (!isPlainObject(value)) return false
+
+  const keys = Object.keys(value)
+
+  return keys.length > 0 && keys.every(key => key.startsWith('$'))
+}
@@ -11,7 +11,11 @@ export type SanitizeUpdateOptions = {
 
 /**
  * Transforms the generic update descriptor specific to this library to an
- * {@link UpdateFilter} object that is readable by the MongoDB driver.
+ * {@link UpdateFilter} object that is readable by the MongoDB driver. Fields
+ * that are not specified in the schema are dropped from the `$set`,
+ * `$setOnInsert`, `$addToSet` and `$push` operators, while the remaining
+ * operators are kept as is so that such fields are rejected by
+ * `validateUpdate`.
  *
  * @param update The update object to sanitize.
  *
@@ -0,0 +1,20 @@
+import { type Schema } from '../core/index.js'
+import { type AnyProps } from '../types/index.js'
+import { getFieldSpecByKey } from './getFieldSpecByKey.js'
+
+/**
+ * Checks if a field path (in dot notation) exists in a schema, accounting for
+ * the `_id` field and timestamp fields (if enabled) which are not described in
+ * the schema fields.
+ *
+ * @param schema The schema.
+ * @param path The field path, i.e. `foo.bar`.
+ *
+ * @returns `true` if the field path exists, `false` otherwise.
+ */
+export function schemaHasFieldPath<P extends AnyProps = AnyProps>(schema: Schema<P>, path: string): boolean {
+  if (path === '_id') return true
+  if (schema.timestamps === true && (path === 'createdAt' || path === 'updatedAt')) return true
+
+  return getFieldSpecByKey(schema.fields, path) !== undefined
+}
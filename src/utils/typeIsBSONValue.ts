@@ -0,0 +1,13 @@
+import { BSON } from 'mongodb'
+
+/**
+ * Checks if a value is an instance of one of the BSON types, i.e. `ObjectId`,
+ * `Decimal128`, `Binary`, `Long`, `UUID`, etc.
+ *
+ * @param value Value to check.
+ *
+ * @returns `true` if value is a BSON value, `false` otherwise.
+ */
+export function typeIsBSONValue(value: any): value is BSON.BSONValue {
+  return value instanceof BSON.BSONValue
+}
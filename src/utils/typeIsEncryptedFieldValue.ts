@@ -0,0 +1,26 @@
+import { Binary } from 'mongodb'
+
+/**
+ * Binary subtype of encrypted field values.
+ */
+export const ENCRYPTED_FIELD_VALUE_SUBTYPE = Binary.SUBTYPE_USER_DEFINED
+
+/**
+ * Version of the layout of encrypted field values, stored as their first byte.
+ */
+export const ENCRYPTED_FIELD_VALUE_VERSION = 1
+
+/**
+ * Checks if a value is an encrypted field value, see
+ * {@link encryptFieldValue}.
+ *
+ * @param value Value to check.
+ *
+ * @returns `true` or `false`.
+ */
+export function typeIsEncryptedFieldValue(value: any): value is Binary {
+  if (!(value instanceof Binary)) return false
+  if (value.sub_type !== ENCRYPTED_FIELD_VALUE_SUBTYPE) return false
+
+  return value.buffer[0] === ENCRYPTED_FIELD_VALUE_VERSION
+}
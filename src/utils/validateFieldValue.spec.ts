@@ -1,6 +1,8 @@
 import assert from 'assert'
 import { describe, it } from 'mocha'
-import { ObjectId } from 'mongodb'
+import { Binary, Decimal128, Long, ObjectId, UUID } from 'mongodb'
+import { Mixed } from '../core/index.js'
+import { ValidationError } from '../errors/index.js'
 import { validateFieldValue } from './validateFieldValue.js'
 
 describe('utils/validate', () => {
@@ -66,8 +68,125 @@ describe('utils/validate', () => {
     assert.doesNotThrow(() => validateFieldValue({ a: 'foo', b: { c: true, d: [0, 1, 2, 3] } }, { type: { a: { type: String }, b: { type: { c: { type: Boolean }, d: { type: [Number] } } } } }))
   })
 
+  it('can validate arrays of embedded docs', () => {
+    const spec = { type: [{ sku: { type: String, required: true }, qty: { type: Number, min: 1 } }] as const, maxItems: 2 }
+
+    assert.doesNotThrow(() => validateFieldValue([{ sku: 'foo', qty: 1 }, { sku: 'bar' }], spec))
+    assert.throws(() => validateFieldValue([{ sku: 'foo', qty: 0 }], spec), (err: ValidationError) => err.errors[0].path === '0.qty' && err.errors[0].rule === 'min')
+    assert.throws(() => validateFieldValue([{ qty: 1 }], spec, undefined, { path: 'lineItems' }), (err: ValidationError) => err.errors[0].path === 'lineItems.0.sku' && err.errors[0].rule === 'required')
+    assert.throws(() => validateFieldValue([{ sku: 'foo' }, 'bar'], spec), /expected to be an object/)
+    assert.throws(() => validateFieldValue([{ sku: 'foo' }, { sku: 'bar' }, { sku: 'baz' }], spec), /"maxItems"/)
+  })
+
+  it('can validate nested fields and array elements with validation strategies', () => {
+    const spec = { type: { foo: { type: { aString: { type: String } } }, tags: { type: [String] } } }
+    const strategies = { 'anObject.foo.aString': /^foo/, 'anObject.tags.$[]': 3 }
+
+    assert.doesNotThrow(() => validateFieldValue({ foo: { aString: 'foo' }, tags: ['bar'] }, spec, undefined, { path: 'anObject', strategies }))
+    assert.throws(() => validateFieldValue({ foo: { aString: 'bar' } }, spec, undefined, { path: 'anObject', strategies }), (err: ValidationError) => err.errors[0].path === 'anObject.foo.aString' && err.errors[0].rule === 'validator')
+    assert.throws(() => validateFieldValue({ tags: ['bar', 'bazz'] }, spec, undefined, { path: 'anObject', strategies }), (err: ValidationError) => err.errors[0].path === 'anObject.tags.1')
+  })
+
   it('can validate ObjectIDs', () => {
     const i = new ObjectId()
     assert.doesNotThrow(() => validateFieldValue(i, { type: ObjectId }))
   })
+
+  it('can validate Decimal128s', () => {
+    assert.doesNotThrow(() => validateFieldValue(Decimal128.fromString('12.34'), { type: Decimal128 }))
+    assert.throws(() => validateFieldValue(12.34, { type: Decimal128 }))
+  })
+
+  it('can validate binary data', () => {
+    assert.doesNotThrow(() => validateFieldValue(new Binary(Buffer.from('foo')), { type: Binary }))
+    assert.doesNotThrow(() => validateFieldValue(Buffer.from('foo'), { type: Binary }))
+    assert.doesNotThrow(() => validateFieldValue(new Uint8Array([1, 2, 3]), { type: Binary }))
+    assert.throws(() => validateFieldValue('foo', { type: Binary }))
+  })
+
+  it('can validate Longs', () => {
+    assert.doesNotThrow(() => validateFieldValue(Long.fromString('9223372036854775807'), { type: Long }))
+    assert.doesNotThrow(() => validateFieldValue(BigInt('9223372036854775807'), { type: Long }))
+    assert.doesNotThrow(() => validateFieldValue(42, { type: Long }))
+    assert.throws(() => validateFieldValue(4.2, { type: Long }))
+  })
+
+  it('can validate UUIDs', () => {
+    const i = new UUID()
+    assert.doesNotThrow(() => validateFieldValue(i, { type: UUID }))
+    assert.doesNotThrow(() => validateFieldValue(new Binary(i.buffer, Binary.SUBTYPE_UUID), { type: UUID }))
+    assert.throws(() => validateFieldValue(new Binary(i.buffer), { type: UUID }))
+    assert.throws(() => validateFieldValue(i.toHexString(), { type: UUID }))
+  })
+
+  it('can validate mixed values', () => {
+    assert.doesNotThrow(() => validateFieldValue({ a: 'foo', b: [0, 1] }, { type: Mixed }))
+    assert.doesNotThrow(() => validateFieldValue('foo', { type: Mixed }))
+    assert.throws(() => validateFieldValue('foo', { type: Mixed }, (v: any) => typeof v === 'number'))
+  })
+
+  it('can validate number constraints', () => {
+    assert.doesNotThrow(() => validateFieldValue(5, { type: Number, min: 5, max: 5 }))
+    assert.throws(() => validateFieldValue(4, { type: Number, min: 5 }), /"min"/)
+    assert.throws(() => validateFieldValue(6, { type: Number, max: 5 }), /"max"/)
+    assert.throws(() => validateFieldValue(Long.fromNumber(6), { type: Long, max: 5 }), /"max"/)
+    assert.throws(() => validateFieldValue(Decimal128.fromString('5.01'), { type: Decimal128, max: 5 }), /"max"/)
+    assert.throws(() => validateFieldValue(3, { type: Number, enum: [1, 2] }), /"enum"/)
+  })
+
+  it('can validate string constraints', () => {
+    assert.doesNotThrow(() => validateFieldValue('foo', { type: String, minLength: 3, maxLength: 3, pattern: /^f/, enum: ['foo'] }))
+    assert.throws(() => validateFieldValue('fo', { type: String, minLength: 3 }), /"minLength"/)
+    assert.throws(() => validateFieldValue('fooo', { type: String, maxLength: 3 }), /"maxLength"/)
+    assert.throws(() => validateFieldValue('bar', { type: String, pattern: /^f/ }), /"pattern"/)
+    assert.throws(() => validateFieldValue('bar', { type: String, enum: ['foo'] }), /"enum"/)
+  })
+
+  it('can validate date constraints', () => {
+    const i = new Date('2020-01-01')
+    assert.doesNotThrow(() => validateFieldValue(i, { type: Date, after: new Date('2019-12-31'), before: new Date('2020-01-02') }))
+    assert.throws(() => validateFieldValue(i, { type: Date, before: i }), /"before"/)
+    assert.throws(() => validateFieldValue(i, { type: Date, after: i }), /"after"/)
+  })
+
+  it('can validate array constraints', () => {
+    assert.doesNotThrow(() => validateFieldValue([1, 2], { type: [Number], minItems: 2, maxItems: 2, uniqueItems: true }))
+    assert.throws(() => validateFieldValue([1], { type: [Number], minItems: 2 }), /"minItems"/)
+    assert.throws(() => validateFieldValue([1, 2, 3], { type: Array, maxItems: 2 }), /"maxItems"/)
+    assert.throws(() => validateFieldValue([1, 1], { type: [Number], uniqueItems: true }), /"uniqueItems"/)
+
+    const i = new ObjectId()
+    assert.throws(() => validateFieldValue([i, new ObjectId(i.toHexString())], { type: [ObjectId], uniqueItems: true }), /"uniqueItems"/)
+  })
+
+  it('can validate constraints of typed array elements and nested fields', () => {
+    assert.throws(() => validateFieldValue([1, 6], { type: [Number], max: 5 }), /"max"/)
+    assert.throws(() => validateFieldValue(['foo', 'fooo'], { type: [String], maxLength: 3, minItems: 2 }), /"maxLength"/)
+    assert.throws(() => validateFieldValue({ a: { b: 'fooo' } }, { type: { a: { type: { b: { type: String, maxLength: 3 } } } } }), /"maxLength"/)
+  })
+
+  it('throws a ValidationError with the path of the first invalid field', () => {
+    const spec = { type: { foo: { type: { aNumber: { type: Number, max: 5 } } }, tags: { type: [String] } } }
+
+    assert.throws(() => validateFieldValue({ foo: { aNumber: 6 }, tags: ['a', 'b', 'c', 4] }, spec, undefined, { path: 'anObject' }), (err: any) => {
+      assert(err instanceof ValidationError)
+      assert(err.errors.length === 1)
+      assert(err.errors[0].path === 'anObject.foo.aNumber')
+      assert(err.errors[0].rule === 'max')
+      assert(err.errors[0].value === 6)
+
+      return true
+    })
+  })
+
+  it('can collect all validation errors', () => {
+    const spec = { type: { foo: { type: { aNumber: { type: Number, max: 5 } } }, tags: { type: [String] }, aString: { type: String, required: true } } }
+
+    assert.throws(() => validateFieldValue({ foo: { aNumber: 6 }, tags: ['a', 'b', 'c', 4] }, spec, undefined, { mode: 'all' }), (err: any) => {
+      assert(err instanceof ValidationError)
+      assert.deepStrictEqual(err.errors.map(t => [t.path, t.rule]), [['foo.aNumber', 'max'], ['tags.3', 'type'], ['aString', 'required']])
+
+      return true
+    })
+  })
 })
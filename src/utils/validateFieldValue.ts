@@ -1,210 +1,279 @@
-import { ObjectId } from 'mongodb'
-import { type FieldDescriptor, type FieldType, type FieldValidationStrategy, type FieldValue } from '../core/index.js'
+import { Binary, Decimal128, Long, ObjectId, UUID } from 'mongodb'
+import { type FieldValidationStrategy } from '../core/Model.js'
+import { Mixed, type FieldDescriptor, type FieldValue } from '../core/Schema.js'
+import { ValidationError, type ValidationErrorEntry, type ValidationMode } from '../errors/index.js'
 import { isPlainObject } from '../helpers/index.js'
+import { getElementSpec } from './getElementSpec.js'
+import { getPropertyProviderKey } from './getPropertyProviderKey.js'
+import { prefixed } from './prefixed.js'
 import { typeIsValidObjectId } from './typeIsValidObjectId.js'
 
+export type ValidateFieldValueOptions = {
+  /**
+   * Path of the field being validated in dot notation, used as the prefix of
+   * the paths of the reported errors.
+   */
+  path?: string
+
+  /**
+   * @see {@link ValidationMode}
+   */
+  mode?: ValidationMode
+
+  /**
+   * Validation strategies of nested fields and typed array elements (i.e. the
+   * `validateProps` of a model), keyed by their paths including the `path`
+   * prefix, see {@link getPropertyProviderKey}.
+   */
+  strategies?: Record<string, FieldValidationStrategy<any> | undefined>
+}
+
+/**
+ * Function invoked for every validation failure.
+ */
+type ValidationErrorReporter = (entry: ValidationErrorEntry) => void
+
+/**
+ * Checks a value against field properties definied in a schema. Each failure
+ * is reported as a {@link ValidationErrorEntry} with the rule it violated, i.e.
+ * `required`, `type`, `validator` (for validation strategies) or the name of
+ * the violated constraint (`min`, `max`, `minLength`, `maxLength`, `pattern`,
+ * `enum`, `minItems`, `maxItems`, `uniqueItems`, `before` or `after`). Failures
+ * of nested fields and typed array elements are reported with their paths,
+ * i.e. `anObject.foo.aNumber` or `tags.3`.
+ *
+ * Unsupported validation strategies are reported as failures of the
+ * `validator` rule, i.e. a RegExp validator is only supported for string
+ * values, a number validator (inclusive maximum of the string length or number
+ * value) is only supported for string and number values, and an array
+ * validator (set of allowed values) is only supported for string, number and
+ * boolean values.
+ *
+ * @param value The value to check.
+ * @param spec See {@link FieldDescriptor}.
+ * @param strategy See {@link FieldValidationStrategy}.
+ * @param options See {@link ValidateFieldValueOptions}.
+ *
+ * @throws {ValidationError} The value fails validation, either with the first
+ *                           failure or all failures depending on the `mode`.
+ * @throws {TypeError} Incorrect definition of a typed array type in the spec.
+ */
+export function validateFieldValue<V = FieldValue>(value: V, spec: FieldDescriptor, strategy?: FieldValidationStrategy<V>, { path = '', mode = 'first', strategies = {} }: ValidateFieldValueOptions = {}) {
+  const errors: ValidationErrorEntry[] = []
+
+  collectFieldValueErrors(value, spec, strategy, path, strategies, entry => {
+    if (mode === 'first') throw new ValidationError([entry])
+    errors.push(entry)
+  })
+
+  if (errors.length > 0) throw new ValidationError(errors)
+}
+
 /**
- * Checks a value against field properties definied in a schema.
+ * Checks a value against field properties defined in a schema, reporting each
+ * failure to the provided reporter.
  *
  * @param value The value to check.
  * @param spec See {@link FieldDescriptor}.
  * @param strategy See {@link FieldValidationStrategy}.
+ * @param path Path of the value.
+ * @param strategies See {@link ValidateFieldValueOptions.strategies}.
+ * @param report The function to report failures to.
  *
- * @throws {TypeError} Value is marked as required in the spec but it is null or
- *                     undefined.
- * @throws {TypeError} Value is supposed to be a string but it is not.
- * @throws {TypeError} String value does not conform to the RegExp validator
- *                     (only if validator is a RegExp).
- * @throws {TypeError} Length of string value exceeds the limit (only if
- *                     validator is a number).
- * @throws {TypeError} String value is not an element of a set of strings (only
- *                     if validator is an array).
- * @throws {TypeError} Value is supposed to be a number but it is not.
- * @throws {TypeError} Number value should not have a RegExp validator (only if
- *                     validator is a RegExp).
- * @throws {TypeError} Number value exceeds the maximum (only if validator is a
- *                     number).
- * @throws {TypeError} Number value is not an element of a set of numbers (only
- *                     if validator is an array).
- * @throws {TypeError} Value is supposed to be a boolean but it is not.
- * @throws {TypeError} Boolean value should not have a RegExp validator (only if
- *                     validator is a RegExp).
- * @throws {TypeError} Boolean value should not have a number validator (only if
- *                     validator is a number).
- * @throws {TypeError} Boolean value is not an element of a set of booleans
- *                     (only if validator is an array).
- * @throws {TypeError} Value is supposed to be a date but it is not.
- * @throws {TypeError} Date value should not have a RegExp validator (only if
- *                     validator is a RegExp).
- * @throws {TypeError} Date value should not have a number validator (only if
- *                     validator is a number).
- * @throws {TypeError} Date value should not have an array validator (only if
- *                     validator is an array).
- * @throws {TypeError} Value is supposed to be an array but it is not.
- * @throws {TypeError} Array value should not have a RegExp validator (only if
- *                     validator is a RegExp).
- * @throws {TypeError} Array value should not have a number validator (only if
- *                     validator is a number).
- * @throws {TypeError} Array value should not have an array validator (only if
- *                     validator is an array).
- * @throws {TypeError} Value is supposed to be an ObjectId but it is not.
- * @throws {TypeError} ObjectId value should not have a RegExp validator (only
- *                     if validator is a RegExp).
- * @throws {TypeError} ObjectId value should not have a number validator (only
- *                     if validator is a number).
- * @throws {TypeError} ObjectId value should not have an array validator (only
- *                     if validator is an array).
  * @throws {TypeError} Incorrect definition of a typed array type in the spec.
- * @throws {TypeError} Value is supposed to be a typed array but it is not even
- *                     an array.
- * @throws {TypeError} One or more values in the typed array is not of the
- *                     correct type.
- * @throws {TypeError} Value is supposed to be an object but it is not.
- * @throws {TypeError} Object value should not have a RegExp validator (only if
- *                     validator is a RegExp).
- * @throws {TypeError} Object value should not have a number validator (only if
- *                     validator is a number).
- * @throws {TypeError} Object value should not have an array validator (only if
- *                     validator is an array).
- * @throws {TypeError} One or more sub-fields of an object value is not valid.
- * @throws {TypeError} Value fails custom validation function (only if validator
- *                     is a function).
  */
-export function validateFieldValue<V = FieldValue>(value: V, spec: FieldDescriptor, strategy?: FieldValidationStrategy<V>) {
+function collectFieldValueErrors(value: any, spec: FieldDescriptor, strategy: FieldValidationStrategy<any> | undefined, path: string, strategies: NonNullable<ValidateFieldValueOptions['strategies']>, report: ValidationErrorReporter) {
+  function fail(rule: string, message: string) {
+    report({ path, rule, value, message })
+  }
+
   // Check if value is `undefined` or `null`, then respond accordingly depending
   // on whether or not it is a required value.
   if (value === undefined || value === null) {
-    if (spec.required) {
-      throw new TypeError('The value is marked as required but it is null or undefined')
-    }
-    else {
-      return true
-    }
+    if (spec.required) fail('required', 'The value is marked as required but it is null or undefined')
+
+    return
   }
 
   switch (spec.type) {
     case String:
-      if (typeof value !== 'string') throw new TypeError(`The value "${value}" is expected to be a string but instead it is a(n) ${typeof value}`)
+      if (typeof value !== 'string') return fail('type', `The value "${value}" is expected to be a string but instead it is a(n) ${typeof value}`)
 
       if (strategy instanceof RegExp) {
-        if (!strategy.test(value)) throw new TypeError(`The string value does not conform to the RegEx validator: ${strategy}`)
+        if (!strategy.test(value)) fail('validator', `The string value does not conform to the RegEx validator: ${strategy}`)
       }
       else if (typeof strategy === 'number') {
-        if (value.length > strategy) throw new TypeError(`The length of the string value "${value}" must be less than or equal to ${strategy}`)
+        if (value.length > strategy) fail('validator', `The length of the string value "${value}" must be less than or equal to ${strategy}`)
       }
       else if (strategy instanceof Array) {
-        if (strategy.indexOf(value) <= -1) throw new TypeError(`The string value "${value}" is not an element of ${strategy}`)
+        if (strategy.indexOf(value) <= -1) fail('validator', `The string value "${value}" is not an element of ${strategy}`)
       }
 
       break
     case Number:
-      if (typeof value !== 'number') throw new TypeError(`The value "${value}" is expected to be a number but instead it is a(n) ${typeof value}`)
+      if (typeof value !== 'number') return fail('type', `The value "${value}" is expected to be a number but instead it is a(n) ${typeof value}`)
 
       if (strategy instanceof RegExp) {
-        throw new TypeError('The RegExp validation method is not supported for number values')
+        fail('validator', 'The RegExp validation method is not supported for number values')
       }
       else if (typeof strategy === 'number') {
-        if (value > strategy) throw new TypeError(`The number value "${value}" must be less than or equal to ${strategy}`)
+        if (value > strategy) fail('validator', `The number value "${value}" must be less than or equal to ${strategy}`)
       }
       else if (strategy instanceof Array) {
-        if (strategy.indexOf(value) <= -1) throw new TypeError(`The number value "${value}" is not an element of ${strategy}`)
+        if (strategy.indexOf(value) <= -1) fail('validator', `The number value "${value}" is not an element of ${strategy}`)
       }
 
       break
     case Boolean:
-      if (typeof value !== 'boolean') throw new TypeError(`The value "${value}" is expected to be a boolean but instead it is a(n) ${typeof value}`)
+      if (typeof value !== 'boolean') return fail('type', `The value "${value}" is expected to be a boolean but instead it is a(n) ${typeof value}`)
 
       if (strategy instanceof RegExp) {
-        throw new TypeError('The RegExp validation method is not supported for boolean values')
+        fail('validator', 'The RegExp validation method is not supported for boolean values')
       }
       else if (typeof strategy === 'number') {
-        throw new TypeError('The number validation method is not supported for boolean vlaues')
+        fail('validator', 'The number validation method is not supported for boolean vlaues')
       }
       else if (strategy instanceof Array) {
-        if (strategy.indexOf(value) <= -1) throw new TypeError(`The boolean value "${value}" is not an element of ${strategy}`)
+        if (strategy.indexOf(value) <= -1) fail('validator', `The boolean value "${value}" is not an element of ${strategy}`)
       }
 
       break
     case Date:
-      if (!(value instanceof Date)) throw new TypeError(`The value "${value}" is expected to be a date but instead it is a(n) ${typeof value}`)
-
-      if (strategy instanceof RegExp) {
-        throw new TypeError('The RegExp validation method is not supported for date values')
-      }
-      else if (typeof strategy === 'number') {
-        throw new TypeError('The number validation method is not supported for date values')
-      }
-      else if (strategy instanceof Array) {
-        throw new TypeError('The array validation method is not supported for date values')
-      }
+      if (!(value instanceof Date)) return fail('type', `The value "${value}" is expected to be a date but instead it is a(n) ${typeof value}`)
+      validateStrategyIsUnsupported(strategy, 'date', fail)
 
       break
     case Array:
-      if (!(value instanceof Array)) throw new TypeError(`The value "${value}" is expected to be an array but instead it is a(n) ${typeof value}`)
-
-      if (strategy instanceof RegExp) {
-        throw new TypeError('The RegExp validation method is not supported for array values')
-      }
-      else if (typeof strategy === 'number') {
-        throw new TypeError('The number validation method is not supported for array values')
-      }
-      else if (strategy instanceof Array) {
-        throw new TypeError('The array validation method is not supported for array values')
-      }
+      if (!(value instanceof Array)) return fail('type', `The value "${value}" is expected to be an array but instead it is a(n) ${typeof value}`)
+      validateStrategyIsUnsupported(strategy, 'array', fail)
 
       break
     case ObjectId:
-      if (!typeIsValidObjectId(value)) throw new TypeError(`The value "${value}" is expected to be an ObjectId but instead it is a(n) ${typeof value}`)
+      if (!typeIsValidObjectId(value)) return fail('type', `The value "${value}" is expected to be an ObjectId but instead it is a(n) ${typeof value}`)
+      validateStrategyIsUnsupported(strategy, 'ObjectId', fail)
 
-      if (strategy instanceof RegExp) {
-        throw new TypeError('The RegExp validation method is not supported for ObjectId values')
-      }
-      else if (typeof strategy === 'number') {
-        throw new TypeError('The number validation method is not supported for ObjectId values')
-      }
-      else if (strategy instanceof Array) {
-        throw new TypeError('The array validation method is not supported for ObjectId values')
-      }
+      break
+    case Decimal128:
+      if (!(value instanceof Decimal128)) return fail('type', `The value "${value}" is expected to be a Decimal128 but instead it is a(n) ${typeof value}`)
+      validateStrategyIsUnsupported(strategy, 'Decimal128', fail)
+
+      break
+    case Binary:
+      if (!(value instanceof Binary) && !(value instanceof Uint8Array)) return fail('type', `The value "${value}" is expected to be binary data but instead it is a(n) ${typeof value}`)
+      validateStrategyIsUnsupported(strategy, 'binary', fail)
+
+      break
+    case Long:
+      if (!(value instanceof Long) && typeof value !== 'bigint' && !Number.isSafeInteger(value)) return fail('type', `The value "${value}" is expected to be a Long but instead it is a(n) ${typeof value}`)
+      validateStrategyIsUnsupported(strategy, 'Long', fail)
 
+      break
+    case UUID:
+      if (!(value instanceof UUID) && !(value instanceof Binary && value.sub_type === Binary.SUBTYPE_UUID)) return fail('type', `The value "${value}" is expected to be a UUID but instead it is a(n) ${typeof value}`)
+      validateStrategyIsUnsupported(strategy, 'UUID', fail)
+
+      break
+    case Mixed:
+      // Schemaless fields accept any value, only custom validation functions
+      // apply.
       break
     default:
     // If type is an array of a type, i.e. [Number].
       if (spec.type instanceof Array) {
         if (spec.type.length !== 1) throw new TypeError(`Incorrect definition of a typed array type ${spec.type}: when specifying a type as an array of another type, wrap the type with [], hence a one-element array`)
-        if (!(value instanceof Array)) throw new TypeError(`The value "${value}" is expected to be a typed array but instead it is a(n) ${typeof value}`)
-
-        // Ensure that every element within the array conforms to the specified
-        // type and passes the validation test.
-        for (const item of value) {
-          validateFieldValue(item, {
-            ...spec,
-            type: (spec.type as FieldType[])[0],
-          })
-        }
+        if (!(value instanceof Array)) return fail('type', `The value "${value}" is expected to be a typed array but instead it is a(n) ${typeof value}`)
+
+        // Ensure that every element within the array (including embedded docs)
+        // conforms to the specified type and passes the validation test. Array
+        // constraints only apply to the array itself.
+        const itemSpec = getElementSpec(spec) as FieldDescriptor
+
+        value.forEach((item, i) => {
+          const itemPath = prefixed(`${i}`, path)
+          collectFieldValueErrors(item, itemSpec, strategies[getPropertyProviderKey(itemPath)], itemPath, strategies, report)
+        })
       }
       // If type is an object.
       else if (isPlainObject(spec.type)) {
-        if (!isPlainObject(value)) throw new TypeError(`The value "${value}" is expected to be an object but instead it is a(n) ${typeof value}`)
-
-        if (strategy instanceof RegExp) {
-          throw new TypeError('The RegExp validation method is not supported for object values')
-        }
-        else if (typeof strategy === 'number') {
-          throw new TypeError('The number validation method is not supported for object values')
-        }
-        else if (strategy instanceof Array) {
-          throw new TypeError('The array validation method is not supported for object values')
-        }
+        if (!isPlainObject(value)) return fail('type', `The value "${value}" is expected to be an object but instead it is a(n) ${typeof value}`)
+        validateStrategyIsUnsupported(strategy, 'object', fail)
 
         // Validate each field.
         for (const subFieldName in spec.type) {
           if (!{}.hasOwnProperty.call(spec.type, subFieldName)) continue
-          validateFieldValue((value as any)[subFieldName], (spec.type as Record<string, FieldDescriptor>)[subFieldName])
+
+          const subFieldPath = prefixed(subFieldName, path)
+          collectFieldValueErrors(value[subFieldName], (spec.type as Record<string, FieldDescriptor>)[subFieldName], strategies[getPropertyProviderKey(subFieldPath)], subFieldPath, strategies, report)
         }
       }
   }
 
+  validateFieldConstraints(value, spec, fail)
+
   if (typeof strategy === 'function') {
-    if (!strategy(value)) throw new TypeError(`The value "${value}" failed to pass custom validation function`)
+    if (!strategy(value)) fail('validator', `The value "${value}" failed to pass custom validation function`)
   }
 }
+
+/**
+ * Reports a failure if a validation strategy is neither absent nor a custom
+ * validation function, for field types that do not support any other
+ * strategies.
+ *
+ * @param strategy See {@link FieldValidationStrategy}.
+ * @param typeName Name of the field type, for error messages only.
+ * @param fail The function to report the failure to.
+ */
+function validateStrategyIsUnsupported(strategy: FieldValidationStrategy<any> | undefined, typeName: string, fail: (rule: string, message: string) => void) {
+  if (strategy instanceof RegExp) {
+    fail('validator', `The RegExp validation method is not supported for ${typeName} values`)
+  }
+  else if (typeof strategy === 'number') {
+    fail('validator', `The number validation method is not supported for ${typeName} values`)
+  }
+  else if (strategy instanceof Array) {
+    fail('validator', `The array validation method is not supported for ${typeName} values`)
+  }
+}
+
+/**
+ * Checks a value against the validation constraints of a field spec. Each
+ * constraint only applies to values of the type it is intended for.
+ *
+ * @param value The value to check.
+ * @param spec See {@link FieldDescriptor}.
+ * @param fail The function to report failures to, with the name of the
+ *             violated constraint as the rule.
+ */
+function validateFieldConstraints(value: any, spec: FieldDescriptor, fail: (rule: string, message: string) => void) {
+  if (value instanceof Array) {
+    if (spec.minItems !== undefined && value.length < spec.minItems) fail('minItems', `The array value violates the "minItems" constraint: it must have at least ${spec.minItems} item(s)`)
+    if (spec.maxItems !== undefined && value.length > spec.maxItems) fail('maxItems', `The array value violates the "maxItems" constraint: it must have at most ${spec.maxItems} item(s)`)
+
+    if (spec.uniqueItems === true) {
+      const keys = value.map(item => typeof item === 'bigint' ? `${item}n` : JSON.stringify(item))
+      if (new Set(keys).size !== keys.length) fail('uniqueItems', 'The array value violates the "uniqueItems" constraint: its items must be unique')
+    }
+  }
+  else if (typeof value === 'string') {
+    if (spec.minLength !== undefined && value.length < spec.minLength) fail('minLength', `The string value "${value}" violates the "minLength" constraint: its length must be greater than or equal to ${spec.minLength}`)
+    if (spec.maxLength !== undefined && value.length > spec.maxLength) fail('maxLength', `The string value "${value}" violates the "maxLength" constraint: its length must be less than or equal to ${spec.maxLength}`)
+    if (spec.pattern !== undefined && !spec.pattern.test(value)) fail('pattern', `The string value "${value}" violates the "pattern" constraint: it must match ${spec.pattern}`)
+    if (spec.enum !== undefined && !spec.enum.includes(value)) fail('enum', `The string value "${value}" violates the "enum" constraint: it must be one of ${spec.enum}`)
+  }
+  else if (typeof value === 'number' || typeof value === 'bigint' || value instanceof Long || value instanceof Decimal128) {
+    const n = value instanceof Long || value instanceof Decimal128 ? Number(value.toString()) : Number(value)
+
+    if (spec.min !== undefined && n < spec.min) fail('min', `The number value "${value}" violates the "min" constraint: it must be greater than or equal to ${spec.min}`)
+    if (spec.max !== undefined && n > spec.max) fail('max', `The number value "${value}" violates the "max" constraint: it must be less than or equal to ${spec.max}`)
+    if (spec.enum !== undefined && !spec.enum.includes(n)) fail('enum', `The number value "${value}" violates the "enum" constraint: it must be one of ${spec.enum}`)
+  }
+  else if (typeof value === 'boolean') {
+    if (spec.enum !== undefined && !spec.enum.includes(value)) fail('enum', `The boolean value "${value}" violates the "enum" constraint: it must be one of ${spec.enum}`)
+  }
+  else if (value instanceof Date) {
+    if (spec.before !== undefined && value.getTime() >= spec.before.getTime()) fail('before', `The date value "${value.toISOString()}" violates the "before" constraint: it must be before ${spec.before.toISOString()}`)
+    if (spec.after !== undefined && value.getTime() <= spec.after.getTime()) fail('after', `The date value "${value.toISOString()}" violates the "after" constraint: it must be after ${spec.after.toISOString()}`)
+  }
+}
+
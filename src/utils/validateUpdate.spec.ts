@@ -0,0 +1,81 @@
+import assert from 'assert'
+import { describe, it } from 'mocha'
+import { Long, ObjectId } from 'mongodb'
+import { Bar, Foo } from '../__mocks__/models.js'
+import { type Schema } from '../core/index.js'
+import { ValidationError } from '../errors/index.js'
+import { sanitizeUpdate } from './sanitizeUpdate.js'
+import { validateUpdate } from './validateUpdate.js'
+
+describe('utils/validateUpdate', () => {
+  it('can validate $inc and $mul operators', () => {
+    assert.doesNotThrow(() => validateUpdate(Foo.schema, { $inc: { aNumber: 1 }, $mul: { aNumber: Long.fromNumber(2) } }))
+    assert.throws(() => validateUpdate(Foo.schema, { $inc: { aString: 1 } } as Record<string, any>), ValidationError)
+    assert.throws(() => validateUpdate(Foo.schema, { $inc: { aNumber: '1' } } as Record<string, any>), ValidationError)
+    assert.throws(() => validateUpdate(Foo.schema, { $mul: { aNonExistentField: 2 } } as Record<string, any>), ValidationError)
+  })
+
+  it('can validate $min and $max operators against validation strategies', () => {
+    assert.doesNotThrow(() => validateUpdate(Bar.schema, { $min: { aNumber: 5 }, $max: { aDate: new Date() } }, { strategies: Bar.validateProps }))
+    assert.throws(() => validateUpdate(Bar.schema, { $max: { aNumber: 5000 } }, { strategies: Bar.validateProps }), ValidationError)
+    assert.throws(() => validateUpdate(Bar.schema, { $min: { aDate: 'foo' } } as Record<string, any>), ValidationError)
+  })
+
+  it('can validate array update operators against element types', () => {
+    assert.doesNotThrow(() => validateUpdate(Foo.schema, { $push: { someBars: new ObjectId() }, $addToSet: { someBars: { $each: [new ObjectId()] } } }))
+    assert.doesNotThrow(() => validateUpdate(Bar.schema, { $pull: { 'anObject.anObjectIdArray': { $in: [new ObjectId()] } }, $pullAll: { 'anObject.anObjectIdArray': [new ObjectId()] }, $pop: { 'anObject.anObjectIdArray': -1 } }))
+    assert.throws(() => validateUpdate(Foo.schema, { $push: { someBars: 'foo' } } as Record<string, any>), ValidationError)
+    assert.throws(() => validateUpdate(Foo.schema, { $addToSet: { someBars: { $each: [new ObjectId(), 'foo'] } } } as Record<string, any>), ValidationError)
+    assert.throws(() => validateUpdate(Foo.schema, { $push: { aString: 'foo' } } as Record<string, any>), ValidationError)
+    assert.throws(() => validateUpdate(Foo.schema, { $pullAll: { someBars: 'foo' } } as Record<string, any>), ValidationError)
+    assert.throws(() => validateUpdate(Foo.schema, { $pop: { someBars: 2 } } as Record<string, any>), ValidationError)
+  })
+
+  it('can validate $rename and $currentDate operators', () => {
+    assert.doesNotThrow(() => validateUpdate(Bar.schema, { $rename: { aFormattedString: 'anEncryptedString' }, $currentDate: { aDate: true } }))
+    assert.throws(() => validateUpdate(Bar.schema, { $rename: { aString: 'anUndeclaredField' } } as Record<string, any>), ValidationError)
+    assert.throws(() => validateUpdate(Bar.schema, { $rename: { aString: 'aNumber' } } as Record<string, any>), ValidationError)
+    assert.throws(() => validateUpdate(Bar.schema, { $currentDate: { aString: true } } as Record<string, any>), ValidationError)
+    assert.throws(() => validateUpdate(Bar.schema, { $currentDate: { aDate: { $type: 'timestamp' } } }), ValidationError)
+  })
+
+  it('rejects fields of sanitized updates that are not specified in the schema', () => {
+    for (const operator of ['$inc', '$mul', '$min', '$max', '$pull', '$pullAll', '$pop', '$rename', '$currentDate']) {
+      assert.throws(() => validateUpdate(Bar.schema, sanitizeUpdate(Bar.schema, { [operator]: { notAField: 1 } })), (err: ValidationError) => err.errors[0].rule === 'schema')
+    }
+
+    assert.doesNotThrow(() => validateUpdate(Foo.schema, sanitizeUpdate(Foo.schema, { $currentDate: { createdAt: true } })))
+  })
+
+  it('can collect all failures', () => {
+    assert.throws(() => validateUpdate(Foo.schema, { $inc: { aString: 1 }, $push: { someBars: 'foo' } } as Record<string, any>, { mode: 'all' }), (err: ValidationError) => err.errors.length === 2)
+  })
+
+  it('rejects removal of required fields unless allowed', () => {
+    const schema: Schema = {
+      model: 'Qux',
+      collection: 'quxs',
+      fields: {
+        anObject: { type: { aString: { type: String, required: true }, aNumber: { type: Number } } },
+      },
+    }
+
+    const arraySchema: Schema<{ someStrings: string[] }> = {
+      model: 'Qux',
+      collection: 'quxs',
+      fields: {
+        someStrings: { type: [String], required: true },
+      },
+    }
+
+    assert.throws(() => validateUpdate(Bar.schema, { $unset: { aString: '' } }), (err: ValidationError) => err.errors[0].rule === 'required')
+    assert.throws(() => validateUpdate(Bar.schema, sanitizeUpdate(Bar.schema, { aString: undefined })), ValidationError)
+    assert.throws(() => validateUpdate(Bar.schema, { $rename: { aString: 'aFormattedString' } }), ValidationError)
+    assert.throws(() => validateUpdate(schema, { $unset: { 'anObject.aString': '' } }), ValidationError)
+    assert.doesNotThrow(() => validateUpdate(schema, { $unset: { 'anObject.aNumber': '', 'anObject': '' } }))
+    assert.throws(() => validateUpdate(arraySchema, { $push: { someStrings: { $each: ['foo'], $slice: 0 } } }), (err: ValidationError) => err.errors[0].rule === 'required')
+    assert.doesNotThrow(() => validateUpdate(arraySchema, { $push: { someStrings: { $each: ['foo'], $slice: -1 } } }))
+    assert.doesNotThrow(() => validateUpdate(arraySchema, { $push: { someStrings: { $each: ['foo'], $slice: 0 } } }, { allowRequiredFieldRemoval: true }))
+    assert.doesNotThrow(() => validateUpdate(Bar.schema, { $unset: { aNumber: '' }, $rename: { aString: 'aFormattedString' } }, { allowRequiredFieldRemoval: true }))
+  })
+})
@@ -0,0 +1,239 @@
+import { Decimal128, Long, type UpdateFilter } from 'mongodb'
+import { type FieldValidationStrategy } from '../core/Model.js'
+import { Mixed, type FieldDescriptor, type Schema } from '../core/Schema.js'
+import { ValidationError, type ValidationErrorEntry, type ValidationMode } from '../errors/index.js'
+import { isPlainObject } from '../helpers/index.js'
+import { type AnyProps, type Document } from '../types/index.js'
+import { getElementSpec } from './getElementSpec.js'
+import { getFieldSpecByKey } from './getFieldSpecByKey.js'
+import { getPropertyProviderKey } from './getPropertyProviderKey.js'
+import { validateFieldValue } from './validateFieldValue.js'
+
+export type ValidateUpdateOptions = {
+  /**
+   * Validation strategies of the fields (i.e. the `validateProps` of a model),
+   * keyed by field path, see {@link getPropertyProviderKey}.
+   */
+  strategies?: Record<string, any>
+
+  /**
+   * @see {@link ValidationMode}
+   */
+  mode?: ValidationMode
+
+  /**
+   * Specifies if required fields may be removed, i.e. for migrations.
+   */
+  allowRequiredFieldRemoval?: boolean
+}
+
+/**
+ * Function invoked for every validation failure.
+ */
+type ValidationErrorReporter = (entry: ValidationErrorEntry) => void
+
+/**
+ * Validates the operators of an update against the schema, except for `$set`
+ * and `$setOnInsert` which are validated as documents. Unless explicitly
+ * allowed, required fields (including nested required fields) must not be
+ * removed with `$unset`, renamed with `$rename` or, if they are arrays,
+ * emptied with the `$slice: 0` modifier of `$push` (rule `required`). Each
+ * updated field must be defined in the schema (rule `schema`) and be of a type
+ * supported by the operator (rule `type`):
+ *   1. `$inc` and `$mul` require numeric fields and values.
+ *   2. `$min` and `$max` values are validated against the field spec and the
+ *      validation strategy of the field, see {@link validateFieldValue}.
+ *   3. `$push`, `$addToSet`, `$pull`, `$pullAll` and `$pop` require array
+ *      fields, where pushed (including `$each` modifiers) and pulled values
+ *      are validated against the type of the elements. `$pop` values must be
+ *      `1` or `-1`.
+ *   4. `$rename` requires the target field to be defined in the schema with
+ *      the same type as the renamed field.
+ *   5. `$currentDate` requires `Date` fields.
+ *
+ * @param schema The collection schema.
+ * @param update The update to validate.
+ * @param options See {@link ValidateUpdateOptions}.
+ *
+ * @throws {ValidationError} The update fails validation, either with the first
+ *                           failure or all failures depending on the `mode`.
+ */
+export function validateUpdate<P extends AnyProps = AnyProps>(schema: Schema<P>, update: UpdateFilter<Document<P>>, { strategies = {}, mode = 'first', allowRequiredFieldRemoval = false }: ValidateUpdateOptions = {}) {
+  const errors: ValidationErrorEntry[] = []
+
+  const report: ValidationErrorReporter = entry => {
+    if (mode === 'first') throw new ValidationError([entry], { model: schema.model, operation: 'validateUpdate' })
+    errors.push(entry)
+  }
+
+  for (const operator in update) {
+    if (!{}.hasOwnProperty.call(update, operator)) continue
+    if (operator === '$set' || operator === '$setOnInsert') continue
+
+    const fields: Record<string, any> = (update as Record<string, any>)[operator] ?? {}
+
+    for (const key in fields) {
+      if (!{}.hasOwnProperty.call(fields, key)) continue
+
+      const value = fields[key]
+      const spec = schema.timestamps === true && (key === 'createdAt' || key === 'updatedAt') ? { type: Date } : getFieldSpecByKey(schema.fields, key)
+
+      if ((operator === '$unset' || operator === '$rename') && spec?.required === true && !allowRequiredFieldRemoval) {
+        report({ path: key, rule: 'required', value, message: `The required field '${key}' cannot be removed` })
+        continue
+      }
+
+      if (operator === '$push' && spec?.required === true && !allowRequiredFieldRemoval && isPlainObject(value) && value.$slice === 0) {
+        report({ path: key, rule: 'required', value, message: `The required array '${key}' cannot be emptied` })
+        continue
+      }
+
+      // Unsetting fields not defined in the schema is harmless.
+      if (operator === '$unset') continue
+
+      if (!spec) {
+        report({ path: key, rule: 'schema', value, message: `The field '${key}' is not defined in the schema` })
+        continue
+      }
+
+      collectOperatorErrors(operator, key, value, spec, strategies[getPropertyProviderKey(key)], schema, report)
+    }
+  }
+
+  if (errors.length > 0) throw new ValidationError(errors, { model: schema.model, operation: 'validateUpdate' })
+}
+
+/**
+ * Checks the value of a single field of an update operator, reporting each
+ * failure to the provided reporter.
+ *
+ * @param operator The update operator, i.e. `$inc`.
+ * @param path Path of the field.
+ * @param value The value of the field in the operator.
+ * @param spec See {@link FieldDescriptor}.
+ * @param strategy See {@link FieldValidationStrategy}.
+ * @param schema The collection schema.
+ * @param report The function to report failures to.
+ */
+function collectOperatorErrors(operator: string, path: string, value: any, spec: FieldDescriptor, strategy: FieldValidationStrategy<any> | undefined, schema: Schema<any>, report: ValidationErrorReporter) {
+  function fail(rule: string, message: string) {
+    report({ path, rule, value, message })
+  }
+
+  function check(v: any, s: FieldDescriptor, st?: FieldValidationStrategy<any>) {
+    try {
+      validateFieldValue(v, s, st, { path, mode: 'all' })
+    }
+    catch (err) {
+      if (!(err instanceof ValidationError)) throw err
+      err.errors.forEach(report)
+    }
+  }
+
+  const elementSpec = getArrayElementSpec(spec)
+
+  switch (operator) {
+    case '$inc':
+    case '$mul':
+      if (spec.type !== Number && spec.type !== Long && spec.type !== Decimal128 && spec.type !== Mixed) return fail('type', `The ${operator} operator is not supported for the non-numeric field '${path}'`)
+      if (!valueIsNumeric(value)) return fail('type', `The value "${value}" of the ${operator} operator is expected to be numeric but instead it is a(n) ${typeof value}`)
+
+      break
+    case '$min':
+    case '$max':
+      check(value, spec, strategy)
+
+      break
+    case '$push':
+    case '$addToSet':
+      if (!elementSpec) return fail('type', `The ${operator} operator is not supported for the non-array field '${path}'`)
+
+      if (isPlainObject(value) && {}.hasOwnProperty.call(value, '$each')) {
+        if (!(value.$each instanceof Array)) return fail('type', `The $each modifier of the ${operator} operator is expected to be an array`)
+        value.$each.forEach((t: any) => check(t, elementSpec))
+      }
+      else {
+        check(value, elementSpec)
+      }
+
+      break
+    case '$pull':
+      if (!elementSpec) return fail('type', `The ${operator} operator is not supported for the non-array field '${path}'`)
+
+      // Conditions (i.e. `{ $gte: 6 }`) are not validated, only values.
+      if (!isPlainObject(value)) check(value, elementSpec)
+
+      break
+    case '$pullAll':
+      if (!elementSpec) return fail('type', `The ${operator} operator is not supported for the non-array field '${path}'`)
+      if (!(value instanceof Array)) return fail('type', `The value "${value}" of the ${operator} operator is expected to be an array but instead it is a(n) ${typeof value}`)
+
+      value.forEach(t => check(t, elementSpec))
+
+      break
+    case '$pop':
+      if (!elementSpec) return fail('type', `The ${operator} operator is not supported for the non-array field '${path}'`)
+      if (value !== 1 && value !== -1) return fail('type', `The value "${value}" of the ${operator} operator is expected to be 1 or -1`)
+
+      break
+    case '$rename': {
+      if (typeof value !== 'string') return fail('type', `The value "${value}" of the ${operator} operator is expected to be a string but instead it is a(n) ${typeof value}`)
+
+      const targetSpec = getFieldSpecByKey(schema.fields, value)
+
+      if (!targetSpec) return report({ path: value, rule: 'schema', value, message: `The field '${value}' is not defined in the schema` })
+      if (!fieldTypesAreEqual(spec, targetSpec)) return fail('type', `The field '${path}' cannot be renamed to the field '${value}' of a different type`)
+
+      break
+    }
+    case '$currentDate':
+      if (spec.type !== Date && spec.type !== Mixed) return fail('type', `The ${operator} operator is not supported for the non-date field '${path}'`)
+      if (value !== true && value?.$type !== 'date') return fail('type', `The value "${JSON.stringify(value)}" of the ${operator} operator is expected to be true or { $type: 'date' }`)
+
+      break
+    default:
+      break
+  }
+}
+
+/**
+ * Gets the spec of the elements of an array field, where elements of untyped
+ * arrays are {@link Mixed}. See {@link getElementSpec}.
+ *
+ * @param spec See {@link FieldDescriptor}.
+ *
+ * @returns The spec of the elements, `undefined` if the field is not an array.
+ */
+function getArrayElementSpec(spec: FieldDescriptor): FieldDescriptor | undefined {
+  if (spec.type instanceof Array) return getElementSpec(spec)
+  if (spec.type === Array || spec.type === Mixed) return { type: Mixed }
+
+  return undefined
+}
+
+/**
+ * Checks if two fields are of the same type, where typed arrays are of the
+ * same type if their elements are.
+ *
+ * @param a See {@link FieldDescriptor}.
+ * @param b See {@link FieldDescriptor}.
+ *
+ * @returns `true` or `false`.
+ */
+function fieldTypesAreEqual(a: FieldDescriptor, b: FieldDescriptor): boolean {
+  if (a.type instanceof Array && b.type instanceof Array) return a.type[0] === b.type[0]
+
+  return a.type === b.type
+}
+
+/**
+ * Checks if a value is numeric, i.e. a number, a `bigint`, a `Long` or a
+ * `Decimal128`.
+ *
+ * @param value The value to check.
+ *
+ * @returns `true` or `false`.
+ */
+function valueIsNumeric(value: any): boolean {
+  return typeof value === 'number' || typeof value === 'bigint' || value instanceof Long || value instanceof Decimal128
+}
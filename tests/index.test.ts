@@ -1,6 +1,6 @@
 import assert from 'assert'
 import { before, describe, it } from 'mocha'
-import { configureDb, getDbConnection } from '../build/index.js'
+import { ConnectionError, configureDb, getDbConnection } from '../build/index.js'
 
 describe('can connect to a database', () => {
   before(async () => {
@@ -31,3 +31,88 @@ describe('can connect to a database', () => {
     assert(db !== undefined && db !== null)
   })
 })
+
+describe('can configure multiple named connections', () => {
+  before(async () => {
+    configureDb({
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+    })
+
+    configureDb('analytics', {
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test_analytics',
+    })
+  })
+
+  it('can get connections by name', async () => {
+    const connection = getDbConnection()
+    const analyticsConnection = getDbConnection('analytics')
+    assert(connection)
+    assert(analyticsConnection)
+    assert(connection !== analyticsConnection)
+    assert(getDbConnection('foo') === undefined)
+  })
+
+  it('can fetch db instances of different connections', async () => {
+    const db = await getDbConnection()?.getDbInstance()
+    const analyticsDb = await getDbConnection('analytics')?.getDbInstance()
+    assert(db?.databaseName === 'mongodb_odm_test')
+    assert(analyticsDb?.databaseName === 'mongodb_odm_test_analytics')
+    await getDbConnection()?.disconnect()
+    await getDbConnection('analytics')?.disconnect()
+  })
+})
+
+describe('can replace connections', () => {
+  it('throws if the configuration options are missing', () => {
+    assert.throws(() => configureDb('replaced', undefined as any), ConnectionError)
+  })
+
+  it('disconnects a replaced connection', async () => {
+    let closed = false
+
+    configureDb('replaced', {
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+    })
+
+    const connection = getDbConnection('replaced')
+    assert(connection)
+
+    Object.assign(connection, {
+      client: {
+        close: async () => {
+          closed = true
+        },
+      },
+    })
+
+    const disconnecting = configureDb('replaced', {
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+    })
+
+    assert(getDbConnection('replaced') !== connection)
+
+    await disconnecting
+
+    assert(closed)
+  })
+
+  it('rejects if the replaced connection cannot be disconnected', async () => {
+    const connection = getDbConnection('replaced')
+    assert(connection)
+
+    Object.assign(connection, {
+      client: {
+        close: async () => Promise.reject(new Error()),
+      },
+    })
+
+    await assert.rejects(configureDb('replaced', {
+      host: process.env.MONGODB_HOST ?? 'localhost:27017',
+      name: 'mongodb_odm_test',
+    }), ConnectionError)
+  })
+})